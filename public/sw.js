@@ -0,0 +1,126 @@
+/**
+ * Keeps the app shell available offline, so a board that reloads without a
+ * connection still starts. Notices are not cached here: the page keeps its
+ * own copy in IndexedDB and the socket brings it up to date.
+ *
+ * Pages and the manifest are fetched from the network first, falling back to
+ * the cache. Built assets carry a hash in their name, so those are served
+ * from the cache once fetched. Attachments come from the network as well;
+ * only the ones the server marks public are kept, in a cache of their own
+ * that the page clears on sign-out and drops deleted notices' files from.
+ */
+// v1 also kept attachments of unpublished notices; bumping drops that copy
+const CACHE = 'uniboard-shell-v2';
+const ATTACHMENTS = 'uniboard-attachments-v1';
+const SHELL = '/';
+const STATIC = ['/manifest.webmanifest', '/icon.svg'];
+// The server's own routes; anything else the browser navigates to is the app
+const SERVER_ROUTES = /^\/(api|feeds)\//;
+
+const isImmutable = (url) => url.pathname.startsWith('/assets/');
+const isAttachment = (url) => /^\/api\/attachments\/\d+$/.test(url.pathname);
+
+// Stores a fresh copy of the page along with the assets it loads. A new
+// build has new asset names, so the previous build's assets are dropped.
+async function cacheShell(response) {
+  const cache = await caches.open(CACHE);
+  const html = await response.clone().text();
+  const previous = await cache.match(SHELL);
+  if (previous && (await previous.text()) === html) return;
+
+  for (const request of await cache.keys()) {
+    if (new URL(request.url).pathname.startsWith('/assets/')) await cache.delete(request);
+  }
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(match => match[1]);
+  await cache.addAll(assets);
+  await cache.put(SHELL, response);
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// A file the server no longer serves publicly, e.g. as its notice went back
+// to review, loses its offline copy along with it.
+async function fetchAttachment(request) {
+  const cache = await caches.open(ATTACHMENTS);
+  try {
+    const response = await fetch(request);
+    if (response.ok && /\bpublic\b/.test(response.headers.get('Cache-Control') ?? '')) {
+      await cache.put(request, response.clone());
+    } else {
+      await cache.delete(request);
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    await cache.addAll(STATIC);
+    await cacheShell(await fetch(SHELL));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name !== CACHE && name !== ATTACHMENTS) await caches.delete(name);
+    }
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate' && !SERVER_ROUTES.test(url.pathname)) {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        if (response.ok) event.waitUntil(cacheShell(response.clone()));
+        return response;
+      } catch (err) {
+        const cached = await caches.match(SHELL);
+        if (cached) return cached;
+        throw err;
+      }
+    })());
+  } else if (isImmutable(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (isAttachment(url)) {
+    event.respondWith(fetchAttachment(request));
+  } else if (STATIC.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  }
+});
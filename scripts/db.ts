@@ -0,0 +1,79 @@
+import "dotenv/config";
+import fs from "fs";
+import Database from "better-sqlite3";
+import { DATABASE_FILE } from "../server/db";
+import { migrate, migrationStatus, SchemaTooNewError } from "../server/migrate";
+
+const USAGE = `Usage: npm run db -- <command>
+
+  status              Show the schema version and any pending migrations
+  backup [file]       Copy the database to file, by default next to it with a timestamp
+  migrate [--backup]  Apply pending migrations, taking a backup first with --backup
+
+The server applies pending migrations itself when it starts.`;
+
+function defaultBackupFile(): string {
+  return `${DATABASE_FILE}.${new Date().toISOString().replace(/[:.]/g, "-")}.bak`;
+}
+
+function openDatabase(): Database.Database {
+  if (!fs.existsSync(DATABASE_FILE)) {
+    console.error(`No database at ${DATABASE_FILE}; the server creates it on first start.`);
+    process.exit(1);
+  }
+  return new Database(DATABASE_FILE);
+}
+
+async function backup(db: Database.Database, file = defaultBackupFile()) {
+  await db.backup(file);
+  console.log(`Backed up ${DATABASE_FILE} to ${file}`);
+}
+
+function status(db: Database.Database) {
+  const { current, latest, applied, pending } = migrationStatus(db);
+  console.log(`Schema version ${current}; this code expects ${latest}.`);
+  for (const migration of applied) {
+    console.log(`  applied  ${String(migration.version).padStart(3)} ${migration.name} (${migration.appliedAt})`);
+  }
+  for (const migration of pending) {
+    console.log(`  pending  ${String(migration.version).padStart(3)} ${migration.name}`);
+  }
+  if (current > latest) {
+    console.error("The database is newer than this code; the server will refuse to start.");
+    process.exitCode = 1;
+  }
+}
+
+async function run(command: string | undefined, args: string[]) {
+  switch (command) {
+    case "status":
+      status(openDatabase());
+      break;
+    case "backup":
+      await backup(openDatabase(), args[0]);
+      break;
+    case "migrate": {
+      const db = openDatabase();
+      if (args.includes("--backup") && migrationStatus(db).pending.length) {
+        await backup(db);
+      }
+      const applied = migrate(db);
+      for (const migration of applied) {
+        console.log(`Applied migration ${migration.version} (${migration.name})`);
+      }
+      if (!applied.length) console.log("The database is up to date.");
+      break;
+    }
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+try {
+  await run(process.argv[2], process.argv.slice(3));
+} catch (err) {
+  if (!(err instanceof SchemaTooNewError)) throw err;
+  console.error(err.message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,171 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import {
+  AnalyticsInterval,
+  AnalyticsQuery,
+  AnalyticsReport,
+  EngagementMetrics,
+  Notice,
+  NoticeImpressions
+} from "../src/types";
+import { canAccessBoard } from "../src/permissions";
+import { Auth, requirePermission } from "./auth";
+import { BoardStore } from "./boards";
+import { DisplayInfo } from "./emergency";
+import { AppError } from "./errors";
+import { categoryParam, dateParam } from "./validation";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DEFAULT_RANGE_MS = 7 * DAY_MS;
+// Shorter ranges are charted by the hour, longer ones by the day
+const HOURLY_RANGE_MS = 2 * DAY_MS;
+const MAX_BUCKETS = 24 * 31;
+const TOP_NOTICES = 50;
+
+const INTERVAL_MS: Record<AnalyticsInterval, number> = { hour: HOUR_MS, day: DAY_MS };
+
+const METRIC_COLUMNS = "SUM(views) AS views, SUM(expands) AS expands, SUM(dwellSeconds) AS dwellSeconds";
+
+/** The start of the UTC hour or day that `time` falls in. */
+function bucketStart(time: number, interval: AnalyticsInterval): number {
+  return time - time % INTERVAL_MS[interval];
+}
+
+function toMetrics(row: any): EngagementMetrics {
+  return {
+    views: row?.views ?? 0,
+    expands: row?.expands ?? 0,
+    dwellSeconds: Math.round(row?.dwellSeconds ?? 0),
+  };
+}
+
+/**
+ * Engagement reported by public screens. Reports are added up per notice,
+ * screen and hour as they arrive, so the table grows with the number of
+ * notices shown rather than with traffic. The category is kept with each row
+ * so totals survive the notice being deleted.
+ */
+export function createAnalyticsStore(db: Database.Database) {
+  const record = db.transaction((display: DisplayInfo, boardId: number, impressions: (NoticeImpressions & { category: Notice["category"] })[]) => {
+    const hour = new Date(bucketStart(Date.now(), "hour")).toISOString();
+    const upsert = db.prepare(`
+      INSERT INTO notice_engagement (hour, noticeId, boardId, category, displayId, displayLabel, views, expands, dwellSeconds)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (hour, noticeId, displayId) DO UPDATE SET
+        category = excluded.category,
+        displayLabel = excluded.displayLabel,
+        views = views + excluded.views,
+        expands = expands + excluded.expands,
+        dwellSeconds = dwellSeconds + excluded.dwellSeconds
+    `);
+    for (const { noticeId, category, views, expands, dwellSeconds } of impressions) {
+      if (views === 0 && expands === 0 && dwellSeconds === 0) continue;
+      upsert.run(hour, noticeId, boardId, category, display.displayId, display.label, views, expands, dwellSeconds);
+    }
+  });
+
+  const report = (boardId: number, query: AnalyticsQuery): AnalyticsReport => {
+    const to = query.to ?? new Date().toISOString();
+    const from = query.from ?? new Date(new Date(to).getTime() - DEFAULT_RANGE_MS).toISOString();
+    const start = new Date(from).getTime();
+    const end = new Date(to).getTime();
+    if (start > end) {
+      throw new AppError("invalid_request", "from must be before to");
+    }
+    const interval = query.interval ?? (end - start <= HOURLY_RANGE_MS ? "hour" : "day");
+    if ((end - start) / INTERVAL_MS[interval] > MAX_BUCKETS) {
+      throw new AppError("invalid_request", `Choose a shorter range or a longer interval; at most ${MAX_BUCKETS} ${interval}s can be charted`);
+    }
+
+    // Rows are hourly, so a range starting mid-hour counts that whole hour
+    const where = ["boardId = ?", "hour >= ?", "hour <= ?"];
+    const params: unknown[] = [boardId, new Date(bucketStart(start, "hour")).toISOString(), to];
+    if (query.category?.length) {
+      where.push(`category IN (${query.category.map(() => "?").join(", ")})`);
+      params.push(...query.category);
+    }
+    const clause = `WHERE ${where.join(" AND ")}`;
+
+    const bucketExpr = interval === "day" ? "substr(hour, 1, 10) || 'T00:00:00.000Z'" : "hour";
+    const byBucket = new Map(
+      (db.prepare(`SELECT ${bucketExpr} AS bucket, ${METRIC_COLUMNS} FROM notice_engagement ${clause} GROUP BY bucket`)
+        .all(...params) as any[]).map(row => [row.bucket, toMetrics(row)])
+    );
+    const series: AnalyticsReport["series"] = [];
+    for (let time = bucketStart(start, interval); time <= end; time += INTERVAL_MS[interval]) {
+      const bucket = new Date(time).toISOString();
+      series.push({ bucket, ...(byBucket.get(bucket) ?? toMetrics(null)) });
+    }
+
+    const notices = db.prepare(`
+      SELECT noticeId, category, ${METRIC_COLUMNS},
+        COALESCE(
+          (SELECT title FROM notices WHERE id = noticeId),
+          (SELECT title FROM notice_archive WHERE id = noticeId)
+        ) AS title
+      FROM notice_engagement ${clause}
+      GROUP BY noticeId
+      ORDER BY views DESC, dwellSeconds DESC
+      LIMIT ?
+    `).all(...params, TOP_NOTICES) as any[];
+
+    const categories = db.prepare(`
+      SELECT category, ${METRIC_COLUMNS} FROM notice_engagement ${clause}
+      GROUP BY category ORDER BY views DESC
+    `).all(...params) as any[];
+
+    // A screen may have been renamed; show the label it last reported to this board
+    const displays = db.prepare(`
+      SELECT displayId, ${METRIC_COLUMNS},
+        (SELECT displayLabel FROM notice_engagement latest
+          WHERE latest.displayId = notice_engagement.displayId AND latest.boardId = notice_engagement.boardId
+          ORDER BY hour DESC LIMIT 1) AS label
+      FROM notice_engagement ${clause}
+      GROUP BY displayId ORDER BY views DESC
+    `).all(...params) as any[];
+
+    return {
+      from,
+      to,
+      interval,
+      totals: toMetrics(db.prepare(`SELECT ${METRIC_COLUMNS} FROM notice_engagement ${clause}`).get(...params)),
+      series,
+      notices: notices.map(row => ({ noticeId: row.noticeId, title: row.title ?? undefined, category: row.category, ...toMetrics(row) })),
+      categories: categories.map(row => ({ category: row.category, ...toMetrics(row) })),
+      displays: displays.map(row => ({ displayId: row.displayId, label: row.label, ...toMetrics(row) })),
+    };
+  };
+
+  return { record, report };
+}
+
+export type AnalyticsStore = ReturnType<typeof createAnalyticsStore>;
+
+function parseAnalyticsQuery(query: Record<string, unknown>): AnalyticsQuery {
+  const { interval } = query;
+  if (interval !== undefined && interval !== "hour" && interval !== "day") {
+    throw new AppError("invalid_request", "interval must be hour or day");
+  }
+  return {
+    from: dateParam(query.from, "from"),
+    to: dateParam(query.to, "to"),
+    category: categoryParam(query.category),
+    interval: interval as AnalyticsInterval | undefined,
+  };
+}
+
+/** A board's figures are for its own staff; admins see every board's. */
+export function createAnalyticsRouter(analytics: AnalyticsStore, boards: BoardStore, auth: Auth) {
+  const router = express.Router();
+
+  router.get("/analytics", requirePermission(auth, "analytics:view"), (req, res) => {
+    const board = boards.resolve(typeof req.query.board === "string" ? req.query.board : undefined);
+    if (!canAccessBoard(res.locals.user, board.id)) {
+      throw new AppError("forbidden", `You are not on the staff of ${board.name}`);
+    }
+    res.json({ report: analytics.report(board.id, parseAnalyticsQuery(req.query)) });
+  });
+
+  return router;
+}
@@ -0,0 +1,281 @@
+import express, { NextFunction, Request, Response } from "express";
+import type Database from "better-sqlite3";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { Attachment, AttachmentType, ATTACHMENT_LIMITS, ATTACHMENT_TYPES, User } from "../src/types";
+import { canAccessBoard, canManageBoard, hasPermission } from "../src/permissions";
+import { Auth, requirePermission } from "./auth";
+import { AppError } from "./errors";
+import { NoticeStore } from "./notices";
+
+// Uploads that never made it onto a notice, e.g. from a form that was
+// abandoned, are removed once they are this old.
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_MEGABYTES = ATTACHMENT_LIMITS.bytes / (1024 * 1024);
+
+/** Recognizes a file by its leading bytes; the name and declared type are not trusted. */
+const SIGNATURES: Record<AttachmentType, (data: Buffer) => boolean> = {
+  "application/pdf": data => data.subarray(0, 5).toString("latin1") === "%PDF-",
+  "image/png": data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  "image/gif": data => /^GIF8[79]a/.test(data.subarray(0, 6).toString("latin1")),
+  "image/webp": data => data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP",
+};
+
+/** An attachment as stored, with where it lives on disk and who it belongs to. */
+interface StoredAttachment extends Attachment {
+  noticeId: number | null;
+  storedAs: string;
+  uploadedBy: number | null;
+}
+
+function toStoredAttachment(row: any): StoredAttachment {
+  return {
+    id: row.id,
+    filename: row.filename,
+    mimeType: row.mimeType,
+    size: row.size,
+    createdAt: row.createdAt,
+    noticeId: row.noticeId,
+    storedAs: row.storedAs,
+    uploadedBy: row.uploadedBy,
+  };
+}
+
+function toAttachment({ id, filename, mimeType, size, createdAt }: StoredAttachment): Attachment {
+  return { id, filename, mimeType, size, createdAt };
+}
+
+function detectType(data: Buffer): AttachmentType | undefined {
+  return (Object.keys(SIGNATURES) as AttachmentType[]).find(type => SIGNATURES[type](data));
+}
+
+/** The name to show for an upload: its last path segment, without control characters. */
+function cleanFilename(value: unknown, type: AttachmentType): string {
+  const name = typeof value === "string"
+    ? value.replace(/[\x00-\x1f\x7f]/g, "").split(/[\\/]/).pop()!.trim()
+    : "";
+  if (name.length > ATTACHMENT_LIMITS.filename) {
+    throw new AppError("invalid_request", `name must be at most ${ATTACHMENT_LIMITS.filename} characters`);
+  }
+  return name || `attachment.${ATTACHMENT_TYPES[type]}`;
+}
+
+/** A Content-Disposition header with an ASCII fallback name and the real name per RFC 6266. */
+function contentDisposition(disposition: "inline" | "attachment", filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError("invalid_request", "Invalid attachment id");
+  }
+  return id;
+}
+
+/**
+ * Files attached to notices. Uploads are written to `dir` under a random name
+ * and start out pending; saving a notice with their ids links them to it.
+ */
+export function createAttachmentStore(db: Database.Database, dir: string) {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = (attachment: StoredAttachment): string => path.join(dir, attachment.storedAs);
+
+  const removeUnreferenced = (rows: StoredAttachment[]) => {
+    if (!db.open) return;
+    for (const row of rows) {
+      if (db.prepare("SELECT 1 FROM attachments WHERE storedAs = ?").get(row.storedAs)) continue;
+      fs.rmSync(filePath(row), { force: true });
+    }
+  };
+
+  // Rows go first so a file is never left referenced after it is gone. Inside
+  // a transaction the files wait until it has committed; one that rolls back
+  // brings the rows back, and their files stay.
+  const removeRows = (rows: StoredAttachment[]) => {
+    for (const row of rows) {
+      db.prepare("DELETE FROM attachments WHERE id = ?").run(row.id);
+    }
+    if (db.inTransaction) {
+      process.nextTick(removeUnreferenced, rows);
+    } else {
+      removeUnreferenced(rows);
+    }
+  };
+
+  const find = (id: number): StoredAttachment | undefined => {
+    const row = db.prepare("SELECT * FROM attachments WHERE id = ?").get(id);
+    return row ? toStoredAttachment(row) : undefined;
+  };
+
+  const removeStale = () => {
+    const cutoff = new Date(Date.now() - PENDING_TTL_MS).toISOString();
+    removeRows((db.prepare("SELECT * FROM attachments WHERE noticeId IS NULL AND createdAt < ?").all(cutoff) as any[])
+      .map(toStoredAttachment));
+  };
+
+  /** Stores an upload as a pending attachment. Rejects anything that is not an allowed file type. */
+  const save = (data: Buffer, name: unknown, userId: number): Attachment => {
+    const type = detectType(data);
+    if (!type) {
+      throw new AppError("invalid_request", "Only PDF, PNG, JPEG, GIF and WebP files can be attached");
+    }
+    const filename = cleanFilename(name, type);
+    removeStale();
+
+    const storedAs = `${randomUUID()}.${ATTACHMENT_TYPES[type]}`;
+    fs.writeFileSync(path.join(dir, storedAs), data);
+    const info = db.prepare(`
+      INSERT INTO attachments (filename, mimeType, size, storedAs, uploadedBy, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(filename, type, data.length, storedAs, userId, new Date().toISOString());
+    return toAttachment(find(info.lastInsertRowid as number)!);
+  };
+
+  /** Attachments of each of `noticeIds`, in the order they were given. */
+  const listFor = (noticeIds: number[]): Map<number, Attachment[]> => {
+    const rows = (db.prepare(`
+      SELECT * FROM attachments
+      WHERE noticeId IN (SELECT value FROM json_each(?))
+      ORDER BY noticeId, position, id
+    `).all(JSON.stringify(noticeIds)) as any[]).map(toStoredAttachment);
+    const byNotice = new Map<number, Attachment[]>();
+    for (const row of rows) {
+      byNotice.set(row.noticeId!, [...(byNotice.get(row.noticeId!) ?? []), toAttachment(row)]);
+    }
+    return byNotice;
+  };
+
+  /**
+   * Makes `ids` the notice's attachments, in that order. Each must already be
+   * on the notice or be a pending upload by `userId`; attachments the notice
+   * no longer lists are deleted along with their files.
+   */
+  const link = (noticeId: number, ids: number[], userId: number) => {
+    for (const id of ids) {
+      const attachment = find(id);
+      const usable = attachment &&
+        (attachment.noticeId === noticeId || (attachment.noticeId === null && attachment.uploadedBy === userId));
+      if (!usable) {
+        throw new AppError("invalid_request", `Attachment ${id} not found`);
+      }
+    }
+    const dropped = (db.prepare(`
+      SELECT * FROM attachments WHERE noticeId = ? AND id NOT IN (SELECT value FROM json_each(?))
+    `).all(noticeId, JSON.stringify(ids)) as any[]).map(toStoredAttachment);
+    ids.forEach((id, position) => {
+      db.prepare("UPDATE attachments SET noticeId = ?, position = ? WHERE id = ?").run(noticeId, position, id);
+    });
+    removeRows(dropped);
+  };
+
+  /** Deletes every attachment of a notice, files included. */
+  const removeFor = (noticeId: number) => {
+    removeRows((db.prepare("SELECT * FROM attachments WHERE noticeId = ?").all(noticeId) as any[]).map(toStoredAttachment));
+  };
+
+  const removePending = (attachment: StoredAttachment) => removeRows([attachment]);
+
+  /**
+   * Gives `toNoticeId` its own copy of each attachment of `fromNoticeId`, files
+   * included, so either notice can later drop them without affecting the other.
+   */
+  const copyFor = (fromNoticeId: number, toNoticeId: number) => {
+    const rows = (db.prepare("SELECT * FROM attachments WHERE noticeId = ? ORDER BY position, id").all(fromNoticeId) as any[]);
+    rows.forEach(row => {
+      const storedAs = `${randomUUID()}${path.extname(row.storedAs)}`;
+      fs.copyFileSync(path.join(dir, row.storedAs), path.join(dir, storedAs));
+      db.prepare(`
+        INSERT INTO attachments (filename, mimeType, size, storedAs, uploadedBy, createdAt, noticeId, position)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(row.filename, row.mimeType, row.size, storedAs, row.uploadedBy, row.createdAt, toNoticeId, row.position);
+    });
+  };
+
+  return { find, filePath, save, listFor, link, removeFor, removePending, copyFor };
+}
+
+export type AttachmentStore = ReturnType<typeof createAttachmentStore>;
+
+/** Whether `user` may download an attachment, going by where its notice is. */
+function canView(user: User | null, attachment: StoredAttachment, notices: NoticeStore): boolean {
+  if (attachment.noticeId === null) {
+    return !!user && attachment.uploadedBy === user.id;
+  }
+  const notice = notices.find(attachment.noticeId);
+  if (notice) {
+    return notices.isPublished(notice.id) || canManageBoard(user, notice.boardId);
+  }
+  const archived = notices.findArchived(attachment.noticeId);
+  return !!archived && hasPermission(user, "notice:archive") && canAccessBoard(user, archived.boardId);
+}
+
+/**
+ * Uploading and serving notice attachments. A file is uploaded as the raw
+ * request body with its name in `?name=`, then linked to a notice through
+ * `attachmentIds` when the notice is saved.
+ */
+export function createAttachmentRouter(attachments: AttachmentStore, notices: NoticeStore, auth: Auth) {
+  const router = express.Router();
+  const parseFile = express.raw({ type: () => true, limit: ATTACHMENT_LIMITS.bytes });
+
+  const readUpload = (req: Request, res: Response, next: NextFunction) => {
+    parseFile(req, res, err => {
+      if ((err as { type?: string } | undefined)?.type === "entity.too.large") {
+        return next(new AppError("invalid_request", `Files must be at most ${MAX_MEGABYTES} MB`));
+      }
+      next(err);
+    });
+  };
+
+  router.post("/attachments", requirePermission(auth, "notice:create"), readUpload, (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new AppError("invalid_request", "Send the file as the request body");
+    }
+    const attachment = attachments.save(req.body, req.query.name, auth.getRequestUser(req)!.id);
+    res.status(201).json({ attachment });
+  });
+
+  // Served inline so images and PDFs open in the browser; ?download=1 saves instead.
+  router.get("/attachments/:id", (req, res, next) => {
+    const attachment = attachments.find(parseId(req.params.id));
+    if (!attachment || !canView(auth.getRequestUser(req), attachment, notices)) {
+      throw new AppError("not_found", "Attachment not found");
+    }
+    const isPublic = attachment.noticeId !== null && notices.isPublished(attachment.noticeId);
+    res.sendFile(path.resolve(attachments.filePath(attachment)), {
+      cacheControl: false,
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Disposition": contentDisposition(req.query.download ? "attachment" : "inline", attachment.filename),
+        "X-Content-Type-Options": "nosniff",
+        // A stored file never changes, but it stops being public when its notice goes
+        "Cache-Control": isPublic ? "public, max-age=3600" : "private, no-cache",
+      },
+    }, err => {
+      if (err && !res.headersSent) {
+        next((err as NodeJS.ErrnoException).code === "ENOENT" ? new AppError("not_found", "Attachment not found") : err);
+      }
+    });
+  });
+
+  // Only pending uploads; attachments on a notice are removed by editing it
+  router.delete("/attachments/:id", requirePermission(auth, "notice:create"), (req, res) => {
+    const attachment = attachments.find(parseId(req.params.id));
+    if (!attachment || attachment.uploadedBy !== auth.getRequestUser(req)!.id) {
+      throw new AppError("not_found", "Attachment not found");
+    }
+    if (attachment.noticeId !== null) {
+      throw new AppError("conflict", "This file is attached to a notice; edit the notice to remove it");
+    }
+    attachments.removePending(attachment);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,187 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import type { IncomingMessage } from "http";
+import { AuditAction, AuditEntry, AuditPage, AuditQuery, AUDIT_ACTIONS, User } from "../src/types";
+import { Auth, requirePermission } from "./auth";
+import { toCsvDocument } from "./csv";
+import { AppError } from "./errors";
+import { dateParam, listParam } from "./validation";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const CSV_COLUMNS = ["id", "at", "actor", "ip", "action", "noticeId", "before", "after"] as const;
+
+/** Who is acting and from where; recorded with every entry. */
+export interface AuditContext {
+  user: User | null;
+  ip?: string;
+}
+
+/** What an action changed, as snapshots of the affected record. */
+export interface AuditChange {
+  noticeId?: number;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * The address a request came from. X-Forwarded-For can be sent by anyone, so
+ * it is only believed with `trustProxy`, and then only for the address the
+ * nearest proxy appended. Express requests have this worked out in `req.ip`
+ * by the app's "trust proxy" setting.
+ */
+export function clientIp(req: IncomingMessage & { ip?: string }, trustProxy = false): string | undefined {
+  if (req.ip) return req.ip;
+  const forwarded = trustProxy ? req.headers["x-forwarded-for"] : undefined;
+  const last = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded)?.split(",").pop()?.trim();
+  return last || req.socket.remoteAddress || undefined;
+}
+
+function encodeSnapshot(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function toAuditEntry(row: any): AuditEntry {
+  return {
+    id: row.id,
+    at: row.at,
+    actorId: row.actorId ?? undefined,
+    actorName: row.actorName ?? undefined,
+    ip: row.ip ?? undefined,
+    action: row.action,
+    noticeId: row.noticeId ?? undefined,
+    before: row.before === null ? undefined : JSON.parse(row.before),
+    after: row.after === null ? undefined : JSON.parse(row.after),
+  };
+}
+
+/**
+ * The audit log: one row per change made through the API. Triggers refuse
+ * any UPDATE or DELETE, so entries cannot be altered or removed once written,
+ * even by code that reaches the table directly.
+ */
+export function createAuditLog(db: Database.Database) {
+  const record = ({ user, ip }: AuditContext, action: AuditAction, { noticeId, before, after }: AuditChange = {}) => {
+    db.prepare(`
+      INSERT INTO audit_log (at, actorId, actorName, ip, action, noticeId, before, after)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      new Date().toISOString(), user?.id ?? null, user?.username ?? null, ip ?? null, action, noticeId ?? null,
+      encodeSnapshot(before), encodeSnapshot(after)
+    );
+  };
+
+  const filters = (q: AuditQuery): { where: string[], params: unknown[] } => {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (q.action?.length) {
+      where.push(`action IN (${q.action.map(() => "?").join(", ")})`);
+      params.push(...q.action);
+    }
+    if (q.actor) {
+      where.push("actorName = ? COLLATE NOCASE");
+      params.push(q.actor);
+    }
+    if (q.noticeId) {
+      where.push("noticeId = ?");
+      params.push(q.noticeId);
+    }
+    if (q.from) {
+      where.push("at >= ?");
+      params.push(q.from);
+    }
+    if (q.to) {
+      where.push("at <= ?");
+      params.push(q.to);
+    }
+    return { where, params };
+  };
+
+  const whereClause = (where: string[]) => where.length ? `WHERE ${where.join(" AND ")}` : "";
+
+  /** Newest first. The cursor is the id of the last entry on the previous page. */
+  const query = (q: AuditQuery): AuditPage => {
+    const { where, params } = filters(q);
+    if (q.cursor) {
+      where.push("id < ?");
+      params.push(Number(q.cursor));
+    }
+    const limit = Math.min(Math.max(q.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const rows = db.prepare(`SELECT * FROM audit_log ${whereClause(where)} ORDER BY id DESC LIMIT ?`)
+      .all(...params, limit + 1) as any[];
+    const entries = rows.slice(0, limit).map(toAuditEntry);
+    return {
+      entries,
+      nextCursor: rows.length > limit ? String(entries[entries.length - 1].id) : null,
+    };
+  };
+
+  /** Every matching entry, oldest first, for export. */
+  const list = (q: AuditQuery): AuditEntry[] => {
+    const { where, params } = filters(q);
+    return (db.prepare(`SELECT * FROM audit_log ${whereClause(where)} ORDER BY id`).all(...params) as any[]).map(toAuditEntry);
+  };
+
+  return { record, query, list };
+}
+
+export type AuditLog = ReturnType<typeof createAuditLog>;
+
+function parseAuditQuery(query: Record<string, unknown>): AuditQuery {
+  const action = listParam(query.action);
+  const unknownAction = action.find(a => !AUDIT_ACTIONS.includes(a as AuditAction));
+  if (unknownAction) {
+    throw new AppError("invalid_request", `Unknown action: ${unknownAction}`);
+  }
+
+  const noticeId = query.noticeId === undefined || query.noticeId === "" ? undefined : Number(query.noticeId);
+  if (noticeId !== undefined && (!Number.isInteger(noticeId) || noticeId < 1)) {
+    throw new AppError("invalid_request", "noticeId must be a positive integer");
+  }
+  const limit = query.limit === undefined ? undefined : Number(query.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new AppError("invalid_request", "limit must be a positive integer");
+  }
+  const cursor = typeof query.cursor === "string" ? query.cursor : undefined;
+  if (cursor !== undefined && !/^[1-9]\d*$/.test(cursor)) {
+    throw new AppError("invalid_request", "Invalid cursor");
+  }
+
+  return {
+    action: action as AuditAction[],
+    actor: typeof query.actor === "string" && query.actor.trim() ? query.actor.trim() : undefined,
+    noticeId,
+    from: dateParam(query.from, "from"),
+    to: dateParam(query.to, "to"),
+    cursor,
+    limit,
+  };
+}
+
+/** Reading the audit log, page by page or as a CSV export of everything matching the filters. */
+export function createAuditRouter(audit: AuditLog, auth: Auth) {
+  const router = express.Router();
+
+  router.get("/audit", requirePermission(auth, "audit:view"), (req, res) => {
+    res.json(audit.query(parseAuditQuery(req.query)));
+  });
+
+  router.get("/audit/export", requirePermission(auth, "audit:view"), (req, res) => {
+    const entries = audit.list(parseAuditQuery(req.query));
+    const csv = toCsvDocument(CSV_COLUMNS, entries.map(entry => ({
+      id: entry.id,
+      at: entry.at,
+      actor: entry.actorName,
+      ip: entry.ip,
+      action: entry.action,
+      noticeId: entry.noticeId,
+      before: encodeSnapshot(entry.before) ?? undefined,
+      after: encodeSnapshot(entry.after) ?? undefined,
+    })));
+    res.attachment(`uniboard-audit-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.type("text/csv").send(csv);
+  });
+
+  return router;
+}
@@ -0,0 +1,296 @@
+import express, { NextFunction, Request, Response } from "express";
+import type Database from "better-sqlite3";
+import type { IncomingMessage } from "http";
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { Board, ClientEvent, Notice, Role, User, UserInput } from "../src/types";
+import { canAccessBoard, canDeleteNotice, canEditNotice, hasPermission, Permission } from "../src/permissions";
+import { AuditLog, clientIp } from "./audit";
+import { DEFAULT_BOARD_ID } from "./boards";
+import { AppError } from "./errors";
+
+export const SESSION_COOKIE = "uniboard_session";
+const SESSION_TTL_MS = 1000 * 60 * 60 * 12;
+const ROLES: Role[] = ["viewer", "poster", "board_admin", "admin"];
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(password, salt, 64).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    const key = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[key] = decodeURIComponent(value);
+    } catch {
+      cookies[key] = value;
+    }
+  }
+  return cookies;
+}
+
+export function sessionCookie(token: string, secure: boolean): string {
+  const parts = [
+    `${SESSION_COOKIE}=${token}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${Math.floor(SESSION_TTL_MS / 1000)}`,
+  ];
+  if (secure) parts.push("Secure");
+  return parts.join("; ");
+}
+
+export function clearedSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
+
+function toUser(row: any, boardIds: number[]): User {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    department: row.department ?? undefined,
+    boardIds,
+    createdAt: row.createdAt,
+  };
+}
+
+export function createAuth(db: Database.Database) {
+  const loadUser = (row: any): User => {
+    const boards = db.prepare("SELECT boardId FROM board_staff WHERE userId = ? ORDER BY boardId").all(row.id) as { boardId: number }[];
+    return toUser(row, boards.map(board => board.boardId));
+  };
+
+  const createUser = db.transaction((input: UserInput): User => {
+    const username = typeof input.username === "string" ? input.username.trim() : "";
+    if (!username || !input.password) {
+      throw new AppError("invalid_request", "Username and password are required");
+    }
+    if (!ROLES.includes(input.role)) {
+      throw new AppError("invalid_request", `Unknown role: ${input.role}`);
+    }
+    if (db.prepare("SELECT 1 FROM users WHERE username = ?").get(username)) {
+      throw new AppError("conflict", "Username already exists");
+    }
+    // Staff join the default board unless told which boards they work on
+    const boardIds = input.boardIds ?? (input.role === "viewer" ? [] : [DEFAULT_BOARD_ID]);
+    if (!Array.isArray(boardIds) || !boardIds.every(id => db.prepare("SELECT 1 FROM boards WHERE id = ?").get(id))) {
+      throw new AppError("invalid_request", "boardIds must list existing boards");
+    }
+    const info = db.prepare(`
+      INSERT INTO users (username, passwordHash, role, department)
+      VALUES (?, ?, ?, ?)
+    `).run(username, hashPassword(input.password), input.role, input.department || null);
+    const addStaff = db.prepare("INSERT OR IGNORE INTO board_staff (boardId, userId) VALUES (?, ?)");
+    for (const boardId of boardIds) addStaff.run(boardId, info.lastInsertRowid);
+    return loadUser(db.prepare("SELECT * FROM users WHERE id = ?").get(info.lastInsertRowid));
+  });
+
+  const listUsers = (): User[] =>
+    (db.prepare("SELECT * FROM users ORDER BY username").all() as any[]).map(loadUser);
+
+  const deleteUser = (id: number) => {
+    db.prepare("DELETE FROM sessions WHERE userId = ?").run(id);
+    db.prepare("DELETE FROM board_staff WHERE userId = ?").run(id);
+    db.prepare("DELETE FROM users WHERE id = ?").run(id);
+  };
+
+  const ensureBootstrapAdmin = (username?: string, password?: string) => {
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM users").get() as { count: number };
+    if (count > 0) return;
+    if (!username || !password) {
+      console.warn("No user accounts exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the initial admin.");
+      return;
+    }
+    createUser({ username, password, role: "admin" });
+    console.log(`Created admin account "${username}"`);
+  };
+
+  const login = (username: string, password: string): { token: string; user: User } | null => {
+    const row = db.prepare("SELECT * FROM users WHERE username = ?").get(username) as any;
+    if (!row || !verifyPassword(password, row.passwordHash)) return null;
+
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS).toISOString();
+    db.prepare("INSERT INTO sessions (token, userId, expiresAt) VALUES (?, ?, ?)").run(token, row.id, expiresAt);
+    return { token, user: loadUser(row) };
+  };
+
+  const logout = (token: string) => {
+    db.prepare("DELETE FROM sessions WHERE token = ?").run(token);
+  };
+
+  const getSessionUser = (token: string | undefined): User | null => {
+    if (!token) return null;
+    const row = db.prepare(`
+      SELECT users.*, sessions.expiresAt AS sessionExpiresAt FROM sessions
+      JOIN users ON users.id = sessions.userId
+      WHERE sessions.token = ?
+    `).get(token) as any;
+    if (!row) return null;
+    if (new Date(row.sessionExpiresAt).getTime() <= Date.now()) {
+      logout(token);
+      return null;
+    }
+    return loadUser(row);
+  };
+
+  const getRequestUser = (req: IncomingMessage): User | null =>
+    getSessionUser(parseCookies(req.headers.cookie)[SESSION_COOKIE]);
+
+  return {
+    createUser,
+    listUsers,
+    deleteUser,
+    ensureBootstrapAdmin,
+    login,
+    logout,
+    getSessionUser,
+    getRequestUser,
+  };
+}
+
+export type Auth = ReturnType<typeof createAuth>;
+
+/**
+ * Checks whether `user` may run `event` on `board`. Returns a human readable
+ * reason when the event is rejected, or null when it is allowed.
+ */
+export function authorizeEvent(
+  user: User | null,
+  event: ClientEvent,
+  board: Board,
+  findNotice: (id: number) => Notice | undefined
+): string | null {
+  // Any screen may confirm it has shown an emergency alert or report what it showed
+  if (event.type === "ACK_EMERGENCY" || event.type === "RECORD_IMPRESSIONS") return null;
+  if (!user) return "Login required";
+  // Emergency alerts reach every board, so they are not a matter of board staff
+  const boardWide = event.type !== "ISSUE_EMERGENCY" && event.type !== "CLEAR_EMERGENCY";
+  if (boardWide && !canAccessBoard(user, board.id)) return `You are not on the staff of ${board.name}`;
+
+  switch (event.type) {
+    case "ADD_NOTICE":
+      if (!hasPermission(user, "notice:create")) return "Your role cannot post notices";
+      if (event.crossPost?.length && !hasPermission(user, "notice:crosspost")) return "Your role cannot cross-post notices";
+      return null;
+    case "UPDATE_NOTICE": {
+      const notice = findNotice(event.id);
+      if (!notice) return null;
+      return canEditNotice(user, notice) ? null : "Your role cannot edit this notice";
+    }
+    case "DELETE_NOTICE": {
+      const notice = findNotice(event.id);
+      if (!notice) return null;
+      return canDeleteNotice(user, notice) ? null : "Your role cannot delete this notice";
+    }
+    case "REVIEW_NOTICE":
+      return hasPermission(user, "notice:review") ? null : "Your role cannot review notices";
+    case "PIN_NOTICE":
+    case "REORDER_PINNED":
+      return hasPermission(user, "notice:arrange") ? null : "Your role cannot pin notices";
+    case "BULK_UPDATE_NOTICES": {
+      if (!hasPermission(user, "notice:arrange")) return "Your role cannot change notices in bulk";
+      if (event.action.kind === "archive") {
+        return hasPermission(user, "notice:archive") ? null : "Your role cannot manage the archive";
+      }
+      const allowed = event.action.kind === "delete" ? canDeleteNotice : canEditNotice;
+      const notice = event.ids.map(findNotice).find(notice => notice && !allowed(user, notice));
+      return notice ? `Your role cannot change "${notice.title}"` : null;
+    }
+    case "PURGE_EXPIRED":
+    case "RESTORE_ARCHIVED":
+      return hasPermission(user, "notice:archive") ? null : "Your role cannot manage the archive";
+    case "ISSUE_EMERGENCY":
+    case "CLEAR_EMERGENCY":
+      return hasPermission(user, "emergency:broadcast") ? null : "Your role cannot send emergency alerts";
+    default:
+      return "Unknown event";
+  }
+}
+
+/**
+ * Resolves the session user into `res.locals.user` and rejects the request
+ * unless that user holds `permission`.
+ */
+export function requirePermission(auth: Auth, permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = auth.getRequestUser(req);
+    if (!user) {
+      return next(new AppError("unauthorized", "Login required"));
+    }
+    if (!hasPermission(user, permission)) {
+      return next(new AppError("forbidden", "Forbidden"));
+    }
+    res.locals.user = user;
+    next();
+  };
+}
+
+export function createAuthRouter(auth: Auth, audit: AuditLog) {
+  const router = express.Router();
+
+  router.post("/auth/login", (req, res) => {
+    const { username, password } = req.body ?? {};
+    if (typeof username !== "string" || typeof password !== "string") {
+      throw new AppError("invalid_request", "Username and password are required");
+    }
+    const session = auth.login(username, password);
+    if (!session) {
+      throw new AppError("unauthorized", "Invalid username or password");
+    }
+    res.setHeader("Set-Cookie", sessionCookie(session.token, req.secure));
+    res.json({ user: session.user });
+  });
+
+  router.post("/auth/logout", (req, res) => {
+    const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+    if (token) auth.logout(token);
+    res.setHeader("Set-Cookie", clearedSessionCookie());
+    res.json({ ok: true });
+  });
+
+  router.get("/auth/me", (req, res) => {
+    res.json({ user: auth.getRequestUser(req) });
+  });
+
+  router.get("/users", requirePermission(auth, "user:manage"), (req, res) => {
+    res.json({ users: auth.listUsers() });
+  });
+
+  router.post("/users", requirePermission(auth, "user:manage"), (req, res) => {
+    const user = auth.createUser((req.body ?? {}) as UserInput);
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "user.create", { after: user });
+    res.status(201).json({ user });
+  });
+
+  router.delete("/users/:id", requirePermission(auth, "user:manage"), (req, res) => {
+    const id = Number(req.params.id);
+    if (id === (res.locals.user as User).id) {
+      throw new AppError("invalid_request", "You cannot delete your own account");
+    }
+    const existing = auth.listUsers().find(user => user.id === id);
+    auth.deleteUser(id);
+    if (existing) {
+      audit.record({ user: res.locals.user, ip: clientIp(req) }, "user.delete", { before: existing });
+    }
+    res.json({ ok: true });
+  });
+
+  return router;
+}
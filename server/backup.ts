@@ -0,0 +1,253 @@
+import express from "express";
+import {
+  BackupFilter,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BoardBackup,
+  ExportFormat,
+  ImportConflictMode,
+  ImportReport,
+  ImportResult,
+  Notice,
+  NoticeRevision
+} from "../src/types";
+import { AUDIENCE_FIELDS } from "../src/lib/audience";
+import { AuditLog, clientIp } from "./audit";
+import { Auth, requirePermission } from "./auth";
+import { CategoryStore } from "./categories";
+import { toCsvDocument } from "./csv";
+import { AppError } from "./errors";
+import { Broadcast } from "./events";
+import { BackupContents, ImportedNotice, NoticeStore } from "./notices";
+import { PriorityStore } from "./priorities";
+import { categoryParam, dateParam, parseBackup } from "./validation";
+
+/** Backups of a busy board are far larger than any other request. */
+export const MAX_BACKUP_BYTES = 20 * 1024 * 1024;
+
+const CSV_COLUMNS = [
+  "type", "id", "revision", "title", "content", "category", "priority", "author",
+  ...AUDIENCE_FIELDS.map(({ field }) => field),
+  "eventStart", "eventEnd", "location", "createdAt", "publishAt", "expiresAt", "archivedAt", "archiveReason", "editedAt", "editedBy",
+] as const;
+
+type CsvRow = Partial<Record<(typeof CSV_COLUMNS)[number], string | number>>;
+
+function flagParam(value: unknown): boolean {
+  return value === "1" || value === "true";
+}
+
+function parseExportQuery(query: Record<string, unknown>): { format: ExportFormat, filter: BackupFilter } {
+  const format = query.format ?? "json";
+  if (format !== "json" && format !== "csv") {
+    throw new AppError("invalid_request", "format must be one of: csv, json");
+  }
+  return {
+    format,
+    filter: {
+      from: dateParam(query.from, "from"),
+      to: dateParam(query.to, "to"),
+      category: categoryParam(query.category),
+      includeArchived: flagParam(query.archived),
+      includeRevisions: flagParam(query.revisions),
+    },
+  };
+}
+
+function parseConflictMode(value: unknown): ImportConflictMode | null {
+  if (value === undefined) return null;
+  if (value !== "skip" && value !== "replace") {
+    throw new AppError("invalid_request", "onConflict must be one of: skip, replace");
+  }
+  return value;
+}
+
+function audienceCells(notice: Pick<Notice, "audience">): CsvRow {
+  const cells: CsvRow = {};
+  for (const { field } of AUDIENCE_FIELDS) {
+    const values = notice.audience?.[field] as unknown[] | undefined;
+    if (values?.length) cells[field] = values.join("; ");
+  }
+  return cells;
+}
+
+function noticeCells(notice: Notice | NoticeRevision): CsvRow {
+  return {
+    title: notice.title,
+    content: notice.content,
+    category: notice.category,
+    priority: notice.priority,
+    author: notice.author,
+    ...audienceCells(notice),
+    eventStart: notice.eventStart,
+    eventEnd: notice.eventEnd,
+    location: notice.location,
+    publishAt: notice.publishAt,
+    expiresAt: notice.expiresAt,
+  };
+}
+
+/** "live" or "scheduled" for an approved notice, otherwise where it is in review. */
+function noticeType(notice: Notice, now: string): string {
+  if (notice.status !== "approved") return notice.status;
+  return !notice.publishAt || notice.publishAt <= now ? "live" : "scheduled";
+}
+
+/**
+ * One row per notice for reports: live, scheduled, unreviewed and archived
+ * notices are told apart by `type`, and revisions follow as rows of type
+ * "revision".
+ */
+function toCsv({ notices, archived, revisions }: BackupContents, exportedAt: string): string {
+  const rows: CsvRow[] = [
+    ...notices.map(notice => ({ ...noticeCells(notice), type: noticeType(notice, exportedAt), id: notice.id, createdAt: notice.createdAt })),
+    ...(archived ?? []).map(notice => ({
+      ...noticeCells(notice),
+      type: "archived",
+      id: notice.id,
+      createdAt: notice.createdAt,
+      archivedAt: notice.archivedAt,
+      archiveReason: notice.archiveReason,
+    })),
+    ...(revisions ?? []).map(revision => ({
+      ...noticeCells(revision),
+      type: "revision",
+      id: revision.noticeId,
+      revision: revision.revision,
+      editedAt: revision.editedAt,
+      editedBy: revision.editedByName ?? revision.editedBy,
+    })),
+  ];
+  return toCsvDocument(CSV_COLUMNS, rows);
+}
+
+/**
+ * Tells connected boards about restored notices, as if each had been
+ * posted, edited, scheduled or archived the usual way.
+ */
+function broadcastImport(imported: ImportedNotice[], notices: NoticeStore, broadcast: Broadcast) {
+  const archivedIds: number[] = [];
+  for (const { id, before, after } of imported) {
+    if (after === "archived") {
+      if (before === "live" || before === "scheduled") archivedIds.push(id);
+      continue;
+    }
+    const notice = notices.find(id)!;
+    if (after === "live") {
+      broadcast({ type: before === "live" ? "NOTICE_UPDATED" : "NOTICE_ADDED", notice }, "all", notice.boardId);
+    } else {
+      if (before === "live") broadcast({ type: "NOTICE_DELETED", id }, "all", notice.boardId);
+      broadcast({ type: "NOTICE_SCHEDULED", notice }, "managers", notice.boardId);
+    }
+  }
+  if (archivedIds.length) {
+    broadcast({ type: "NOTICES_ARCHIVED", ids: archivedIds });
+  }
+}
+
+/**
+ * Adds the categories a backup's notices are filed under that this board does
+ * not have, and files each notice under the board's spelling of its category.
+ */
+function restoreCategories(backup: BackupContents, categories: CategoryStore, broadcast: Broadcast): BackupContents {
+  const restored = [...backup.notices, ...(backup.archived ?? [])];
+  if (categories.ensure(restored.map(notice => notice.category)).length) {
+    broadcast({ type: "CATEGORIES_UPDATED", categories: categories.list() });
+  }
+  const refile = <T extends Notice>(notice: T): T => ({ ...notice, category: categories.findByName(notice.category)!.name });
+  return { ...backup, notices: backup.notices.map(refile), archived: backup.archived?.map(refile) };
+}
+
+/** The same for priorities: adds the missing ones and uses the board's spelling. */
+function restorePriorities(backup: BackupContents, priorities: PriorityStore, broadcast: Broadcast): BackupContents {
+  const restored = [...backup.notices, ...(backup.archived ?? [])];
+  if (priorities.ensure(restored.map(notice => notice.priority)).length) {
+    broadcast({ type: "PRIORITIES_UPDATED", priorities: priorities.list() });
+  }
+  const refile = <T extends Notice>(notice: T): T => ({ ...notice, priority: priorities.findByName(notice.priority)!.name });
+  return { ...backup, notices: backup.notices.map(refile), archived: backup.archived?.map(refile) };
+}
+
+/**
+ * Board history export (CSV for reports, versioned JSON for backups) and
+ * restoring a JSON backup. Both are limited to admins.
+ */
+export function createBackupRouter(
+  notices: NoticeStore,
+  categories: CategoryStore,
+  priorities: PriorityStore,
+  auth: Auth,
+  broadcast: Broadcast,
+  audit: AuditLog
+) {
+  const router = express.Router();
+  const parseUpload = express.json({ limit: MAX_BACKUP_BYTES });
+
+  router.get("/export", requirePermission(auth, "board:backup"), (req, res) => {
+    const { format, filter } = parseExportQuery(req.query);
+    const contents = notices.exportBackup(filter);
+    const exportedAt = new Date().toISOString();
+    const name = format === "csv" ? "uniboard-notices" : "uniboard-backup";
+    res.attachment(`${name}-${exportedAt.slice(0, 10)}.${format}`);
+
+    if (format === "csv") {
+      res.type("text/csv").send(toCsv(contents, exportedAt));
+    } else {
+      const backup: BoardBackup = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt, filter, ...contents };
+      res.json(backup);
+    }
+  });
+
+  // Checks a backup without writing anything, so the admin can decide what
+  // to do about notices that already exist.
+  router.post("/import/check", requirePermission(auth, "board:backup"), parseUpload, (req, res) => {
+    const backup = parseBackup(req.body);
+    const report: ImportReport = {
+      notices: backup.notices.length,
+      archived: backup.archived?.length ?? 0,
+      revisions: backup.revisions?.length ?? 0,
+      conflicts: notices.findConflicts(backup),
+    };
+    res.json({ report });
+  });
+
+  // Without ?onConflict=skip|replace the import is refused if any id is taken.
+  router.post("/import", requirePermission(auth, "board:backup"), parseUpload, (req, res) => {
+    const onConflict = parseConflictMode(req.query.onConflict);
+    let backup = parseBackup(req.body);
+    if (!onConflict) {
+      const conflicts = notices.findConflicts(backup);
+      if (conflicts.length) {
+        const which = conflicts.length === 1 ? "1 notice in this backup already exists" : `${conflicts.length} notices in this backup already exist`;
+        throw new AppError("conflict", `${which}; choose whether to skip or replace them`);
+      }
+    }
+
+    backup = restoreCategories(backup, categories, broadcast);
+    backup = restorePriorities(backup, priorities, broadcast);
+
+    // Whatever a replaced notice looked like is gone after the import, so keep it for the audit log first
+    const snapshot = (id: number) => notices.find(id) ?? notices.findArchived(id);
+    const previous = new Map([...backup.notices, ...(backup.archived ?? [])].map(notice => [notice.id, snapshot(notice.id)]));
+
+    const { imported, skipped, revisions } = notices.importBackup(backup, onConflict ?? "skip");
+    broadcastImport(imported, notices, broadcast);
+    for (const { id } of imported) {
+      audit.record({ user: res.locals.user, ip: clientIp(req) }, "backup.import", {
+        noticeId: id,
+        before: previous.get(id),
+        after: snapshot(id),
+      });
+    }
+
+    const result: ImportResult = {
+      imported: imported.length,
+      replaced: imported.filter(notice => notice.before).length,
+      skipped: skipped.length,
+      revisions,
+    };
+    res.json({ result });
+  });
+
+  return router;
+}
@@ -0,0 +1,183 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import { Board, BOARD_LIMITS, BoardInput, CATEGORY_COLORS, CategoryColor } from "../src/types";
+import { AuditLog, clientIp } from "./audit";
+import { Auth, requirePermission } from "./auth";
+import { AppError } from "./errors";
+import { Broadcast } from "./events";
+
+/** The board every notice was on before there were several; `/` shows it and it cannot be deleted. */
+export const DEFAULT_BOARD_ID = 1;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function toBoard(row: any): Board {
+  return { id: row.id, slug: row.slug, name: row.name, tagline: row.tagline, color: row.color, createdAt: row.createdAt };
+}
+
+function parseBoardInput(body: unknown): BoardInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { slug, name, tagline = "", color } = input;
+
+  // Slugs become part of the board's address, e.g. /b/engineering
+  if (typeof slug !== "string" || !SLUG_PATTERN.test(slug) || slug.length > BOARD_LIMITS.slug) {
+    throw new AppError("invalid_request", `slug must be up to ${BOARD_LIMITS.slug} lowercase letters, digits and single hyphens`);
+  }
+  if (typeof name !== "string" || !name.trim() || name.length > BOARD_LIMITS.name) {
+    throw new AppError("invalid_request", `name must be between 1 and ${BOARD_LIMITS.name} characters`);
+  }
+  if (typeof tagline !== "string" || tagline.length > BOARD_LIMITS.tagline) {
+    throw new AppError("invalid_request", `tagline must be at most ${BOARD_LIMITS.tagline} characters`);
+  }
+  if (!CATEGORY_COLORS.includes(color as CategoryColor)) {
+    throw new AppError("invalid_request", `color must be one of: ${CATEGORY_COLORS.join(", ")}`);
+  }
+  return { slug, name: name.trim(), tagline: tagline.trim(), color: color as CategoryColor };
+}
+
+function parseUserIds(body: unknown): number[] {
+  const { userIds } = (body ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(userIds) || !userIds.every(id => Number.isInteger(id) && id > 0)) {
+    throw new AppError("invalid_request", "userIds must be a list of user ids");
+  }
+  return [...new Set(userIds as number[])];
+}
+
+/**
+ * The boards notices are posted to, and who is on each board's staff.
+ * Admins run every board without being listed.
+ */
+export function createBoardStore(db: Database.Database) {
+  const list = (): Board[] =>
+    (db.prepare("SELECT * FROM boards ORDER BY id = ? DESC, name COLLATE NOCASE").all(DEFAULT_BOARD_ID) as any[]).map(toBoard);
+
+  const find = (id: number): Board | undefined => {
+    const row = db.prepare("SELECT * FROM boards WHERE id = ?").get(id);
+    return row ? toBoard(row) : undefined;
+  };
+
+  const findBySlug = (slug: string): Board | undefined => {
+    const row = db.prepare("SELECT * FROM boards WHERE slug = ?").get(slug);
+    return row ? toBoard(row) : undefined;
+  };
+
+  /** The board named by `slug`, or the default board without one. */
+  const resolve = (slug: string | undefined): Board => {
+    const board = slug ? findBySlug(slug) : find(DEFAULT_BOARD_ID);
+    if (!board) throw new AppError("not_found", `There is no board called ${slug}`);
+    return board;
+  };
+
+  const isTaken = (slug: string, exceptId?: number) => {
+    const other = findBySlug(slug);
+    return !!other && other.id !== exceptId;
+  };
+
+  const create = (input: BoardInput): Board => {
+    if (isTaken(input.slug)) {
+      throw new AppError("conflict", `A board at /b/${input.slug} already exists`);
+    }
+    const info = db.prepare("INSERT INTO boards (slug, name, tagline, color, createdAt) VALUES (?, ?, ?, ?, ?)")
+      .run(input.slug, input.name, input.tagline, input.color, new Date().toISOString());
+    return find(Number(info.lastInsertRowid))!;
+  };
+
+  const update = (id: number, input: BoardInput): Board | undefined => {
+    if (!find(id)) return undefined;
+    if (isTaken(input.slug, id)) {
+      throw new AppError("conflict", `A board at /b/${input.slug} already exists`);
+    }
+    db.prepare("UPDATE boards SET slug = ?, name = ?, tagline = ?, color = ? WHERE id = ?")
+      .run(input.slug, input.name, input.tagline, input.color, id);
+    return find(id);
+  };
+
+  /** Deletes an empty board. One that still has notices, live, scheduled or archived, is refused. */
+  const remove = db.transaction((id: number): Board => {
+    const existing = find(id);
+    if (!existing) throw new AppError("not_found", "Board not found");
+    if (id === DEFAULT_BOARD_ID) {
+      throw new AppError("conflict", "The default board cannot be deleted");
+    }
+    const { count } = db.prepare(`
+      SELECT (SELECT COUNT(*) FROM notices WHERE boardId = ?) + (SELECT COUNT(*) FROM notice_archive WHERE boardId = ?) AS count
+    `).get(id, id) as { count: number };
+    if (count > 0) {
+      const which = count === 1 ? "1 notice" : `${count} notices`;
+      throw new AppError("conflict", `${existing.name} still has ${which}, archived ones included; delete them first`);
+    }
+    db.prepare("DELETE FROM board_staff WHERE boardId = ?").run(id);
+    db.prepare("DELETE FROM boards WHERE id = ?").run(id);
+    return existing;
+  });
+
+  /** The ids of the board's staff. */
+  const staff = (boardId: number): number[] =>
+    (db.prepare("SELECT userId FROM board_staff WHERE boardId = ? ORDER BY userId").all(boardId) as { userId: number }[])
+      .map(row => row.userId);
+
+  /** Replaces the board's staff with `userIds`. */
+  const setStaff = db.transaction((boardId: number, userIds: number[]): number[] => {
+    const unknown = userIds.find(id => !db.prepare("SELECT 1 FROM users WHERE id = ?").get(id));
+    if (unknown !== undefined) {
+      throw new AppError("invalid_request", `User ${unknown} does not exist`);
+    }
+    db.prepare("DELETE FROM board_staff WHERE boardId = ?").run(boardId);
+    const add = db.prepare("INSERT INTO board_staff (boardId, userId) VALUES (?, ?)");
+    for (const userId of userIds) add.run(boardId, userId);
+    return staff(boardId);
+  });
+
+  return { list, find, findBySlug, resolve, create, update, remove, staff, setStaff };
+}
+
+export type BoardStore = ReturnType<typeof createBoardStore>;
+
+/** The list of boards is public, for switching between them; changes need board:manage. */
+export function createBoardRouter(boards: BoardStore, auth: Auth, broadcast: Broadcast, audit: AuditLog) {
+  const router = express.Router();
+
+  const findBoard = (value: string): Board => {
+    const board = boards.find(Number(value));
+    if (!board) throw new AppError("not_found", "Board not found");
+    return board;
+  };
+
+  router.get("/boards", (req, res) => {
+    res.json({ boards: boards.list() });
+  });
+
+  router.post("/boards", requirePermission(auth, "board:manage"), (req, res) => {
+    const board = boards.create(parseBoardInput(req.body));
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "board.create", { after: board });
+    res.status(201).json({ board });
+  });
+
+  router.put("/boards/:id", requirePermission(auth, "board:manage"), (req, res) => {
+    const existing = findBoard(req.params.id);
+    const board = boards.update(existing.id, parseBoardInput(req.body))!;
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "board.update", { before: existing, after: board });
+    broadcast({ type: "BOARD_UPDATED", board }, "all", board.id);
+    res.json({ board });
+  });
+
+  router.delete("/boards/:id", requirePermission(auth, "board:manage"), (req, res) => {
+    const removed = boards.remove(findBoard(req.params.id).id);
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "board.delete", { before: removed });
+    res.status(204).end();
+  });
+
+  // Body: { userIds }, the board's whole staff list
+  router.put("/boards/:id/staff", requirePermission(auth, "board:manage"), (req, res) => {
+    const board = findBoard(req.params.id);
+    const before = boards.staff(board.id);
+    const userIds = boards.setStaff(board.id, parseUserIds(req.body));
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "board.update", {
+      before: { slug: board.slug, staff: before },
+      after: { slug: board.slug, staff: userIds },
+    });
+    res.json({ userIds });
+  });
+
+  return router;
+}
@@ -0,0 +1,218 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  CATEGORY_LIMITS,
+  CategoryColor,
+  CategoryIconName,
+  NoticeCategory,
+  NoticeCategoryInput
+} from "../src/types";
+import { AuditLog, clientIp } from "./audit";
+import { Auth, requirePermission } from "./auth";
+import { AppError } from "./errors";
+import { Broadcast } from "./events";
+
+// Tables that file rows under a category by name
+const CATEGORY_COLUMNS = ["notices", "notice_archive", "notice_revisions", "notice_engagement"];
+
+function toCategory(row: any): NoticeCategory {
+  return { id: row.id, name: row.name, color: row.color, icon: row.icon, sortOrder: row.sortOrder };
+}
+
+function parseCategoryInput(body: unknown): NoticeCategoryInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { name, color, icon, sortOrder } = input;
+
+  if (typeof name !== "string" || !name.trim() || name.length > CATEGORY_LIMITS.name) {
+    throw new AppError("invalid_request", `name must be between 1 and ${CATEGORY_LIMITS.name} characters`);
+  }
+  // Names travel in comma-separated filters such as ?category=Exam,Event
+  if (name.includes(",")) {
+    throw new AppError("invalid_request", "name cannot contain commas");
+  }
+  if (!CATEGORY_COLORS.includes(color as CategoryColor)) {
+    throw new AppError("invalid_request", `color must be one of: ${CATEGORY_COLORS.join(", ")}`);
+  }
+  if (!CATEGORY_ICONS.includes(icon as CategoryIconName)) {
+    throw new AppError("invalid_request", `icon must be one of: ${CATEGORY_ICONS.join(", ")}`);
+  }
+  if (typeof sortOrder !== "number" || !Number.isInteger(sortOrder)) {
+    throw new AppError("invalid_request", "sortOrder must be a whole number");
+  }
+  return { name: name.trim(), color: color as CategoryColor, icon: icon as CategoryIconName, sortOrder };
+}
+
+/**
+ * The board's categories. Notices, display profiles and engagement figures
+ * refer to a category by name, so a rename is carried through all of them
+ * in the same transaction.
+ */
+export function createCategoryStore(db: Database.Database) {
+  const list = (): NoticeCategory[] =>
+    (db.prepare("SELECT * FROM categories ORDER BY sortOrder, name").all() as any[]).map(toCategory);
+
+  const find = (id: number): NoticeCategory | undefined => {
+    const row = db.prepare("SELECT * FROM categories WHERE id = ?").get(id);
+    return row ? toCategory(row) : undefined;
+  };
+
+  const findByName = (name: string): NoticeCategory | undefined => {
+    const row = db.prepare("SELECT * FROM categories WHERE name = ?").get(name);
+    return row ? toCategory(row) : undefined;
+  };
+
+  const names = (): string[] => list().map(category => category.name);
+
+  const insert = (input: NoticeCategoryInput): NoticeCategory => {
+    const info = db.prepare("INSERT INTO categories (name, color, icon, sortOrder) VALUES (?, ?, ?, ?)")
+      .run(input.name, input.color, input.icon, input.sortOrder);
+    return find(Number(info.lastInsertRowid))!;
+  };
+
+  /**
+   * Adds any of `wanted` that do not exist yet, in a neutral style at the end
+   * of the list, e.g. for notices restored from a backup. Returns the added ones.
+   */
+  const ensure = db.transaction((wanted: string[]): NoticeCategory[] => {
+    const existing = new Set(names().map(name => name.toLowerCase()));
+    const { last } = db.prepare("SELECT MAX(sortOrder) AS last FROM categories").get() as { last: number | null };
+    let sortOrder = (last ?? -1) + 1;
+    const added: NoticeCategory[] = [];
+    for (const name of new Set(wanted)) {
+      if (existing.has(name.toLowerCase())) continue;
+      existing.add(name.toLowerCase());
+      added.push(insert({ name, color: "slate", icon: "bell", sortOrder: sortOrder++ }));
+    }
+    return added;
+  });
+
+  const isTaken = (name: string, exceptId?: number) => {
+    const other = findByName(name);
+    return !!other && other.id !== exceptId;
+  };
+
+  const create = (input: NoticeCategoryInput): NoticeCategory => {
+    if (isTaken(input.name)) {
+      throw new AppError("conflict", `A category named ${input.name} already exists`);
+    }
+    return insert(input);
+  };
+
+  // Swaps `from` for `to` in every display profile that shows it; no `to` drops it
+  const refileProfiles = (from: string, to?: string) => {
+    const profiles = db.prepare("SELECT id, categories FROM display_profiles").all() as { id: number, categories: string }[];
+    for (const profile of profiles) {
+      const categories: string[] = JSON.parse(profile.categories);
+      if (!categories.includes(from)) continue;
+      const refiled = [...new Set(categories.flatMap(category => category !== from ? [category] : to ? [to] : []))];
+      db.prepare("UPDATE display_profiles SET categories = ?, updatedAt = ? WHERE id = ?")
+        .run(JSON.stringify(refiled), new Date().toISOString(), profile.id);
+    }
+  };
+
+  // Moves everything filed under `from` to `to`
+  const refile = (from: string, to: string) => {
+    for (const table of CATEGORY_COLUMNS) {
+      db.prepare(`UPDATE ${table} SET category = ? WHERE category = ?`).run(to, from);
+    }
+    refileProfiles(from, to);
+  };
+
+  const update = db.transaction((id: number, input: NoticeCategoryInput): NoticeCategory | undefined => {
+    const existing = find(id);
+    if (!existing) return undefined;
+    if (isTaken(input.name, id)) {
+      throw new AppError("conflict", `A category named ${input.name} already exists`);
+    }
+    db.prepare("UPDATE categories SET name = ?, color = ?, icon = ?, sortOrder = ? WHERE id = ?")
+      .run(input.name, input.color, input.icon, input.sortOrder, id);
+    if (input.name !== existing.name) refile(existing.name, input.name);
+    return find(id);
+  });
+
+  /** How many notices, live, scheduled or archived, are filed under `name`. */
+  const usage = (name: string): number => {
+    const { count } = db.prepare(`
+      SELECT (SELECT COUNT(*) FROM notices WHERE category = ?) + (SELECT COUNT(*) FROM notice_archive WHERE category = ?) AS count
+    `).get(name, name) as { count: number };
+    return count;
+  };
+
+  /**
+   * Deletes a category. Notices filed under it move to `moveTo`; without
+   * one, a category that still has notices is refused.
+   */
+  const remove = db.transaction((id: number, moveTo?: NoticeCategory) => {
+    const existing = find(id);
+    if (!existing) throw new AppError("not_found", "Category not found");
+    if (moveTo?.id === id) {
+      throw new AppError("invalid_request", "Choose a different category to move the notices to");
+    }
+    const count = usage(existing.name);
+    if (count > 0 && !moveTo) {
+      const which = count === 1 ? "1 notice is" : `${count} notices are`;
+      throw new AppError("conflict", `${which} filed under ${existing.name}; choose a category to move them to`);
+    }
+    // Without notices to move, old revisions and engagement figures keep the name
+    if (moveTo) {
+      refile(existing.name, moveTo.name);
+    } else {
+      refileProfiles(existing.name);
+    }
+    db.prepare("DELETE FROM categories WHERE id = ?").run(id);
+    return existing;
+  });
+
+  return { list, find, findByName, names, ensure, create, update, remove, usage };
+}
+
+export type CategoryStore = ReturnType<typeof createCategoryStore>;
+
+/** Reading the category list is public, since every board needs it; changes need board:settings. */
+export function createCategoryRouter(categories: CategoryStore, auth: Auth, broadcast: Broadcast, audit: AuditLog) {
+  const router = express.Router();
+
+  const broadcastCategories = (renamed?: { from: string, to: string }) =>
+    broadcast({ type: "CATEGORIES_UPDATED", categories: categories.list(), renamed });
+
+  router.get("/categories", (req, res) => {
+    res.json({ categories: categories.list() });
+  });
+
+  router.post("/categories", requirePermission(auth, "board:settings"), (req, res) => {
+    const category = categories.create(parseCategoryInput(req.body));
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "category.create", { after: category });
+    broadcastCategories();
+    res.status(201).json({ category });
+  });
+
+  router.put("/categories/:id", requirePermission(auth, "board:settings"), (req, res) => {
+    const existing = categories.find(Number(req.params.id));
+    if (!existing) {
+      throw new AppError("not_found", "Category not found");
+    }
+    const category = categories.update(existing.id, parseCategoryInput(req.body))!;
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "category.update", { before: existing, after: category });
+    broadcastCategories(category.name !== existing.name ? { from: existing.name, to: category.name } : undefined);
+    res.json({ category });
+  });
+
+  // ?moveTo=<id> refiles the category's notices before deleting it
+  router.delete("/categories/:id", requirePermission(auth, "board:settings"), (req, res) => {
+    let moveTo;
+    if (req.query.moveTo !== undefined) {
+      moveTo = categories.find(Number(req.query.moveTo));
+      if (!moveTo) {
+        throw new AppError("invalid_request", "The category to move notices to does not exist");
+      }
+    }
+    const removed = categories.remove(Number(req.params.id), moveTo);
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "category.delete", { before: removed, after: moveTo && { movedTo: moveTo.name } });
+    broadcastCategories(moveTo ? { from: removed.name, to: moveTo.name } : undefined);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,18 @@
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export type CsvRow<C extends string> = Partial<Record<C, string | number>>;
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return "";
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** A CSV file with a header row of `columns` and one line per row. */
+export function toCsvDocument<C extends string>(columns: readonly C[], rows: CsvRow<C>[]): string {
+  const lines = [columns.join(","), ...rows.map(row => columns.map(column => csvCell(row[column])).join(","))];
+  // The byte order mark makes Excel read the file as UTF-8
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,15 @@
+import type Database from "better-sqlite3";
+
+/** The board's SQLite database, relative to the working directory unless DATABASE_PATH says otherwise. */
+export const DATABASE_FILE = process.env.DATABASE_PATH || "notices.db";
+
+/**
+ * Adds a column introduced after a table's original schema, so existing
+ * databases pick it up without being recreated.
+ */
+export function ensureColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
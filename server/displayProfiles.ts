@@ -0,0 +1,158 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import { DisplayProfile, DisplayProfileInput } from "../src/types";
+import { AuditLog, clientIp } from "./audit";
+import { Auth, requirePermission } from "./auth";
+import { CategoryStore } from "./categories";
+import { AppError } from "./errors";
+import { Broadcast } from "./events";
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+const MIN_ROTATION_SECONDS = 3;
+const MAX_ROTATION_SECONDS = 300;
+
+function toProfile(row: any): DisplayProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    categories: JSON.parse(row.categories),
+    rotationSeconds: row.rotationSeconds,
+    orientation: row.orientation,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function parseProfileInput(body: unknown, known: string[]): DisplayProfileInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { name, categories, rotationSeconds, orientation } = input;
+
+  if (typeof name !== "string" || !NAME_PATTERN.test(name)) {
+    throw new AppError("invalid_request", "name must be lowercase letters, digits and dashes");
+  }
+  if (!Array.isArray(categories) || categories.some(c => !known.includes(c))) {
+    throw new AppError("invalid_request", `categories must be a list of: ${known.join(", ")}`);
+  }
+  if (
+    typeof rotationSeconds !== "number" || !Number.isInteger(rotationSeconds) ||
+    rotationSeconds < MIN_ROTATION_SECONDS || rotationSeconds > MAX_ROTATION_SECONDS
+  ) {
+    throw new AppError(
+      "invalid_request",
+      `rotationSeconds must be a whole number between ${MIN_ROTATION_SECONDS} and ${MAX_ROTATION_SECONDS}`
+    );
+  }
+  if (orientation !== "landscape" && orientation !== "portrait") {
+    throw new AppError("invalid_request", "orientation must be landscape or portrait");
+  }
+  return { name, categories, rotationSeconds, orientation };
+}
+
+export function createDisplayProfileStore(db: Database.Database) {
+  const list = (): DisplayProfile[] =>
+    (db.prepare("SELECT * FROM display_profiles ORDER BY name").all() as any[]).map(toProfile);
+
+  const find = (id: number): DisplayProfile | undefined => {
+    const row = db.prepare("SELECT * FROM display_profiles WHERE id = ?").get(id);
+    return row ? toProfile(row) : undefined;
+  };
+
+  const findByName = (name: string): DisplayProfile | undefined => {
+    const row = db.prepare("SELECT * FROM display_profiles WHERE name = ?").get(name);
+    return row ? toProfile(row) : undefined;
+  };
+
+  const assertNameAvailable = (name: string, exceptId?: number) => {
+    const existing = findByName(name);
+    if (existing && existing.id !== exceptId) {
+      throw new AppError("conflict", `A display profile named "${name}" already exists`);
+    }
+  };
+
+  const create = (input: DisplayProfileInput): DisplayProfile => {
+    assertNameAvailable(input.name);
+    const info = db.prepare(`
+      INSERT INTO display_profiles (name, categories, rotationSeconds, orientation, updatedAt)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(input.name, JSON.stringify(input.categories), input.rotationSeconds, input.orientation, new Date().toISOString());
+    return find(info.lastInsertRowid as number)!;
+  };
+
+  const update = (id: number, input: DisplayProfileInput): DisplayProfile | undefined => {
+    assertNameAvailable(input.name, id);
+    db.prepare(`
+      UPDATE display_profiles SET name = ?, categories = ?, rotationSeconds = ?, orientation = ?, updatedAt = ?
+      WHERE id = ?
+    `).run(input.name, JSON.stringify(input.categories), input.rotationSeconds, input.orientation, new Date().toISOString(), id);
+    return find(id);
+  };
+
+  const remove = (id: number) => {
+    db.prepare("DELETE FROM display_profiles WHERE id = ?").run(id);
+  };
+
+  return { list, find, findByName, create, update, remove };
+}
+
+export type DisplayProfileStore = ReturnType<typeof createDisplayProfileStore>;
+
+/**
+ * Kiosk screens fetch their profile by name without logging in; managing
+ * profiles needs the board settings permission. Changes are broadcast so
+ * running screens pick them up without a reload.
+ */
+export function createDisplayProfileRouter(
+  profiles: DisplayProfileStore,
+  categories: CategoryStore,
+  auth: Auth,
+  broadcast: Broadcast,
+  audit: AuditLog
+) {
+  const router = express.Router();
+
+  router.get("/display-profiles", requirePermission(auth, "board:settings"), (req, res) => {
+    res.json({ profiles: profiles.list() });
+  });
+
+  router.get("/display-profiles/:name", (req, res) => {
+    const profile = profiles.findByName(req.params.name);
+    if (!profile) {
+      throw new AppError("not_found", "Display profile not found");
+    }
+    res.json({ profile });
+  });
+
+  router.post("/display-profiles", requirePermission(auth, "board:settings"), (req, res) => {
+    const profile = profiles.create(parseProfileInput(req.body, categories.names()));
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "display_profile.create", { after: profile });
+    broadcast({ type: "DISPLAY_PROFILE_UPDATED", profile });
+    res.status(201).json({ profile });
+  });
+
+  router.put("/display-profiles/:id", requirePermission(auth, "board:settings"), (req, res) => {
+    const existing = profiles.find(Number(req.params.id));
+    if (!existing) {
+      throw new AppError("not_found", "Display profile not found");
+    }
+    const profile = profiles.update(existing.id, parseProfileInput(req.body, categories.names()))!;
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "display_profile.update", { before: existing, after: profile });
+    // A renamed profile disappears from screens still using the old name
+    if (profile.name !== existing.name) {
+      broadcast({ type: "DISPLAY_PROFILE_DELETED", name: existing.name });
+    }
+    broadcast({ type: "DISPLAY_PROFILE_UPDATED", profile });
+    res.json({ profile });
+  });
+
+  router.delete("/display-profiles/:id", requirePermission(auth, "board:settings"), (req, res) => {
+    const existing = profiles.find(Number(req.params.id));
+    if (!existing) {
+      throw new AppError("not_found", "Display profile not found");
+    }
+    profiles.remove(existing.id);
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "display_profile.delete", { before: existing });
+    broadcast({ type: "DISPLAY_PROFILE_DELETED", name: existing.name });
+    res.status(204).end();
+  });
+
+  return router;
+}
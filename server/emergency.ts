@@ -0,0 +1,114 @@
+import type Database from "better-sqlite3";
+import { DisplayReceipt, EmergencyAlert, EmergencyAlertInput } from "../src/types";
+
+function toAlert(row: any): EmergencyAlert {
+  return {
+    id: row.id,
+    title: row.title,
+    message: row.message,
+    sound: row.sound === 1,
+    issuedBy: row.issuedBy ?? undefined,
+    issuedAt: row.issuedAt,
+  };
+}
+
+/**
+ * Emergency alerts and the receipts screens send back for them. At most one
+ * alert is active; it stays active across restarts until someone clears it.
+ */
+export function createEmergencyStore(db: Database.Database) {
+  const active = (): EmergencyAlert | undefined => {
+    const row = db.prepare("SELECT * FROM emergency_alerts WHERE clearedAt IS NULL ORDER BY id DESC LIMIT 1").get();
+    return row ? toAlert(row) : undefined;
+  };
+
+  const clear = (userId: number | null): EmergencyAlert | undefined => {
+    const current = active();
+    if (current) {
+      db.prepare("UPDATE emergency_alerts SET clearedBy = ?, clearedAt = ? WHERE clearedAt IS NULL")
+        .run(userId, new Date().toISOString());
+    }
+    return current;
+  };
+
+  /** Issues a new alert, replacing any that is still active. */
+  const issue = db.transaction((input: EmergencyAlertInput, userId: number): EmergencyAlert => {
+    clear(userId);
+    db.prepare(`
+      INSERT INTO emergency_alerts (title, message, sound, issuedBy, issuedAt)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(input.title, input.message, input.sound ? 1 : 0, userId, new Date().toISOString());
+    return active()!;
+  });
+
+  const recordReceipt = (alertId: number, displayId: string, label: string) => {
+    db.prepare(`
+      INSERT OR IGNORE INTO emergency_receipts (alertId, displayId, label, receivedAt)
+      VALUES (?, ?, ?, ?)
+    `).run(alertId, displayId, label, new Date().toISOString());
+  };
+
+  const listReceipts = (alertId: number): { displayId: string, label: string, receivedAt: string }[] =>
+    db.prepare("SELECT displayId, label, receivedAt FROM emergency_receipts WHERE alertId = ?").all(alertId) as any[];
+
+  return { active, issue, clear, recordReceipt, listReceipts };
+}
+
+export type EmergencyStore = ReturnType<typeof createEmergencyStore>;
+
+export interface DisplayInfo {
+  displayId: string;
+  label: string;
+}
+
+const MAX_DISPLAY_FIELD_LENGTH = 64;
+
+/**
+ * Reads the display identity a public screen or kiosk sends when it
+ * connects (`?display=<id>&label=<name>`), or null if it sent none.
+ */
+export function parseDisplayInfo(params: URLSearchParams): DisplayInfo | null {
+  const displayId = params.get("display")?.slice(0, MAX_DISPLAY_FIELD_LENGTH);
+  if (!displayId) return null;
+  const label = params.get("label")?.slice(0, MAX_DISPLAY_FIELD_LENGTH) || "Public board";
+  return { displayId, label };
+}
+
+/**
+ * Tracks which screens are connected right now. A screen can hold more than
+ * one socket (e.g. while reconnecting), so connections are counted.
+ */
+export function createDisplayRegistry() {
+  const connected = new Map<string, { label: string, sockets: number }>();
+
+  const connect = ({ displayId, label }: DisplayInfo) => {
+    const entry = connected.get(displayId);
+    connected.set(displayId, { label, sockets: (entry?.sockets ?? 0) + 1 });
+  };
+
+  const disconnect = ({ displayId }: DisplayInfo) => {
+    const entry = connected.get(displayId);
+    if (!entry) return;
+    if (entry.sockets <= 1) {
+      connected.delete(displayId);
+    } else {
+      entry.sockets--;
+    }
+  };
+
+  /** Every connected screen plus any that confirmed `alertId` before dropping off. */
+  const receipts = (emergencies: EmergencyStore, alertId: number): DisplayReceipt[] => {
+    const byId = new Map<string, DisplayReceipt>();
+    for (const [displayId, { label }] of connected) {
+      byId.set(displayId, { displayId, label, connected: true });
+    }
+    for (const { displayId, label, receivedAt } of emergencies.listReceipts(alertId)) {
+      byId.set(displayId, { displayId, label, connected: connected.has(displayId), receivedAt });
+    }
+    return [...byId.values()].sort((a, b) => a.label.localeCompare(b.label) || a.displayId.localeCompare(b.displayId));
+  };
+
+  return { connect, disconnect, receipts };
+}
+
+export type DisplayRegistry = ReturnType<typeof createDisplayRegistry>;
@@ -0,0 +1,49 @@
+import type { NextFunction, Request, Response } from "express";
+import { ErrorCode } from "../src/types";
+
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  conflict: 409,
+  internal: 500,
+};
+
+/**
+ * An error that is safe to show to the client. REST routes answer with
+ * `{ error, code }` and the matching HTTP status.
+ */
+export class AppError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message);
+    this.name = "AppError";
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+}
+
+export function sendError(res: Response, err: AppError) {
+  res.status(err.status).json({ error: err.message, code: err.code });
+}
+
+/** Wraps anything thrown while handling a request so it can be reported without leaking internals. */
+export function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  console.error("Unexpected Error:", err);
+  return new AppError("internal", "Internal server error");
+}
+
+/** Final express error handler: AppErrors pass through, anything else is logged and hidden. */
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err);
+  if (err instanceof SyntaxError && "body" in err) {
+    return sendError(res, new AppError("invalid_request", "Request body is not valid JSON"));
+  }
+  if ((err as { type?: string })?.type === "entity.too.large") {
+    return sendError(res, new AppError("invalid_request", "Request body is too large"));
+  }
+  sendError(res, toAppError(err));
+}
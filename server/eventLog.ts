@@ -0,0 +1,68 @@
+import type Database from "better-sqlite3";
+import { ServerEvent } from "../src/types";
+
+/** Who an event may be delivered to, also applied when it is replayed. */
+export type Audience = "all" | "managers";
+
+export interface LoggedEvent {
+  seq: number;
+  event: ServerEvent;
+  audience: Audience;
+  /** The board the event belongs to; events without one, e.g. emergency alerts, go to every board. */
+  boardId?: number;
+}
+
+// Clients that were away longer than this, or missed more events than are
+// kept, get a fresh INITIAL_STATE instead of a replay.
+const RETENTION_MS = 1000 * 60 * 60;
+const MAX_EVENTS = 5000;
+const PRUNE_EVERY = 100;
+
+/**
+ * Append-only log of broadcast ServerEvents. Its AUTOINCREMENT key is the
+ * sequence number clients send back when they reconnect.
+ */
+export function createEventLog(db: Database.Database) {
+  const prune = () => {
+    db.prepare("DELETE FROM event_log WHERE createdAt < ?").run(new Date(Date.now() - RETENTION_MS).toISOString());
+    db.prepare("DELETE FROM event_log WHERE seq <= (SELECT MAX(seq) FROM event_log) - ?").run(MAX_EVENTS);
+  };
+
+  /** The sequence number of the latest event, surviving restarts and pruning. */
+  const head = (): number => {
+    const row = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'event_log'").get() as { seq: number } | undefined;
+    return row?.seq ?? 0;
+  };
+
+  const append = (event: ServerEvent, audience: Audience, boardId?: number): number => {
+    const info = db.prepare("INSERT INTO event_log (event, audience, boardId, createdAt) VALUES (?, ?, ?, ?)")
+      .run(JSON.stringify(event), audience, boardId ?? null, new Date().toISOString());
+    const seq = info.lastInsertRowid as number;
+    if (seq % PRUNE_EVERY === 0) prune();
+    return seq;
+  };
+
+  /**
+   * Events after `seq`, oldest first, or null when some of them have already
+   * been pruned (or `seq` is from the future, e.g. after the database was reset).
+   */
+  const since = (seq: number): LoggedEvent[] | null => {
+    const current = head();
+    if (seq > current) return null;
+    if (seq === current) return [];
+
+    const { oldest } = db.prepare("SELECT MIN(seq) AS oldest FROM event_log").get() as { oldest: number | null };
+    if (oldest === null || oldest > seq + 1) return null;
+
+    return (db.prepare("SELECT * FROM event_log WHERE seq > ? ORDER BY seq").all(seq) as any[]).map(row => ({
+      seq: row.seq,
+      event: JSON.parse(row.event),
+      audience: row.audience,
+      boardId: row.boardId ?? undefined,
+    }));
+  };
+
+  return { append, head, since, prune };
+}
+
+export type EventLog = ReturnType<typeof createEventLog>;
@@ -0,0 +1,285 @@
+import { Board, ClientEvent, Notice, NoticeAudience, NoticeInput, NoticeStatus, ServerEvent, User } from "../src/types";
+import { matchesAudience } from "../src/lib/audience";
+import { hasPermission } from "../src/permissions";
+import { AnalyticsStore } from "./analytics";
+import { AuditLog } from "./audit";
+import { authorizeEvent } from "./auth";
+import { BoardStore } from "./boards";
+import { CategoryStore } from "./categories";
+import { AppError } from "./errors";
+import { NoticeStore } from "./notices";
+import { PriorityStore } from "./priorities";
+import { Audience } from "./eventLog";
+import { DisplayInfo, EmergencyStore } from "./emergency";
+
+/** Sends an event to the clients of one board, or of every board without a `boardId`. */
+export type Broadcast = (event: ServerEvent, audience?: Audience, boardId?: number) => void;
+
+/**
+ * The version of a broadcast event that a public client following
+ * `following` should see, or null to skip it. A notice edited out of the
+ * client's audience is sent as a deletion so it drops off that board. A
+ * notice that is not approved never reaches a public client.
+ */
+export function tailorEvent(event: ServerEvent, following: NoticeAudience | undefined): ServerEvent | null {
+  switch (event.type) {
+    case "NOTICE_ADDED":
+      return event.notice.status === "approved" && matchesAudience(event.notice.audience, following) ? event : null;
+    case "NOTICE_UPDATED":
+      return event.notice.status === "approved" && matchesAudience(event.notice.audience, following)
+        ? event
+        : { type: "NOTICE_DELETED", id: event.notice.id };
+    case "NOTICES_CHANGED": {
+      const visible = event.updated.filter(notice => notice.status === "approved" && matchesAudience(notice.audience, following));
+      const hidden = event.updated.filter(notice => !visible.includes(notice)).map(notice => notice.id);
+      const removed = [...event.removed, ...hidden];
+      return visible.length || removed.length ? { ...event, updated: visible, removed } : null;
+    }
+    default:
+      return event;
+  }
+}
+
+/**
+ * The status a notice is saved with: a draft if asked for, approved for staff
+ * who may publish, otherwise pending review. A notice already in the review
+ * queue stays there when a reviewer edits it, to be approved explicitly.
+ */
+function submittedStatus(user: User, draft: boolean | undefined, current?: NoticeStatus): NoticeStatus {
+  if (draft) return "draft";
+  if (current === "pending" || !hasPermission(user, "notice:publish")) return "pending";
+  return "approved";
+}
+
+interface EventHandlerOptions {
+  notices: NoticeStore;
+  boards: BoardStore;
+  categories: CategoryStore;
+  priorities: PriorityStore;
+  broadcast: Broadcast;
+  /** Archives expired notices, only those of `boardId` if given, and returns their ids. */
+  archiveExpired: (boardId?: number) => number[];
+  emergencies: EmergencyStore;
+  /** Sends staff the current receipt list for the active emergency alert. */
+  broadcastReceipts: () => void;
+  audit: AuditLog;
+  analytics: AnalyticsStore;
+}
+
+/** Where an event came from, beyond the user sending it. */
+export interface EventContext {
+  /** The board the event applies to; notices of other boards are out of reach. */
+  board: Board;
+  /** The client's address, recorded in the audit log. */
+  ip?: string;
+  /** The screen a WebSocket event came from; needed to record emergency receipts and impressions. */
+  display?: DisplayInfo | null;
+}
+
+/**
+ * Runs a ClientEvent on behalf of `user`: authorizes it, persists the change
+ * and broadcasts the resulting ServerEvents. WebSocket messages and REST
+ * writes both go through here so connected boards stay in sync either way.
+ * Returns the affected notice, if any; rejections are thrown as AppError.
+ * Every change is written to the audit log along with what it replaced.
+ */
+export function createEventHandler({
+  notices,
+  boards,
+  categories,
+  priorities,
+  broadcast,
+  archiveExpired,
+  emergencies,
+  broadcastReceipts,
+  audit,
+  analytics
+}: EventHandlerOptions) {
+  // The category's stored spelling, e.g. "Exam" for "exam"
+  const knownCategory = (name: string): string => {
+    const category = categories.findByName(name);
+    if (!category) throw new AppError("invalid_request", `Unknown category: ${name}`);
+    return category.name;
+  };
+
+  const knownPriority = (name: string): string => {
+    const priority = priorities.findByName(name);
+    if (!priority) throw new AppError("invalid_request", `Unknown priority: ${name}`);
+    return priority.name;
+  };
+
+  const withKnownNames = (input: NoticeInput): NoticeInput =>
+    ({ ...input, category: knownCategory(input.category), priority: knownPriority(input.priority) });
+
+  // Scheduled, draft, pending and rejected notices are only visible to staff
+  const broadcastToManagers = (event: ServerEvent, boardId: number) => broadcast(event, "managers", boardId);
+
+  // Tells everyone about a notice that is live now, and only staff about one that is not
+  const broadcastPlacement = (notice: Notice, wasPublished: boolean) => {
+    if (notices.isPublished(notice.id)) {
+      broadcast({ type: wasPublished ? "NOTICE_UPDATED" : "NOTICE_ADDED", notice }, "all", notice.boardId);
+      return;
+    }
+    if (wasPublished) broadcast({ type: "NOTICE_DELETED", id: notice.id }, "all", notice.boardId);
+    broadcastToManagers({ type: "NOTICE_SCHEDULED", notice }, notice.boardId);
+  };
+
+  // The boards a notice is cross-posted to, besides the one it is posted on
+  const crossPostBoards = (ids: number[] | undefined, board: Board): Board[] =>
+    (ids ?? []).filter(id => id !== board.id).map(id => {
+      const target = boards.find(id);
+      if (!target) throw new AppError("invalid_request", `Board ${id} does not exist`);
+      return target;
+    });
+
+  return (user: User | null, event: ClientEvent, { board, ip, display }: EventContext): Notice | undefined => {
+    // A notice of another board is treated as if it did not exist
+    const findOnBoard = (id: number): Notice | undefined => {
+      const notice = notices.find(id);
+      return notice?.boardId === board.id ? notice : undefined;
+    };
+
+    const denied = authorizeEvent(user, event, board, findOnBoard);
+    if (denied) {
+      throw new AppError(user ? "forbidden" : "unauthorized", denied);
+    }
+    const actor = { user, ip };
+
+    switch (event.type) {
+      case "ADD_NOTICE": {
+        const targets = crossPostBoards(event.crossPost, board);
+        const status = submittedStatus(user!, event.draft);
+        const newNotice = notices.create(board.id, withKnownNames(event.notice), user!.id, status);
+        audit.record(actor, "notice.create", { noticeId: newNotice.id, after: newNotice });
+        broadcastPlacement(newNotice, false);
+        for (const target of targets) {
+          const copy = notices.copyTo(newNotice.id, target.id, user!.id, status)!;
+          audit.record(actor, "notice.create", { noticeId: copy.id, after: copy });
+          broadcastPlacement(copy, false);
+        }
+        return newNotice;
+      }
+      case "UPDATE_NOTICE": {
+        const existing = findOnBoard(event.id);
+        if (!existing) throw new AppError("not_found", "Notice not found");
+
+        // An edit that needs review again takes a live notice off the board
+        const wasPublished = notices.isPublished(event.id);
+        const updated = notices.update(event.id, withKnownNames(event.notice), user!.id, submittedStatus(user!, event.draft, existing.status))!;
+        // Saving without changes leaves nothing to account for
+        if (JSON.stringify(updated) !== JSON.stringify(existing)) {
+          audit.record(actor, "notice.update", { noticeId: event.id, before: existing, after: updated });
+        }
+        broadcastPlacement(updated, wasPublished);
+        return updated;
+      }
+      case "REVIEW_NOTICE": {
+        const before = findOnBoard(event.id);
+        if (!before) throw new AppError("not_found", "Notice not found");
+        const reviewed = notices.review(event.id, event.decision, event.reason, user!.id)!;
+        audit.record(actor, "notice.review", { noticeId: event.id, before, after: reviewed });
+        broadcastPlacement(reviewed, false);
+        return reviewed;
+      }
+      case "DELETE_NOTICE": {
+        const existing = findOnBoard(event.id);
+        if (!existing) throw new AppError("not_found", "Notice not found");
+
+        const wasPublished = notices.isPublished(event.id);
+        notices.remove(event.id);
+        audit.record(actor, "notice.delete", { noticeId: event.id, before: existing });
+        if (wasPublished) {
+          broadcast({ type: "NOTICE_DELETED", id: event.id }, "all", board.id);
+        } else {
+          broadcastToManagers({ type: "NOTICE_DELETED", id: event.id }, board.id);
+        }
+        return existing;
+      }
+      case "BULK_UPDATE_NOTICES": {
+        const action = event.action.kind === "category"
+          ? { ...event.action, category: knownCategory(event.action.category) }
+          : event.action.kind === "priority"
+            ? { ...event.action, priority: knownPriority(event.action.priority) }
+            : event.action;
+        const { before, updated } = notices.bulkUpdate(board.id, event.ids, action, user!.id);
+        before.forEach((existing, i) => {
+          const noticeId = existing.id;
+          if (action.kind === "delete") {
+            audit.record(actor, "notice.delete", { noticeId, before: existing });
+          } else if (action.kind === "archive") {
+            audit.record(actor, "notice.archive", { noticeId, before: existing, after: notices.findArchived(noticeId) });
+          } else if (JSON.stringify(updated[i]) !== JSON.stringify(existing)) {
+            audit.record(actor, "notice.update", { noticeId, before: existing, after: updated[i] });
+          }
+        });
+        // One event for the whole batch, so no board shows it half applied
+        broadcast({ type: "NOTICES_CHANGED", updated, removed: updated.length ? [] : event.ids }, "all", board.id);
+        return undefined;
+      }
+      case "PIN_NOTICE": {
+        const existing = findOnBoard(event.id);
+        if (!existing) throw new AppError("not_found", "Notice not found");
+        const pinned = notices.pin(event.id, event.pinned)!;
+        if (pinned.pinOrder === existing.pinOrder) return pinned;
+        audit.record(actor, event.pinned ? "notice.pin" : "notice.unpin", { noticeId: event.id, before: existing, after: pinned });
+        broadcastPlacement(pinned, notices.isPublished(event.id));
+        return pinned;
+      }
+      case "REORDER_PINNED": {
+        const before = notices.listPinned(board.id).map(notice => notice.id);
+        const pinned = notices.reorderPinned(board.id, event.ids);
+        const after = pinned.map(notice => notice.id);
+        if (JSON.stringify(after) === JSON.stringify(before)) return undefined;
+        audit.record(actor, "notice.reorder", { before: { pinned: before }, after: { pinned: after } });
+        broadcast({ type: "NOTICES_CHANGED", updated: pinned.filter(notice => notices.isPublished(notice.id)), removed: [] }, "all", board.id);
+        return undefined;
+      }
+      case "PURGE_EXPIRED":
+        for (const id of archiveExpired(board.id)) {
+          audit.record(actor, "notice.archive", { noticeId: id, after: notices.findArchived(id) });
+        }
+        return undefined;
+      case "RESTORE_ARCHIVED": {
+        const archived = notices.findArchived(event.id);
+        if (archived?.boardId !== board.id) throw new AppError("not_found", "Archived notice not found");
+        const restored = notices.restoreArchived(event.id)!;
+        audit.record(actor, "notice.restore", { noticeId: event.id, before: archived, after: restored });
+        broadcastPlacement(restored, false);
+        return restored;
+      }
+      case "ISSUE_EMERGENCY": {
+        const alert = emergencies.issue(event.alert, user!.id);
+        audit.record(actor, "emergency.issue", { after: alert });
+        broadcast({ type: "EMERGENCY_OVERRIDE", alert });
+        broadcastReceipts();
+        return undefined;
+      }
+      case "ACK_EMERGENCY": {
+        if (!display) throw new AppError("invalid_request", "Only public screens confirm emergency alerts");
+        // A receipt for an alert that was already cleared is harmless; drop it
+        if (emergencies.active()?.id !== event.alertId) return undefined;
+        emergencies.recordReceipt(event.alertId, display.displayId, display.label);
+        broadcastReceipts();
+        return undefined;
+      }
+      case "RECORD_IMPRESSIONS": {
+        // Staff previewing the board are not an audience, so only public screens count
+        if (!display) return undefined;
+        analytics.record(display, board.id, event.impressions.flatMap(impressions => {
+          const notice = findOnBoard(impressions.noticeId);
+          return notice ? [{ ...impressions, category: notice.category }] : [];
+        }));
+        return undefined;
+      }
+      case "CLEAR_EMERGENCY": {
+        const cleared = emergencies.clear(user!.id);
+        if (!cleared) throw new AppError("not_found", "There is no active emergency alert");
+        audit.record(actor, "emergency.clear", { before: cleared });
+        broadcast({ type: "EMERGENCY_ALL_CLEAR", alertId: cleared.id });
+        return undefined;
+      }
+    }
+  };
+}
+
+export type EventHandler = ReturnType<typeof createEventHandler>;
@@ -0,0 +1,263 @@
+import express, { Request, Response } from "express";
+import { createHash } from "crypto";
+import { Board, Notice, NoticeAudience } from "../src/types";
+import { describeAudience } from "../src/lib/audience";
+import { boardPath } from "../src/lib/boards";
+import { BoardStore, DEFAULT_BOARD_ID } from "./boards";
+import { CategoryStore } from "./categories";
+import { AppError } from "./errors";
+import { NoticeStore } from "./notices";
+import { categoryParam, parseAudienceFilter } from "./validation";
+
+const FEED_SIZE = 50;
+
+// Calendar apps only poll a subscription every few hours, so the ICS feed
+// keeps recent events around rather than dropping them once they start.
+const ICS_LOOKBACK_DAYS = 90;
+
+type FeedFormat = "rss" | "atom" | "ics";
+
+const FORMAT_BY_EXTENSION: Record<string, FeedFormat> = { xml: "rss", atom: "atom" };
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+};
+
+interface FeedEntry {
+  notice: Notice;
+  updatedAt: string;
+}
+
+interface Feed {
+  title: string;
+  selfUrl: string;
+  siteUrl: string;
+  updatedAt: string;
+  entries: FeedEntry[];
+}
+
+// Characters XML 1.0 does not allow at all, even escaped
+const INVALID_XML_CHARS = /[^\x09\x0A\x0D\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu;
+
+function xml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Same for every copy of the board and never reused, since notice ids are not. */
+function guid(notice: Notice): string {
+  return `urn:uniboard:notice:${notice.id}`;
+}
+
+function noticeUrl(feed: Feed, notice: Notice): string {
+  return `${feed.siteUrl}/notices/${notice.id}`;
+}
+
+function toRss(feed: Feed): string {
+  const items = feed.entries.map(({ notice }) => `
+    <item>
+      <title>${xml(notice.title)}</title>
+      <link>${xml(noticeUrl(feed, notice))}</link>
+      <guid isPermaLink="false">${guid(notice)}</guid>
+      <pubDate>${new Date(notice.createdAt).toUTCString()}</pubDate>
+      <dc:creator>${xml(notice.author)}</dc:creator>
+      <category>${xml(notice.category)}</category>
+      <description>${xml(notice.content)}</description>
+    </item>`).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${xml(feed.title)}</title>
+    <link>${xml(feed.siteUrl)}</link>
+    <description>${xml(feed.title)}</description>
+    <atom:link href="${xml(feed.selfUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${new Date(feed.updatedAt).toUTCString()}</lastBuildDate>${items}
+  </channel>
+</rss>
+`;
+}
+
+function toAtom(feed: Feed): string {
+  const entries = feed.entries.map(({ notice, updatedAt }) => `
+  <entry>
+    <id>${guid(notice)}</id>
+    <title>${xml(notice.title)}</title>
+    <link href="${xml(noticeUrl(feed, notice))}" />
+    <published>${notice.createdAt}</published>
+    <updated>${updatedAt}</updated>
+    <author><name>${xml(notice.author)}</name></author>
+    <category term="${xml(notice.category)}" />
+    <content type="text">${xml(notice.content)}</content>
+  </entry>`).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${xml(feed.selfUrl)}</id>
+  <title>${xml(feed.title)}</title>
+  <link href="${xml(feed.siteUrl)}" />
+  <link href="${xml(feed.selfUrl)}" rel="self" />
+  <updated>${feed.updatedAt}</updated>${entries}
+</feed>
+`;
+}
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** An ISO timestamp in the iCalendar UTC form, e.g. 20261019T173612Z. */
+function icsDate(iso: string): string {
+  return iso.replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+/** Folds a content line into chunks of at most 75 octets, as RFC 5545 requires. */
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      chunks.push(chunk);
+      chunk = " ";
+      octets = 1;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join("\r\n");
+}
+
+function toIcs(feed: Feed): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//UniBoard//Notices//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(feed.title)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+  for (const { notice, updatedAt } of feed.entries) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${guid(notice)}`,
+      `DTSTAMP:${icsDate(updatedAt)}`,
+      `LAST-MODIFIED:${icsDate(updatedAt)}`,
+      `DTSTART:${icsDate(notice.eventStart!)}`,
+      ...(notice.eventEnd ? [`DTEND:${icsDate(notice.eventEnd)}`] : []),
+      `SUMMARY:${icsText(notice.title)}`,
+      `DESCRIPTION:${icsText(notice.content)}`,
+      ...(notice.location ? [`LOCATION:${icsText(notice.location)}`] : []),
+      `CATEGORIES:${icsText(notice.category)}`,
+      `URL:${noticeUrl(feed, notice)}`,
+      "END:VEVENT",
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(line => foldLine(line.replace(INVALID_XML_CHARS, ""))).join("\r\n") + "\r\n";
+}
+
+/** Pairs each notice with when it last changed: its latest edit, else its creation. */
+function withUpdateTimes(notices: NoticeStore, list: Notice[]): FeedEntry[] {
+  const editedAt = notices.lastEditedAt(list.map(notice => notice.id));
+  return list.map(notice => {
+    const edited = editedAt.get(notice.id);
+    return { notice, updatedAt: edited && edited > notice.createdAt ? edited : notice.createdAt };
+  });
+}
+
+function buildFeed(
+  req: Request,
+  site: string,
+  board: Board,
+  title: string,
+  audience: NoticeAudience | undefined,
+  entries: FeedEntry[]
+): Feed {
+  const path = board.id === DEFAULT_BOARD_ID ? "" : boardPath(board.slug);
+  return {
+    title: `${board.name}: ${title}${audience ? ` for ${describeAudience(audience)}` : ""}`,
+    selfUrl: `${site}${req.originalUrl}`,
+    siteUrl: `${site}${path}`,
+    updatedAt: entries.reduce((latest, entry) => entry.updatedAt > latest ? entry.updatedAt : latest, new Date(0).toISOString()),
+    entries,
+  };
+}
+
+/** Sends a rendered feed with validators, answering 304 when the reader's copy is current. */
+function sendFeed(req: Request, res: Response, format: FeedFormat, feed: Feed) {
+  const body = format === "rss" ? toRss(feed) : format === "atom" ? toAtom(feed) : toIcs(feed);
+  res.set({
+    "Content-Type": CONTENT_TYPES[format],
+    "Cache-Control": "public, max-age=60",
+    ETag: `"${createHash("sha1").update(body).digest("base64url")}"`,
+  });
+  if (feed.entries.length) {
+    res.set("Last-Modified", new Date(feed.updatedAt).toUTCString());
+  }
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.send(body);
+}
+
+/**
+ * Public RSS 2.0 (`/feeds/<name>.xml`) and Atom (`/feeds/<name>.atom`) feeds
+ * of the live board, where `<name>` is `all` or a category such as `exam`,
+ * plus an iCalendar feed of notices with event times at `/feeds/events.ics`.
+ * The board and audience parameters of /api/notices narrow a feed the same way.
+ */
+/**
+ * `siteUrl` is the board's public address, which links in the feeds start
+ * with. It is never taken from the request, whose Host header the client picks.
+ */
+export function createFeedRouter(notices: NoticeStore, categories: CategoryStore, boards: BoardStore, siteUrl: () => string) {
+  const router = express.Router();
+
+  const boardParam = (req: Request) => boards.resolve(typeof req.query.board === "string" ? req.query.board : undefined);
+
+  // ?category=Exam,Event picks the categories; all of them by default
+  router.get("/events.ics", (req, res) => {
+    const category = categoryParam(req.query.category);
+    const audience = parseAudienceFilter(req.query);
+    const from = new Date(Date.now() - ICS_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const board = boardParam(req);
+    const events = notices.listEvents(board.id, { from, category, audience });
+    const title = category.length ? `${category.join(" and ")} events` : "Events";
+    sendFeed(req, res, "ics", buildFeed(req, siteUrl(), board, title, audience, withUpdateTimes(notices, events)));
+  });
+
+  router.get("/:name.:extension", (req, res) => {
+    const format = FORMAT_BY_EXTENSION[req.params.extension];
+    const name = req.params.name.toLowerCase();
+    const category = name === "all" ? undefined : categories.findByName(name)?.name;
+    if (!format || (name !== "all" && !category)) {
+      throw new AppError("not_found", "Feed not found");
+    }
+
+    const board = boardParam(req);
+    const audience = parseAudienceFilter(req.query);
+    // Feeds are a timeline, so pinned notices take their place by date
+    const { notices: latest } = notices.query(board.id, {
+      category: category ? [category] : undefined,
+      audience,
+      sort: "date",
+      limit: FEED_SIZE,
+    });
+    const title = category ? `${category} notices` : "All notices";
+    sendFeed(req, res, format, buildFeed(req, siteUrl(), board, title, audience, withUpdateTimes(notices, latest)));
+  });
+
+  return router;
+}
@@ -0,0 +1,120 @@
+import type Database from "better-sqlite3";
+import { migration as notices } from "./migrations/001_notices";
+import { migration as users } from "./migrations/002_users";
+import { migration as eventLog } from "./migrations/003_event_log";
+import { migration as attachments } from "./migrations/004_attachments";
+import { migration as displayProfiles } from "./migrations/005_display_profiles";
+import { migration as emergency } from "./migrations/006_emergency";
+import { migration as audit } from "./migrations/007_audit_log";
+import { migration as analytics } from "./migrations/008_analytics";
+import { migration as categories } from "./migrations/009_categories";
+import { migration as priorities } from "./migrations/010_priorities";
+import { migration as pinning } from "./migrations/011_pinning";
+import { migration as boards } from "./migrations/012_boards";
+import { migration as isoTimestamps } from "./migrations/013_iso_timestamps";
+import { migration as engagementBoards } from "./migrations/014_engagement_boards";
+
+/**
+ * One step in the schema's history. `up` runs inside a transaction together
+ * with recording the new version, so a failed step leaves the database as it
+ * was. Once released, a migration is never edited; changes go in a new one.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+/** In order. The version of the last entry is the schema this code expects. */
+export const MIGRATIONS: Migration[] = [
+  notices,
+  users,
+  eventLog,
+  attachments,
+  displayProfiles,
+  emergency,
+  audit,
+  analytics,
+  categories,
+  priorities,
+  pinning,
+  boards,
+  isoTimestamps,
+  engagementBoards,
+];
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+export interface MigrationStatus {
+  /** The database's schema version; 0 for an empty or unversioned database. */
+  current: number;
+  /** The schema version this code expects. */
+  latest: number;
+  applied: AppliedMigration[];
+  pending: Migration[];
+}
+
+/** Raised when the database has migrations this code does not know, e.g. after a rollback to older code. */
+export class SchemaTooNewError extends Error {
+  constructor(current: number, latest: number) {
+    super(`The database is at schema version ${current} but this version of UniBoard only knows up to ${latest}; run a newer release or restore a backup`);
+    this.name = "SchemaTooNewError";
+  }
+}
+
+function ensureMigrationsTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt DATETIME NOT NULL
+    )
+  `);
+}
+
+/** Where the database stands against `migrations`; only reads, so it is safe on a live database. */
+export function migrationStatus(db: Database.Database, migrations: Migration[] = MIGRATIONS): MigrationStatus {
+  const versioned = !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+  const applied = versioned
+    ? db.prepare("SELECT version, name, appliedAt FROM schema_migrations ORDER BY version").all() as AppliedMigration[]
+    : [];
+  const current = applied.length ? applied[applied.length - 1].version : 0;
+  return {
+    current,
+    latest: migrations.length ? migrations[migrations.length - 1].version : 0,
+    applied,
+    pending: migrations.filter(migration => migration.version > current),
+  };
+}
+
+/**
+ * Brings the database up to the latest schema, one transaction per
+ * migration, and returns the migrations applied. Refuses to touch a database
+ * that is newer than this code.
+ */
+export function migrate(db: Database.Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  migrations.forEach((migration, i) => {
+    if (migration.version !== i + 1) {
+      throw new Error(`Migration ${migration.name} has version ${migration.version}; expected ${i + 1}`);
+    }
+  });
+
+  const status = migrationStatus(db, migrations);
+  if (status.current > status.latest) {
+    throw new SchemaTooNewError(status.current, status.latest);
+  }
+  ensureMigrationsTable(db);
+
+  const record = db.prepare("INSERT INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)");
+  for (const migration of status.pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+  return status.pending;
+}
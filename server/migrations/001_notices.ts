@@ -0,0 +1,114 @@
+import type { Migration } from "../migrate";
+import { ensureColumn } from "../db";
+
+// Migrations 1 to 9 describe the schema as it stood when versioning was
+// introduced. Databases from before then have any mix of these tables and
+// columns already, so these first steps only add what is missing.
+export const migration: Migration = {
+  version: 1,
+  name: "notices",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS notices (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        category TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        author TEXT NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expiresAt DATETIME
+      )
+    `);
+    ensureColumn(db, "notices", "createdBy", "INTEGER");
+    ensureColumn(db, "notices", "publishAt", "DATETIME");
+    ensureColumn(db, "notices", "published", "INTEGER NOT NULL DEFAULT 1");
+    ensureColumn(db, "notices", "audience", "TEXT");
+    ensureColumn(db, "notices", "eventStart", "DATETIME");
+    ensureColumn(db, "notices", "eventEnd", "DATETIME");
+    ensureColumn(db, "notices", "location", "TEXT");
+    // Notices from before the review workflow were all published directly
+    ensureColumn(db, "notices", "status", "TEXT NOT NULL DEFAULT 'approved'");
+    ensureColumn(db, "notices", "rejectionReason", "TEXT");
+    ensureColumn(db, "notices", "reviewedBy", "INTEGER");
+    ensureColumn(db, "notices", "reviewedAt", "DATETIME");
+
+    // Full-text index over the live board, kept in step with `notices` by triggers
+    const hasSearchIndex = !!db.prepare("SELECT 1 FROM sqlite_master WHERE name = 'notices_fts'").get();
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS notices_fts USING fts5(
+        title, content, author,
+        content = 'notices', content_rowid = 'id',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS notices_fts_insert AFTER INSERT ON notices BEGIN
+        INSERT INTO notices_fts (rowid, title, content, author) VALUES (new.id, new.title, new.content, new.author);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS notices_fts_delete AFTER DELETE ON notices BEGIN
+        INSERT INTO notices_fts (notices_fts, rowid, title, content, author)
+        VALUES ('delete', old.id, old.title, old.content, old.author);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS notices_fts_update AFTER UPDATE OF title, content, author ON notices BEGIN
+        INSERT INTO notices_fts (notices_fts, rowid, title, content, author)
+        VALUES ('delete', old.id, old.title, old.content, old.author);
+        INSERT INTO notices_fts (rowid, title, content, author) VALUES (new.id, new.title, new.content, new.author);
+      END;
+    `);
+    if (!hasSearchIndex) {
+      db.exec("INSERT INTO notices_fts (notices_fts) VALUES ('rebuild')");
+    }
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS notice_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        noticeId INTEGER NOT NULL,
+        revision INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        category TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        author TEXT NOT NULL,
+        expiresAt DATETIME,
+        editedBy INTEGER,
+        editedAt DATETIME NOT NULL,
+        UNIQUE (noticeId, revision)
+      )
+    `);
+    ensureColumn(db, "notice_revisions", "publishAt", "DATETIME");
+    ensureColumn(db, "notice_revisions", "audience", "TEXT");
+    ensureColumn(db, "notice_revisions", "eventStart", "DATETIME");
+    ensureColumn(db, "notice_revisions", "eventEnd", "DATETIME");
+    ensureColumn(db, "notice_revisions", "location", "TEXT");
+
+    // Archived notices keep their original id so revisions stay attached and a
+    // restore puts the notice back exactly where it was.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS notice_archive (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        content TEXT NOT NULL,
+        category TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        author TEXT NOT NULL,
+        createdAt DATETIME,
+        expiresAt DATETIME,
+        createdBy INTEGER,
+        archivedAt DATETIME NOT NULL,
+        archivedBy INTEGER,
+        archiveReason TEXT NOT NULL
+      )
+    `);
+    ensureColumn(db, "notice_archive", "publishAt", "DATETIME");
+    ensureColumn(db, "notice_archive", "audience", "TEXT");
+    ensureColumn(db, "notice_archive", "eventStart", "DATETIME");
+    ensureColumn(db, "notice_archive", "eventEnd", "DATETIME");
+    ensureColumn(db, "notice_archive", "location", "TEXT");
+    ensureColumn(db, "notice_archive", "status", "TEXT NOT NULL DEFAULT 'approved'");
+    ensureColumn(db, "notice_archive", "rejectionReason", "TEXT");
+    ensureColumn(db, "notice_archive", "reviewedBy", "INTEGER");
+    ensureColumn(db, "notice_archive", "reviewedAt", "DATETIME");
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 2,
+  name: "users",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        passwordHash TEXT NOT NULL,
+        role TEXT NOT NULL,
+        department TEXT,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        token TEXT PRIMARY KEY,
+        userId INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expiresAt DATETIME NOT NULL
+      );
+    `);
+  },
+};
@@ -0,0 +1,16 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 3,
+  name: "event_log",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS event_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        event TEXT NOT NULL,
+        audience TEXT NOT NULL,
+        createdAt DATETIME NOT NULL
+      )
+    `);
+  },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 4,
+  name: "attachments",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        noticeId INTEGER,
+        position INTEGER NOT NULL DEFAULT 0,
+        filename TEXT NOT NULL,
+        mimeType TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        storedAs TEXT NOT NULL UNIQUE,
+        uploadedBy INTEGER,
+        createdAt DATETIME NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS attachments_notice ON attachments (noticeId);
+    `);
+  },
+};
@@ -0,0 +1,18 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 5,
+  name: "display_profiles",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS display_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        categories TEXT NOT NULL,
+        rotationSeconds INTEGER NOT NULL,
+        orientation TEXT NOT NULL,
+        updatedAt DATETIME NOT NULL
+      )
+    `);
+  },
+};
@@ -0,0 +1,28 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 6,
+  name: "emergency",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS emergency_alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        sound INTEGER NOT NULL DEFAULT 0,
+        issuedBy INTEGER,
+        issuedAt DATETIME NOT NULL,
+        clearedBy INTEGER,
+        clearedAt DATETIME
+      );
+
+      CREATE TABLE IF NOT EXISTS emergency_receipts (
+        alertId INTEGER NOT NULL,
+        displayId TEXT NOT NULL,
+        label TEXT NOT NULL,
+        receivedAt DATETIME NOT NULL,
+        PRIMARY KEY (alertId, displayId)
+      );
+    `);
+  },
+};
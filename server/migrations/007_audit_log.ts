@@ -0,0 +1,29 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 7,
+  name: "audit_log",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at DATETIME NOT NULL,
+        actorId INTEGER,
+        actorName TEXT,
+        ip TEXT,
+        action TEXT NOT NULL,
+        noticeId INTEGER,
+        before TEXT,
+        after TEXT
+      );
+      CREATE INDEX IF NOT EXISTS audit_log_notice ON audit_log (noticeId);
+
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `);
+  },
+};
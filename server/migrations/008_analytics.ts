@@ -0,0 +1,22 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 8,
+  name: "analytics",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS notice_engagement (
+        hour TEXT NOT NULL,
+        noticeId INTEGER NOT NULL,
+        category TEXT NOT NULL,
+        displayId TEXT NOT NULL,
+        displayLabel TEXT NOT NULL,
+        views INTEGER NOT NULL DEFAULT 0,
+        expands INTEGER NOT NULL DEFAULT 0,
+        dwellSeconds REAL NOT NULL DEFAULT 0,
+        PRIMARY KEY (hour, noticeId, displayId)
+      );
+      CREATE INDEX IF NOT EXISTS notice_engagement_notice ON notice_engagement (noticeId);
+    `);
+  },
+};
@@ -0,0 +1,40 @@
+import type { Migration } from "../migrate";
+
+// The categories the board started out with, which existing notices use
+const DEFAULT_CATEGORIES = [
+  { name: "Emergency", color: "red", icon: "alert" },
+  { name: "Academic", color: "blue", icon: "book" },
+  { name: "Exam", color: "amber", icon: "file" },
+  { name: "Event", color: "emerald", icon: "trophy" },
+  { name: "General", color: "slate", icon: "bell" },
+];
+
+export const migration: Migration = {
+  version: 9,
+  name: "categories",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS categories (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        color TEXT NOT NULL,
+        icon TEXT NOT NULL,
+        sortOrder INTEGER NOT NULL
+      )
+    `);
+
+    const insert = db.prepare(`
+      INSERT INTO categories (name, color, icon, sortOrder)
+      VALUES (?, ?, ?, (SELECT COALESCE(MAX(sortOrder) + 1, 0) FROM categories))
+      ON CONFLICT (name) DO NOTHING
+    `);
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM categories").get() as { count: number };
+    if (count === 0) {
+      for (const { name, color, icon } of DEFAULT_CATEGORIES) insert.run(name, color, icon);
+    }
+    // Any other name in use (e.g. from a restored backup) becomes a category
+    // of its own so no notice is left without one
+    const used = db.prepare("SELECT category FROM notices UNION SELECT category FROM notice_archive").all() as { category: string }[];
+    for (const { category } of used) insert.run(category, "slate", "bell");
+  },
+};
@@ -0,0 +1,36 @@
+import type { Migration } from "../migrate";
+
+// The priorities the board started out with, which existing notices use
+const DEFAULT_PRIORITIES = [
+  { name: "High", color: "red", rank: 2, ticker: 1 },
+  { name: "Medium", color: "amber", rank: 1, ticker: 0 },
+  { name: "Low", color: "blue", rank: 0, ticker: 0 },
+];
+
+export const migration: Migration = {
+  version: 10,
+  name: "priorities",
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS priorities (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        color TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        ticker INTEGER NOT NULL DEFAULT 0
+      )
+    `);
+
+    const insert = db.prepare(`
+      INSERT INTO priorities (name, color, rank, ticker) VALUES (?, ?, ?, ?)
+      ON CONFLICT (name) DO NOTHING
+    `);
+    const { count } = db.prepare("SELECT COUNT(*) AS count FROM priorities").get() as { count: number };
+    if (count === 0) {
+      for (const { name, color, rank, ticker } of DEFAULT_PRIORITIES) insert.run(name, color, rank, ticker);
+    }
+    // Any other name in use (e.g. from a restored backup) ranks below the rest
+    const used = db.prepare("SELECT priority FROM notices UNION SELECT priority FROM notice_archive").all() as { priority: string }[];
+    for (const { priority } of used) insert.run(priority, "slate", -1, 0);
+  },
+};
@@ -0,0 +1,13 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 11,
+  name: "pinning",
+  up: (db) => {
+    // Position among pinned notices, lowest first; NULL for notices that are not pinned
+    db.exec(`
+      ALTER TABLE notices ADD COLUMN pinOrder INTEGER;
+      CREATE INDEX notices_pin_order ON notices (pinOrder) WHERE pinOrder IS NOT NULL;
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 12,
+  name: "boards",
+  up: (db) => {
+    // Everything so far belongs to the default board, created here as board 1
+    db.exec(`
+      CREATE TABLE boards (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        slug TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        name TEXT NOT NULL,
+        tagline TEXT NOT NULL,
+        color TEXT NOT NULL,
+        createdAt DATETIME NOT NULL
+      );
+      CREATE TABLE board_staff (
+        boardId INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+        userId INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        PRIMARY KEY (boardId, userId)
+      );
+      ALTER TABLE notices ADD COLUMN boardId INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE notice_archive ADD COLUMN boardId INTEGER NOT NULL DEFAULT 1;
+      CREATE INDEX notices_board ON notices (boardId);
+      -- NULL for events every board receives, such as category changes
+      ALTER TABLE event_log ADD COLUMN boardId INTEGER;
+    `);
+    db.prepare("INSERT INTO boards (id, slug, name, tagline, color, createdAt) VALUES (1, 'main', 'UniBoard', 'Smart Digital Notice Board', 'slate', ?)")
+      .run(new Date().toISOString());
+    // Posters keep posting where they always have; admins run every board anyway
+    db.exec("INSERT INTO board_staff (boardId, userId) SELECT 1, id FROM users WHERE role = 'poster'");
+  },
+};
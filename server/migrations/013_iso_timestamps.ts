@@ -0,0 +1,17 @@
+import type { Migration } from "../migrate";
+
+// SQLite's CURRENT_TIMESTAMP, which filled in createdAt before the server
+// set it, reads "YYYY-MM-DD HH:MM:SS" in UTC. Feeds print and parse createdAt
+// as an ISO date and notices are ordered by comparing it as text, so those
+// rows are rewritten in the form the server writes.
+const LEGACY = "____-__-__ __:__:__";
+
+export const migration: Migration = {
+  version: 13,
+  name: "iso_timestamps",
+  up: (db) => {
+    for (const table of ["notices", "notice_archive"]) {
+      db.prepare(`UPDATE ${table} SET createdAt = strftime('%Y-%m-%dT%H:%M:%fZ', createdAt) WHERE createdAt LIKE ?`).run(LEGACY);
+    }
+  },
+};
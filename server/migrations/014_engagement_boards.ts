@@ -0,0 +1,18 @@
+import type { Migration } from "../migrate";
+
+export const migration: Migration = {
+  version: 14,
+  name: "engagement_boards",
+  up: (db) => {
+    // Engagement is reported per board; rows outlive their notice, so the board is kept with each
+    db.exec(`
+      ALTER TABLE notice_engagement ADD COLUMN boardId INTEGER NOT NULL DEFAULT 1;
+      UPDATE notice_engagement SET boardId = COALESCE(
+        (SELECT boardId FROM notices WHERE notices.id = noticeId),
+        (SELECT boardId FROM notice_archive WHERE notice_archive.id = noticeId),
+        1
+      );
+      CREATE INDEX notice_engagement_board ON notice_engagement (boardId, hour);
+    `);
+  },
+};
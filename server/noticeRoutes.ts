@@ -0,0 +1,181 @@
+import express from "express";
+import { NoticeQuery, NoticeSortField, NOTICE_SORT_FIELDS, SortOrder } from "../src/types";
+import { canAccessBoard, canEditNotice, canManageBoard } from "../src/permissions";
+import { toNoticeInput } from "../src/lib/notices";
+import { clientIp } from "./audit";
+import { Auth, requirePermission } from "./auth";
+import { BoardStore } from "./boards";
+import { AppError } from "./errors";
+import { EventHandler } from "./events";
+import { NoticeStore } from "./notices";
+import { categoryParam, dateParam, parseAudienceFilter, parseClientEvent, parseNoticeInput, parseReview, priorityParam } from "./validation";
+
+const MAX_SEARCH_LENGTH = 200;
+
+function parseQuery(query: Record<string, unknown>): NoticeQuery {
+  if (typeof query.q === "string" && query.q.length > MAX_SEARCH_LENGTH) {
+    throw new AppError("invalid_request", `q must be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+
+  const limit = query.limit === undefined ? undefined : Number(query.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new AppError("invalid_request", "limit must be a positive integer");
+  }
+
+  const sort = query.sort === undefined ? undefined : String(query.sort);
+  if (sort !== undefined && !NOTICE_SORT_FIELDS.includes(sort as NoticeSortField)) {
+    throw new AppError("invalid_request", `sort must be one of: ${NOTICE_SORT_FIELDS.join(", ")}`);
+  }
+  const order = query.order === undefined ? undefined : String(query.order);
+  if (order !== undefined && order !== "asc" && order !== "desc") {
+    throw new AppError("invalid_request", "order must be asc or desc");
+  }
+
+  return {
+    q: typeof query.q === "string" && query.q.trim() ? query.q.trim() : undefined,
+    category: categoryParam(query.category),
+    priority: priorityParam(query.priority),
+    author: typeof query.author === "string" ? query.author : undefined,
+    from: dateParam(query.from, "from"),
+    to: dateParam(query.to, "to"),
+    audience: parseAudienceFilter(query),
+    sort: sort as NoticeSortField | undefined,
+    order: order as SortOrder | undefined,
+    cursor: typeof query.cursor === "string" ? query.cursor : undefined,
+    limit,
+  };
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new AppError("invalid_request", "Invalid notice id");
+  }
+  return id;
+}
+
+/**
+ * JSON REST API for notices. Writes are dispatched as ClientEvents through
+ * the same handler as WebSocket messages, so they are authorized, persisted
+ * and broadcast to connected boards in exactly the same way.
+ *
+ * Lists and new notices are for the board named by `?board=<slug>`, the
+ * default board without one. A notice that is already posted is found on
+ * its own board.
+ */
+export function createNoticeRouter(notices: NoticeStore, boards: BoardStore, auth: Auth, handleEvent: EventHandler) {
+  const router = express.Router();
+
+  const boardParam = (query: Record<string, unknown>) =>
+    boards.resolve(typeof query.board === "string" ? query.board : undefined);
+
+  // Events about a notice that does not exist go to the default board, to be turned down there
+  const boardOf = (id: number) => {
+    const notice = notices.find(id);
+    return (notice && boards.find(notice.boardId)) || boards.resolve(undefined);
+  };
+
+  router.get("/notices", (req, res) => {
+    res.json(notices.query(boardParam(req.query).id, parseQuery(req.query)));
+  });
+
+  router.get("/events", (req, res) => {
+    res.json({
+      notices: notices.listEvents(boardParam(req.query).id, {
+        from: dateParam(req.query.from, "from"),
+        to: dateParam(req.query.to, "to"),
+        category: categoryParam(req.query.category),
+        audience: parseAudienceFilter(req.query),
+      }),
+    });
+  });
+
+  router.get("/audiences", (req, res) => {
+    res.json({ audiences: notices.listAudienceValues(boardParam(req.query).id) });
+  });
+
+  router.get("/notices/:id", (req, res) => {
+    const notice = notices.find(parseId(req.params.id));
+    const visible = notice && (notices.isPublished(notice.id) || canManageBoard(auth.getRequestUser(req), notice.boardId));
+    if (!visible) {
+      throw new AppError("not_found", "Notice not found");
+    }
+    res.json({ notice });
+  });
+
+  // `"draft": true` in the body saves a notice without submitting it for review,
+  // and `"crossPost": [boardId, ...]` posts copies to other boards as well
+  router.post("/notices", (req, res) => {
+    const notice = handleEvent(auth.getRequestUser(req), parseClientEvent({
+      type: "ADD_NOTICE",
+      notice: req.body,
+      draft: req.body?.draft,
+      crossPost: req.body?.crossPost,
+    }), { board: boardParam(req.query), ip: clientIp(req) });
+    res.status(201).json({ notice });
+  });
+
+  // PATCH accepts any subset of fields; the rest keep their current values.
+  // Saving a draft or rejected notice without `"draft": true` submits it.
+  router.patch("/notices/:id", (req, res) => {
+    const id = parseId(req.params.id);
+    const existing = notices.find(id);
+    if (!existing) {
+      throw new AppError("not_found", "Notice not found");
+    }
+    const notice = handleEvent(auth.getRequestUser(req), {
+      type: "UPDATE_NOTICE",
+      id,
+      notice: parseNoticeInput({ ...toNoticeInput(existing), ...req.body }),
+      draft: req.body?.draft === true,
+    }, { board: boardOf(id), ip: clientIp(req) });
+    res.json({ notice });
+  });
+
+  router.post("/notices/:id/review", (req, res) => {
+    const id = parseId(req.params.id);
+    const notice = handleEvent(auth.getRequestUser(req), {
+      type: "REVIEW_NOTICE",
+      id,
+      ...parseReview(req.body),
+    }, { board: boardOf(id), ip: clientIp(req) });
+    res.json({ notice });
+  });
+
+  router.delete("/notices/:id", (req, res) => {
+    const id = parseId(req.params.id);
+    handleEvent(auth.getRequestUser(req), { type: "DELETE_NOTICE", id }, { board: boardOf(id), ip: clientIp(req) });
+    res.status(204).end();
+  });
+
+  router.get("/notices/:id/revisions", (req, res) => {
+    const notice = notices.find(parseId(req.params.id));
+    if (!notice) {
+      throw new AppError("not_found", "Notice not found");
+    }
+    const user = auth.getRequestUser(req);
+    if (!canEditNotice(user, notice) || !canAccessBoard(user, notice.boardId)) {
+      throw new AppError("forbidden", "Forbidden");
+    }
+    res.json({ revisions: notices.listRevisions(notice.id) });
+  });
+
+  // The whole pinned order, unpublished notices included, for arranging it
+  router.get("/pinned", requirePermission(auth, "notice:arrange"), (req, res) => {
+    const board = boardParam(req.query);
+    if (!canAccessBoard(res.locals.user, board.id)) {
+      throw new AppError("forbidden", `You are not on the staff of ${board.name}`);
+    }
+    res.json({ notices: notices.listPinned(board.id) });
+  });
+
+  router.get("/archive", requirePermission(auth, "notice:archive"), (req, res) => {
+    const board = boardParam(req.query);
+    if (!canAccessBoard(res.locals.user, board.id)) {
+      throw new AppError("forbidden", `You are not on the staff of ${board.name}`);
+    }
+    res.json({ notices: notices.listArchived(board.id) });
+  });
+
+  return router;
+}
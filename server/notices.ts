@@ -0,0 +1,832 @@
+import type Database from "better-sqlite3";
+import {
+  ArchivedNotice,
+  ArchiveReason,
+  BackupFilter,
+  BoardBackup,
+  EventQuery,
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  ImportConflict,
+  ImportConflictMode,
+  Notice,
+  NoticeAudience,
+  NoticeBulkAction,
+  NoticeInput,
+  NoticePage,
+  NoticePlacement,
+  NoticeQuery,
+  NoticeRevision,
+  NoticeSortField,
+  NoticeStatus,
+  ReviewDecision,
+  SortOrder
+} from "../src/types";
+import { AUDIENCE_FIELDS } from "../src/lib/audience";
+import { toNoticeInput } from "../src/lib/notices";
+import type { AttachmentStore } from "./attachments";
+import { DEFAULT_BOARD_ID } from "./boards";
+import { AppError } from "./errors";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const SNIPPET_TOKENS = 24;
+const MAX_EVENTS = 500;
+
+/** The notices, archived notices and revisions carried by a JSON backup. */
+export type BackupContents = Pick<BoardBackup, "notices" | "archived" | "revisions">;
+
+/** Where a notice restored from a backup was before the import, if anywhere, and where it is now. */
+export interface ImportedNotice {
+  id: number;
+  before?: NoticePlacement;
+  after: NoticePlacement;
+}
+
+const NOTICE_FIELDS = [
+  "title", "content", "category", "priority", "author", "expiresAt", "publishAt", "eventStart", "eventEnd", "location",
+] as const;
+
+function encodeAudience(audience: NoticeAudience | undefined): string | null {
+  return audience ? JSON.stringify(audience) : null;
+}
+
+function decodeAudience(value: string | null): NoticeAudience | undefined {
+  return value ? JSON.parse(value) : undefined;
+}
+
+/**
+ * SQL that keeps notices meant for someone following `filter`: for each field
+ * the follower narrows, the notice must either not target that field or
+ * share a value with it. Mirrors matchesAudience in src/lib/audience.
+ */
+function audienceClause(filter: NoticeAudience): { sql: string[], params: unknown[] } {
+  const sql: string[] = [];
+  const params: unknown[] = [];
+  for (const { field } of AUDIENCE_FIELDS) {
+    const values = filter[field] as unknown[] | undefined;
+    if (!values?.length) continue;
+    sql.push(`(
+      json_extract(audience, '$.${field}') IS NULL OR
+      EXISTS (SELECT 1 FROM json_each(audience, '$.${field}') WHERE value IN (${values.map(() => "?").join(", ")}))
+    )`);
+    params.push(...values);
+  }
+  return { sql, params };
+}
+
+/** An approved notice goes live straight away unless it names a publish time in the future. */
+function isDue(publishAt: string | null | undefined, now = new Date().toISOString()): boolean {
+  return !publishAt || publishAt <= now;
+}
+
+// Board order: pinned notices in the order staff arranged them, then the newest
+const BOARD_ORDER = "pinOrder IS NULL, pinOrder, COALESCE(publishAt, createdAt) DESC, notices.id DESC";
+
+// Column sorts for the admin table, each with the direction it starts in.
+// Ties fall back to the newest first.
+const SORT_COLUMNS: Record<NoticeSortField, { sql: string, order: SortOrder }> = {
+  date: { sql: "COALESCE(publishAt, createdAt)", order: "desc" },
+  title: { sql: "notices.title COLLATE NOCASE", order: "asc" },
+  category: { sql: "category COLLATE NOCASE", order: "asc" },
+  priority: { sql: "(SELECT rank FROM priorities WHERE priorities.name = notices.priority)", order: "desc" },
+};
+
+function sortClause(field: NoticeSortField, order = SORT_COLUMNS[field].order): string {
+  const direction = order === "asc" ? "ASC" : "DESC";
+  return field === "date"
+    ? `${SORT_COLUMNS.date.sql} ${direction}, notices.id ${direction}`
+    : `${SORT_COLUMNS[field].sql} ${direction}, COALESCE(publishAt, createdAt) DESC, notices.id DESC`;
+}
+
+// Browsing cursors in board order point at the last notice of a page by its
+// pin position (null when not pinned), date and id, so pages stay stable
+// while new notices are posted at the top. Search results and column sorts
+// page by offset instead.
+type Cursor = { after: [number | null, string, number] } | { offset: number };
+
+function encodeCursor(cursor: Cursor): string {
+  const value = "after" in cursor ? cursor.after : { offset: cursor.offset };
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (
+      Array.isArray(value) && (value[0] === null || Number.isInteger(value[0])) &&
+      typeof value[1] === "string" && typeof value[2] === "number"
+    ) {
+      return { after: [value[0], value[1], value[2]] };
+    }
+    if (Number.isInteger(value?.offset) && value.offset >= 0) {
+      return { offset: value.offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AppError("invalid_request", "Invalid cursor");
+}
+
+/**
+ * Turns what someone typed into an FTS5 query: every word must match, as a
+ * prefix, and FTS5 operators in the input are treated as plain text.
+ */
+function toMatchExpression(q: string): string | null {
+  const words = q.match(/[\p{L}\p{N}_]+/gu);
+  return words ? words.map(word => `"${word}"*`).join(" ") : null;
+}
+
+export function toNotice(row: any): Notice {
+  return {
+    id: row.id,
+    boardId: row.boardId,
+    title: row.title,
+    content: row.content,
+    category: row.category,
+    priority: row.priority,
+    author: row.author,
+    createdAt: row.createdAt,
+    expiresAt: row.expiresAt ?? undefined,
+    publishAt: row.publishAt ?? undefined,
+    audience: decodeAudience(row.audience),
+    eventStart: row.eventStart ?? undefined,
+    eventEnd: row.eventEnd ?? undefined,
+    location: row.location ?? undefined,
+    createdBy: row.createdBy ?? undefined,
+    status: row.status,
+    rejectionReason: row.rejectionReason ?? undefined,
+    reviewedBy: row.reviewedBy ?? undefined,
+    reviewedAt: row.reviewedAt ?? undefined,
+    pinOrder: row.pinOrder ?? undefined,
+  };
+}
+
+function toArchivedNotice(row: any): ArchivedNotice {
+  return {
+    ...toNotice(row),
+    archivedAt: row.archivedAt,
+    archivedBy: row.archivedBy ?? undefined,
+    archiveReason: row.archiveReason,
+  };
+}
+
+function toRevision(row: any): NoticeRevision {
+  return {
+    id: row.id,
+    noticeId: row.noticeId,
+    revision: row.revision,
+    title: row.title,
+    content: row.content,
+    category: row.category,
+    priority: row.priority,
+    author: row.author,
+    expiresAt: row.expiresAt ?? undefined,
+    publishAt: row.publishAt ?? undefined,
+    audience: decodeAudience(row.audience),
+    eventStart: row.eventStart ?? undefined,
+    eventEnd: row.eventEnd ?? undefined,
+    location: row.location ?? undefined,
+    editedBy: row.editedBy ?? undefined,
+    editedByName: row.editedByName ?? undefined,
+    editedAt: row.editedAt,
+  };
+}
+
+function sameIds(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+export function createNoticeStore(db: Database.Database, attachments: AttachmentStore) {
+  /** Fills in the attachments of each notice, looked up in one query. */
+  const withAttachments = <T extends Notice>(list: T[]): T[] => {
+    const byNotice = attachments.listFor(list.map(notice => notice.id));
+    return list.map(notice => byNotice.has(notice.id) ? { ...notice, attachments: byNotice.get(notice.id) } : notice);
+  };
+
+  const find = (id: number): Notice | undefined => {
+    const row = db.prepare("SELECT * FROM notices WHERE id = ?").get(id);
+    return row ? withAttachments([toNotice(row)])[0] : undefined;
+  };
+
+  const isPublished = (id: number): boolean => {
+    const row = db.prepare("SELECT published FROM notices WHERE id = ?").get(id) as { published: number } | undefined;
+    return row?.published === 1;
+  };
+
+  /**
+   * Filtered, paginated view of the live board. Without `q` it is in board
+   * order, pinned notices first; with `q` the best matches come first (title
+   * weighs most, then author, then content) and each carries highlighted
+   * excerpts. `sort` overrides either order. Expired notices are left out
+   * even before the scheduler has archived them.
+   */
+  const query = (boardId: number, q: NoticeQuery): NoticePage => {
+    const where = ["boardId = ?", "published = 1", "(expiresAt IS NULL OR expiresAt > ?)"];
+    const params: unknown[] = [boardId, new Date().toISOString()];
+
+    const match = q.q ? toMatchExpression(q.q) : null;
+    if (q.q && !match) {
+      return { notices: [], nextCursor: null, total: 0 };
+    }
+    if (match) {
+      where.push("notices_fts MATCH ?");
+      params.push(match);
+    }
+    if (q.category?.length) {
+      where.push(`category IN (${q.category.map(() => "?").join(", ")})`);
+      params.push(...q.category);
+    }
+    if (q.priority?.length) {
+      where.push(`priority IN (${q.priority.map(() => "?").join(", ")})`);
+      params.push(...q.priority);
+    }
+    if (q.author) {
+      where.push("notices.author = ? COLLATE NOCASE");
+      params.push(q.author);
+    }
+    if (q.from) {
+      where.push("COALESCE(publishAt, createdAt) >= ?");
+      params.push(q.from);
+    }
+    if (q.to) {
+      where.push("COALESCE(publishAt, createdAt) <= ?");
+      params.push(q.to);
+    }
+    if (q.audience) {
+      const audience = audienceClause(q.audience);
+      where.push(...audience.sql);
+      params.push(...audience.params);
+    }
+
+    const from = match ? "notices JOIN notices_fts ON notices_fts.rowid = notices.id" : "notices";
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${from} WHERE ${where.join(" AND ")}`)
+      .get(...params) as { total: number };
+
+    const byOffset = !!match || !!q.sort;
+    const cursor = q.cursor ? decodeCursor(q.cursor) : null;
+    let offset = 0;
+    if (cursor && "after" in cursor && !byOffset) {
+      const [pinOrder, sortKey, id] = cursor.after;
+      // Pin positions are unique, so a pinned notice is placed by its position alone
+      if (pinOrder !== null) {
+        where.push("(pinOrder > ? OR pinOrder IS NULL)");
+        params.push(pinOrder);
+      } else {
+        where.push("pinOrder IS NULL AND (COALESCE(publishAt, createdAt) < ? OR (COALESCE(publishAt, createdAt) = ? AND notices.id < ?))");
+        params.push(sortKey, sortKey, id);
+      }
+    } else if (cursor && "offset" in cursor && byOffset) {
+      offset = cursor.offset;
+    } else if (cursor) {
+      throw new AppError("invalid_request", "Cursor does not belong to this query");
+    }
+
+    const order = q.sort ? sortClause(q.sort, q.order)
+      : match ? "bm25(notices_fts, 10.0, 1.0, 3.0), notices.id DESC"
+      : BOARD_ORDER;
+    const limit = Math.min(Math.max(q.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const rows = db.prepare(`
+      SELECT notices.*${match ? `,
+        highlight(notices_fts, 0, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}') AS titleHighlight,
+        snippet(notices_fts, 1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', ${SNIPPET_TOKENS}) AS contentSnippet` : ""}
+      FROM ${from}
+      WHERE ${where.join(" AND ")}
+      ORDER BY ${order}
+      LIMIT ? OFFSET ?
+    `).all(...params, limit + 1, offset) as any[];
+
+    const page = rows.slice(0, limit).map(row => match
+      ? { ...toNotice(row), highlight: { title: row.titleHighlight, snippet: row.contentSnippet } }
+      : toNotice(row));
+    const hasMore = rows.length > limit;
+    const last = page[page.length - 1];
+    return {
+      notices: withAttachments(page),
+      nextCursor: !hasMore ? null : encodeCursor(byOffset
+        ? { offset: offset + limit }
+        : { after: [last.pinOrder ?? null, last.publishAt ?? last.createdAt, last.id] }),
+      total,
+    };
+  };
+
+  /**
+   * Live notices with an event time that overlaps `from`–`to`, soonest
+   * first. An event without an end counts as a moment at its start.
+   */
+  const listEvents = (boardId: number, q: EventQuery): Notice[] => {
+    const where = ["boardId = ?", "published = 1", "(expiresAt IS NULL OR expiresAt > ?)", "eventStart IS NOT NULL"];
+    const params: unknown[] = [boardId, new Date().toISOString()];
+    if (q.from) {
+      where.push("COALESCE(eventEnd, eventStart) >= ?");
+      params.push(q.from);
+    }
+    if (q.to) {
+      where.push("eventStart <= ?");
+      params.push(q.to);
+    }
+    if (q.category?.length) {
+      where.push(`category IN (${q.category.map(() => "?").join(", ")})`);
+      params.push(...q.category);
+    }
+    if (q.audience) {
+      const audience = audienceClause(q.audience);
+      where.push(...audience.sql);
+      params.push(...audience.params);
+    }
+    return withAttachments((db.prepare(`
+      SELECT * FROM notices WHERE ${where.join(" AND ")}
+      ORDER BY eventStart, id
+      LIMIT ${MAX_EVENTS}
+    `).all(...params) as any[]).map(toNotice));
+  };
+
+  /** Every faculty, department, year and campus that a live notice on the board targets, for pickers. */
+  const listAudienceValues = (boardId: number): Required<NoticeAudience> => {
+    const values = { faculties: [], departments: [], years: [], campuses: [] } as Required<NoticeAudience>;
+    for (const { field } of AUDIENCE_FIELDS) {
+      const rows = db.prepare(`
+        SELECT DISTINCT value FROM notices, json_each(notices.audience, '$.${field}')
+        WHERE notices.boardId = ? AND notices.published = 1 AND notices.audience IS NOT NULL
+        ORDER BY value
+      `).all(boardId) as { value: never }[];
+      values[field] = rows.map(row => row.value);
+    }
+    return values;
+  };
+
+  /** Every notice of the board that is not on it: scheduled, in draft, awaiting review or rejected. */
+  const listUnpublished = (boardId: number): Notice[] =>
+    withAttachments((db.prepare("SELECT * FROM notices WHERE boardId = ? AND published = 0 ORDER BY publishAt ASC").all(boardId) as any[]).map(toNotice));
+
+  /** Marks every approved notice whose publish time has arrived as live. */
+  const publishDue = db.transaction((): Notice[] => {
+    const due = db.prepare(
+      "SELECT id FROM notices WHERE published = 0 AND status = 'approved' AND publishAt <= ?"
+    ).all(new Date().toISOString()) as { id: number }[];
+    for (const { id } of due) {
+      db.prepare("UPDATE notices SET published = 1 WHERE id = ?").run(id);
+    }
+    return due.map(({ id }) => find(id)!);
+  });
+
+  const recordRevision = (notice: Notice, editedBy: number | null, editedAt: string) => {
+    const { next } = db.prepare(
+      "SELECT COALESCE(MAX(revision), 0) + 1 AS next FROM notice_revisions WHERE noticeId = ?"
+    ).get(notice.id) as { next: number };
+    db.prepare(`
+      INSERT INTO notice_revisions (noticeId, revision, title, content, category, priority, author, expiresAt, publishAt, audience, eventStart, eventEnd, location, editedBy, editedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      notice.id, next, notice.title, notice.content, notice.category, notice.priority,
+      notice.author, notice.expiresAt ?? null, notice.publishAt ?? null, encodeAudience(notice.audience),
+      notice.eventStart ?? null, notice.eventEnd ?? null, notice.location ?? null, editedBy, editedAt
+    );
+  };
+
+  const create = db.transaction((boardId: number, input: NoticeInput, userId: number, status: NoticeStatus): Notice => {
+    const createdAt = new Date().toISOString();
+    const info = db.prepare(`
+      INSERT INTO notices (boardId, title, content, category, priority, author, expiresAt, publishAt, audience, eventStart, eventEnd, location, status, published, createdBy, createdAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      boardId, input.title, input.content, input.category, input.priority, input.author, input.expiresAt || null,
+      input.publishAt || null, encodeAudience(input.audience), input.eventStart || null, input.eventEnd || null,
+      input.location || null, status, status === "approved" && isDue(input.publishAt) ? 1 : 0, userId, createdAt
+    );
+    if (input.attachmentIds?.length) {
+      attachments.link(info.lastInsertRowid as number, input.attachmentIds, userId);
+    }
+    const notice = find(info.lastInsertRowid as number)!;
+    recordRevision(notice, userId, createdAt);
+    return notice;
+  });
+
+  /**
+   * Posts a copy of a notice to another board, with its own copies of the
+   * attachments. The copy is a separate notice from then on: editing or
+   * deleting one leaves the other as it is.
+   */
+  const copyTo = db.transaction((id: number, boardId: number, userId: number, status: NoticeStatus): Notice | undefined => {
+    const original = find(id);
+    if (!original) return undefined;
+    const copy = create(boardId, toNoticeInput(original), userId, status);
+    if (!original.attachments?.length) return copy;
+    attachments.copyFor(id, copy.id);
+    return find(copy.id);
+  });
+
+  /**
+   * Applies an edit in place, keeping the notice's id and createdAt. Notices
+   * posted before revisions were tracked get their original state recorded as
+   * the first revision so the history still starts from what was published.
+   * Changing publishAt reschedules a pending notice; a notice that is already
+   * live keeps its original publish time. Attachments are not part of a
+   * revision, so changing only those records none.
+   *
+   * The notice moves to `status` when anything changed, or when it was not
+   * approved (which is how a draft or rejected notice is submitted). Leaving
+   * approved takes it off the board until it is approved again.
+   */
+  const update = db.transaction((id: number, input: NoticeInput, userId: number, status: NoticeStatus): Notice | undefined => {
+    const existing = find(id);
+    if (!existing) return undefined;
+
+    const { count } = db.prepare(
+      "SELECT COUNT(*) AS count FROM notice_revisions WHERE noticeId = ?"
+    ).get(id) as { count: number };
+    if (count === 0) {
+      recordRevision(existing, existing.createdBy ?? null, existing.createdAt);
+    }
+
+    const wasPublished = isPublished(id);
+    if (wasPublished) {
+      input = { ...input, publishAt: existing.publishAt };
+    }
+
+    const changed = NOTICE_FIELDS.some(field => (existing[field] ?? null) !== (input[field] || null)) ||
+      encodeAudience(existing.audience) !== encodeAudience(input.audience);
+    const attachmentsChanged = !!input.attachmentIds &&
+      !sameIds(input.attachmentIds, (existing.attachments ?? []).map(attachment => attachment.id));
+    if (attachmentsChanged) {
+      attachments.link(id, input.attachmentIds!, userId);
+    }
+    const nextStatus = changed || attachmentsChanged || existing.status !== "approved" ? status : existing.status;
+    const published = nextStatus === "approved" && (wasPublished || isDue(input.publishAt)) ? 1 : 0;
+    if (!changed) {
+      if (nextStatus === existing.status) return attachmentsChanged ? find(id) : existing;
+      db.prepare("UPDATE notices SET status = ?, rejectionReason = NULL, published = ? WHERE id = ?").run(nextStatus, published, id);
+      return find(id);
+    }
+
+    db.prepare(`
+      UPDATE notices SET title = ?, content = ?, category = ?, priority = ?, author = ?, expiresAt = ?, publishAt = ?, audience = ?,
+        eventStart = ?, eventEnd = ?, location = ?, status = ?, rejectionReason = NULL, published = ?
+      WHERE id = ?
+    `).run(
+      input.title, input.content, input.category, input.priority, input.author, input.expiresAt || null,
+      input.publishAt || null, encodeAudience(input.audience), input.eventStart || null, input.eventEnd || null,
+      input.location || null, nextStatus, published, id
+    );
+
+    const notice = find(id)!;
+    recordRevision(notice, userId, new Date().toISOString());
+    return notice;
+  });
+
+  /**
+   * Approves or rejects a notice awaiting review. An approved notice goes
+   * live at once or at its publish time; a rejected one keeps `reason` until
+   * it is edited and submitted again.
+   */
+  const review = db.transaction((id: number, decision: ReviewDecision, reason: string | undefined, userId: number): Notice | undefined => {
+    const existing = find(id);
+    if (!existing) return undefined;
+    if (existing.status !== "pending") {
+      throw new AppError("conflict", "This notice is not awaiting review");
+    }
+    const approved = decision === "approve";
+    db.prepare(`
+      UPDATE notices SET status = ?, rejectionReason = ?, reviewedBy = ?, reviewedAt = ?, published = ? WHERE id = ?
+    `).run(
+      approved ? "approved" : "rejected", approved ? null : reason ?? null, userId, new Date().toISOString(),
+      approved && isDue(existing.publishAt) ? 1 : 0, id
+    );
+    return find(id);
+  });
+
+  /**
+   * Pins a live notice below the ones already pinned on its board, or unpins a notice.
+   * A pinned notice that leaves the board, e.g. for review, stays pinned.
+   */
+  const pin = db.transaction((id: number, pinned: boolean): Notice | undefined => {
+    const existing = find(id);
+    if (!existing) return undefined;
+    if (pinned === (existing.pinOrder !== undefined)) return existing;
+    if (pinned && !isPublished(id)) {
+      throw new AppError("conflict", "Only notices on the board can be pinned");
+    }
+    if (pinned) {
+      db.prepare("UPDATE notices SET pinOrder = (SELECT COALESCE(MAX(pinOrder) + 1, 0) FROM notices WHERE boardId = ?) WHERE id = ?")
+        .run(existing.boardId, id);
+    } else {
+      db.prepare("UPDATE notices SET pinOrder = NULL WHERE id = ?").run(id);
+    }
+    return find(id);
+  });
+
+  /** Every pinned notice of the board, in board order. */
+  const listPinned = (boardId: number): Notice[] =>
+    withAttachments((db.prepare("SELECT * FROM notices WHERE boardId = ? AND pinOrder IS NOT NULL ORDER BY pinOrder").all(boardId) as any[]).map(toNotice));
+
+  /**
+   * Puts `ids` at the top of the pinned notices in that order; pinned notices
+   * left out keep their relative order below them. Returns the pinned
+   * notices in their new order.
+   */
+  const reorderPinned = db.transaction((boardId: number, ids: number[]): Notice[] => {
+    const pinned = listPinned(boardId).map(notice => notice.id);
+    const unknown = ids.find(id => !pinned.includes(id));
+    if (unknown !== undefined) {
+      throw new AppError("conflict", `Notice ${unknown} is not pinned`);
+    }
+    const order = [...ids, ...pinned.filter(id => !ids.includes(id))];
+    const setOrder = db.prepare("UPDATE notices SET pinOrder = ? WHERE id = ?");
+    order.forEach((id, i) => setOrder.run(i, id));
+    return listPinned(boardId);
+  });
+
+  /**
+   * Applies one change to several live notices in a single transaction, so
+   * either all of them change or none do. Returns each notice as it was and,
+   * for changes that keep them on the board, as it is now. Recategorising
+   * and reprioritising are edits like any other and are kept as revisions.
+   */
+  const bulkUpdate = db.transaction((boardId: number, ids: number[], action: NoticeBulkAction, userId: number) => {
+    const before = ids.map(id => {
+      const notice = find(id);
+      if (notice?.boardId !== boardId) throw new AppError("not_found", `Notice ${id} not found`);
+      if (!isPublished(id)) throw new AppError("conflict", `"${notice.title}" is not on the board`);
+      return notice;
+    });
+
+    switch (action.kind) {
+      case "delete":
+        before.forEach(notice => remove(notice.id));
+        return { before, updated: [] as Notice[] };
+      case "archive":
+        before.forEach(notice => archive(notice.id, "manual", userId));
+        return { before, updated: [] as Notice[] };
+      case "category":
+      case "priority": {
+        const change = action.kind === "category" ? { category: action.category } : { priority: action.priority };
+        const updated = before.map(notice => update(notice.id, { ...toNoticeInput(notice), ...change }, userId, notice.status)!);
+        return { before, updated };
+      }
+    }
+  });
+
+  /** Deletes a notice for good, along with its attachment files and revisions. Archiving keeps them. */
+  const remove = db.transaction((id: number) => {
+    db.prepare("DELETE FROM notices WHERE id = ?").run(id);
+    db.prepare("DELETE FROM notice_revisions WHERE noticeId = ?").run(id);
+    attachments.removeFor(id);
+  });
+
+  const archive = db.transaction((id: number, reason: ArchiveReason, userId: number | null): boolean => {
+    const info = db.prepare(`
+      INSERT INTO notice_archive (id, boardId, title, content, category, priority, author, createdAt, expiresAt, publishAt, audience, eventStart, eventEnd, location, createdBy,
+        status, rejectionReason, reviewedBy, reviewedAt, archivedAt, archivedBy, archiveReason)
+      SELECT id, boardId, title, content, category, priority, author, createdAt, expiresAt, publishAt, audience, eventStart, eventEnd, location, createdBy,
+        status, rejectionReason, reviewedBy, reviewedAt, ?, ?, ?
+      FROM notices WHERE id = ?
+    `).run(new Date().toISOString(), userId, reason, id);
+    db.prepare("DELETE FROM notices WHERE id = ?").run(id);
+    return info.changes > 0;
+  });
+
+  /**
+   * Moves every notice whose expiresAt has passed into the archive, or only
+   * those of `boardId`. Returns the archived notices' ids with their boards.
+   */
+  const archiveExpired = db.transaction((boardId?: number): { id: number, boardId: number }[] => {
+    const where = ["expiresAt IS NOT NULL", "expiresAt <= ?"];
+    const params: unknown[] = [new Date().toISOString()];
+    if (boardId !== undefined) {
+      where.push("boardId = ?");
+      params.push(boardId);
+    }
+    const expired = db.prepare(`SELECT id, boardId FROM notices WHERE ${where.join(" AND ")}`)
+      .all(...params) as { id: number, boardId: number }[];
+    for (const { id } of expired) {
+      archive(id, "expired", null);
+    }
+    return expired;
+  });
+
+  const listArchived = (boardId: number): ArchivedNotice[] =>
+    withAttachments((db.prepare("SELECT * FROM notice_archive WHERE boardId = ? ORDER BY archivedAt DESC").all(boardId) as any[]).map(toArchivedNotice));
+
+  const findArchived = (id: number): ArchivedNotice | undefined => {
+    const row = db.prepare("SELECT * FROM notice_archive WHERE id = ?").get(id);
+    return row ? withAttachments([toArchivedNotice(row)])[0] : undefined;
+  };
+
+  /**
+   * Puts an archived notice back where it was. A lapsed expiry is cleared,
+   * otherwise the scheduler would archive the notice again on its next run.
+   * Only an approved notice returns to the board; others keep their status.
+   */
+  const restoreArchived = db.transaction((id: number): Notice | undefined => {
+    const archived = findArchived(id);
+    if (!archived) return undefined;
+
+    const expiresAt = archived.expiresAt && archived.expiresAt > new Date().toISOString()
+      ? archived.expiresAt
+      : null;
+    db.prepare(`
+      INSERT INTO notices (id, boardId, title, content, category, priority, author, createdAt, expiresAt, publishAt, audience, eventStart, eventEnd, location, createdBy,
+        status, rejectionReason, reviewedBy, reviewedAt, published)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      archived.id, archived.boardId, archived.title, archived.content, archived.category, archived.priority, archived.author,
+      archived.createdAt, expiresAt, archived.publishAt ?? null, encodeAudience(archived.audience),
+      archived.eventStart ?? null, archived.eventEnd ?? null, archived.location ?? null, archived.createdBy ?? null,
+      archived.status, archived.rejectionReason ?? null, archived.reviewedBy ?? null, archived.reviewedAt ?? null,
+      archived.status === "approved" ? 1 : 0
+    );
+    db.prepare("DELETE FROM notice_archive WHERE id = ?").run(id);
+    return find(id);
+  });
+
+  const listRevisions = (id: number): NoticeRevision[] =>
+    (db.prepare(`
+      SELECT notice_revisions.*, users.username AS editedByName FROM notice_revisions
+      LEFT JOIN users ON users.id = notice_revisions.editedBy
+      WHERE noticeId = ?
+      ORDER BY revision DESC
+    `).all(id) as any[]).map(toRevision);
+
+  /** When each of `ids` was last edited, for notices with recorded revisions. */
+  const lastEditedAt = (ids: number[]): Map<number, string> => {
+    const rows = db.prepare(`
+      SELECT noticeId, MAX(editedAt) AS editedAt FROM notice_revisions
+      WHERE noticeId IN (SELECT value FROM json_each(?))
+      GROUP BY noticeId
+    `).all(JSON.stringify(ids)) as { noticeId: number, editedAt: string }[];
+    return new Map(rows.map(row => [row.noticeId, row.editedAt]));
+  };
+
+  const locate = (id: number): { placement: NoticePlacement, title: string } | undefined => {
+    const notice = db.prepare("SELECT title, published FROM notices WHERE id = ?").get(id) as any;
+    if (notice) return { placement: notice.published ? "live" : "scheduled", title: notice.title };
+    const archived = db.prepare("SELECT title FROM notice_archive WHERE id = ?").get(id) as any;
+    return archived ? { placement: "archived", title: archived.title } : undefined;
+  };
+
+  /**
+   * Everything an export covers, oldest first. Revisions are included for
+   * every exported notice, archived ones too when they are part of the export.
+   */
+  const exportBackup = (filter: BackupFilter): BackupContents => {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (filter.from) {
+      where.push("COALESCE(publishAt, createdAt) >= ?");
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      where.push("COALESCE(publishAt, createdAt) <= ?");
+      params.push(filter.to);
+    }
+    if (filter.category?.length) {
+      where.push(`category IN (${filter.category.map(() => "?").join(", ")})`);
+      params.push(...filter.category);
+    }
+    const clause = where.length ? `WHERE ${where.join(" AND ")}` : "";
+    const order = "ORDER BY COALESCE(publishAt, createdAt), id";
+
+    const notices = withAttachments((db.prepare(`SELECT * FROM notices ${clause} ${order}`).all(...params) as any[]).map(toNotice));
+    const archived = filter.includeArchived
+      ? withAttachments((db.prepare(`SELECT * FROM notice_archive ${clause} ${order}`).all(...params) as any[]).map(toArchivedNotice))
+      : undefined;
+    const ids = [...notices, ...(archived ?? [])].map(notice => notice.id);
+    const revisions = filter.includeRevisions
+      ? (db.prepare(`
+          SELECT notice_revisions.*, users.username AS editedByName FROM notice_revisions
+          LEFT JOIN users ON users.id = notice_revisions.editedBy
+          WHERE noticeId IN (SELECT value FROM json_each(?))
+          ORDER BY noticeId, revision
+        `).all(JSON.stringify(ids)) as any[]).map(toRevision)
+      : undefined;
+
+    return { notices, archived, revisions };
+  };
+
+  /** Notices in a backup whose ids are already in use on this board, live or archived. */
+  const findConflicts = (backup: BackupContents): ImportConflict[] =>
+    [...backup.notices, ...(backup.archived ?? [])].flatMap(notice => {
+      const existing = locate(notice.id);
+      return existing
+        ? [{ id: notice.id, title: notice.title, existing: existing.placement, existingTitle: existing.title }]
+        : [];
+    });
+
+  /**
+   * Writes a validated backup back under its original ids. A notice whose id
+   * is taken is left alone with "skip", or replaces whatever holds the id with
+   * "replace". Revisions are restored only for notices that were imported and
+   * overwrite revisions with the same number. A backup covers every board.
+   */
+  const importBackup = db.transaction((backup: BackupContents, onConflict: ImportConflictMode) => {
+    const imported: ImportedNotice[] = [];
+    const skipped: number[] = [];
+
+    const makeRoom = (id: number): { ok: boolean, before?: NoticePlacement } => {
+      const before = locate(id)?.placement;
+      if (before && onConflict === "skip") {
+        skipped.push(id);
+        return { ok: false };
+      }
+      // Whatever held the id takes its files and revisions with it, rather
+      // than leaving them to the notice imported in its place
+      remove(id);
+      db.prepare("DELETE FROM notice_archive WHERE id = ?").run(id);
+      return { ok: true, before };
+    };
+
+    // A notice from a board that no longer exists here lands on the default board
+    const boardFor = (notice: Notice): number =>
+      db.prepare("SELECT 1 FROM boards WHERE id = ?").get(notice.boardId) ? notice.boardId : DEFAULT_BOARD_ID;
+
+    for (const notice of backup.notices) {
+      const { ok, before } = makeRoom(notice.id);
+      if (!ok) continue;
+      const published = notice.status === "approved" && isDue(notice.publishAt);
+      db.prepare(`
+        INSERT INTO notices (id, boardId, title, content, category, priority, author, createdAt, expiresAt, publishAt, audience, eventStart, eventEnd, location, published, createdBy,
+          status, rejectionReason, reviewedBy, reviewedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        notice.id, boardFor(notice), notice.title, notice.content, notice.category, notice.priority, notice.author, notice.createdAt,
+        notice.expiresAt ?? null, notice.publishAt ?? null, encodeAudience(notice.audience), notice.eventStart ?? null,
+        notice.eventEnd ?? null, notice.location ?? null, published ? 1 : 0, notice.createdBy ?? null,
+        notice.status, notice.rejectionReason ?? null, notice.reviewedBy ?? null, notice.reviewedAt ?? null
+      );
+      imported.push({ id: notice.id, before, after: published ? "live" : "scheduled" });
+    }
+
+    for (const notice of backup.archived ?? []) {
+      const { ok, before } = makeRoom(notice.id);
+      if (!ok) continue;
+      db.prepare(`
+        INSERT INTO notice_archive (id, boardId, title, content, category, priority, author, createdAt, expiresAt, publishAt, audience, eventStart, eventEnd, location, createdBy,
+          status, rejectionReason, reviewedBy, reviewedAt, archivedAt, archivedBy, archiveReason)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        notice.id, boardFor(notice), notice.title, notice.content, notice.category, notice.priority, notice.author, notice.createdAt,
+        notice.expiresAt ?? null, notice.publishAt ?? null, encodeAudience(notice.audience), notice.eventStart ?? null,
+        notice.eventEnd ?? null, notice.location ?? null, notice.createdBy ?? null,
+        notice.status, notice.rejectionReason ?? null, notice.reviewedBy ?? null, notice.reviewedAt ?? null,
+        notice.archivedAt, notice.archivedBy ?? null, notice.archiveReason
+      );
+      imported.push({ id: notice.id, before, after: "archived" });
+    }
+
+    const importedIds = new Set(imported.map(notice => notice.id));
+    const revisions = (backup.revisions ?? []).filter(revision => importedIds.has(revision.noticeId));
+    for (const revision of revisions) {
+      db.prepare(`
+        INSERT OR REPLACE INTO notice_revisions (noticeId, revision, title, content, category, priority, author, expiresAt, publishAt, audience, eventStart, eventEnd, location, editedBy, editedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        revision.noticeId, revision.revision, revision.title, revision.content, revision.category, revision.priority,
+        revision.author, revision.expiresAt ?? null, revision.publishAt ?? null, encodeAudience(revision.audience),
+        revision.eventStart ?? null, revision.eventEnd ?? null, revision.location ?? null, revision.editedBy ?? null, revision.editedAt
+      );
+    }
+
+    // Ids restored straight into the archive never pass through `notices`, so
+    // move its AUTOINCREMENT counter past them or new notices could reuse one.
+    const highestId = imported.reduce((max, notice) => Math.max(max, notice.id), 0);
+    const sequence = db.prepare("SELECT seq FROM sqlite_sequence WHERE name = 'notices'").get() as { seq: number } | undefined;
+    if (!sequence) {
+      db.prepare("INSERT INTO sqlite_sequence (name, seq) VALUES ('notices', ?)").run(highestId);
+    } else if (sequence.seq < highestId) {
+      db.prepare("UPDATE sqlite_sequence SET seq = ? WHERE name = 'notices'").run(highestId);
+    }
+
+    return { imported, skipped, revisions: revisions.length };
+  });
+
+  return {
+    find,
+    isPublished,
+    query,
+    listEvents,
+    listAudienceValues,
+    listUnpublished,
+    publishDue,
+    create,
+    copyTo,
+    update,
+    review,
+    pin,
+    listPinned,
+    reorderPinned,
+    bulkUpdate,
+    remove,
+    archive,
+    archiveExpired,
+    listArchived,
+    findArchived,
+    restoreArchived,
+    listRevisions,
+    lastEditedAt,
+    exportBackup,
+    findConflicts,
+    importBackup,
+  };
+}
+
+export type NoticeStore = ReturnType<typeof createNoticeStore>;
@@ -0,0 +1,190 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import { CATEGORY_COLORS, CategoryColor, NoticePriority, NoticePriorityInput, PRIORITY_LIMITS } from "../src/types";
+import { AuditLog, clientIp } from "./audit";
+import { Auth, requirePermission } from "./auth";
+import { AppError } from "./errors";
+import { Broadcast } from "./events";
+
+// Tables that give rows a priority by name
+const PRIORITY_COLUMNS = ["notices", "notice_archive", "notice_revisions"];
+
+function toPriority(row: any): NoticePriority {
+  return { id: row.id, name: row.name, color: row.color, rank: row.rank, ticker: !!row.ticker };
+}
+
+function parsePriorityInput(body: unknown): NoticePriorityInput {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { name, color, rank, ticker } = input;
+
+  if (typeof name !== "string" || !name.trim() || name.length > PRIORITY_LIMITS.name) {
+    throw new AppError("invalid_request", `name must be between 1 and ${PRIORITY_LIMITS.name} characters`);
+  }
+  // Names travel in comma-separated filters such as ?priority=High,Medium
+  if (name.includes(",")) {
+    throw new AppError("invalid_request", "name cannot contain commas");
+  }
+  if (!CATEGORY_COLORS.includes(color as CategoryColor)) {
+    throw new AppError("invalid_request", `color must be one of: ${CATEGORY_COLORS.join(", ")}`);
+  }
+  if (typeof rank !== "number" || !Number.isInteger(rank)) {
+    throw new AppError("invalid_request", "rank must be a whole number");
+  }
+  if (typeof ticker !== "boolean") {
+    throw new AppError("invalid_request", "ticker must be true or false");
+  }
+  return { name: name.trim(), color: color as CategoryColor, rank, ticker };
+}
+
+/**
+ * The board's priorities. Notices refer to a priority by name, as they do
+ * to a category, so a rename is carried through them in the same transaction.
+ */
+export function createPriorityStore(db: Database.Database) {
+  const list = (): NoticePriority[] =>
+    (db.prepare("SELECT * FROM priorities ORDER BY rank DESC, name").all() as any[]).map(toPriority);
+
+  const find = (id: number): NoticePriority | undefined => {
+    const row = db.prepare("SELECT * FROM priorities WHERE id = ?").get(id);
+    return row ? toPriority(row) : undefined;
+  };
+
+  const findByName = (name: string): NoticePriority | undefined => {
+    const row = db.prepare("SELECT * FROM priorities WHERE name = ?").get(name);
+    return row ? toPriority(row) : undefined;
+  };
+
+  const insert = (input: NoticePriorityInput): NoticePriority => {
+    const info = db.prepare("INSERT INTO priorities (name, color, rank, ticker) VALUES (?, ?, ?, ?)")
+      .run(input.name, input.color, input.rank, input.ticker ? 1 : 0);
+    return find(Number(info.lastInsertRowid))!;
+  };
+
+  /**
+   * Adds any of `wanted` that do not exist yet, in a neutral style below the
+   * lowest rank, e.g. for notices restored from a backup. Returns the added ones.
+   */
+  const ensure = db.transaction((wanted: string[]): NoticePriority[] => {
+    const existing = new Set(list().map(priority => priority.name.toLowerCase()));
+    const { lowest } = db.prepare("SELECT MIN(rank) AS lowest FROM priorities").get() as { lowest: number | null };
+    let rank = (lowest ?? 1) - 1;
+    const added: NoticePriority[] = [];
+    for (const name of new Set(wanted)) {
+      if (existing.has(name.toLowerCase())) continue;
+      existing.add(name.toLowerCase());
+      added.push(insert({ name, color: "slate", rank: rank--, ticker: false }));
+    }
+    return added;
+  });
+
+  const isTaken = (name: string, exceptId?: number) => {
+    const other = findByName(name);
+    return !!other && other.id !== exceptId;
+  };
+
+  const create = (input: NoticePriorityInput): NoticePriority => {
+    if (isTaken(input.name)) {
+      throw new AppError("conflict", `A priority named ${input.name} already exists`);
+    }
+    return insert(input);
+  };
+
+  // Moves everything given `from` to `to`
+  const refile = (from: string, to: string) => {
+    for (const table of PRIORITY_COLUMNS) {
+      db.prepare(`UPDATE ${table} SET priority = ? WHERE priority = ?`).run(to, from);
+    }
+  };
+
+  const update = db.transaction((id: number, input: NoticePriorityInput): NoticePriority | undefined => {
+    const existing = find(id);
+    if (!existing) return undefined;
+    if (isTaken(input.name, id)) {
+      throw new AppError("conflict", `A priority named ${input.name} already exists`);
+    }
+    db.prepare("UPDATE priorities SET name = ?, color = ?, rank = ?, ticker = ? WHERE id = ?")
+      .run(input.name, input.color, input.rank, input.ticker ? 1 : 0, id);
+    if (input.name !== existing.name) refile(existing.name, input.name);
+    return find(id);
+  });
+
+  /** How many notices, live, scheduled or archived, have the priority `name`. */
+  const usage = (name: string): number => {
+    const { count } = db.prepare(`
+      SELECT (SELECT COUNT(*) FROM notices WHERE priority = ?) + (SELECT COUNT(*) FROM notice_archive WHERE priority = ?) AS count
+    `).get(name, name) as { count: number };
+    return count;
+  };
+
+  /**
+   * Deletes a priority. Notices with it move to `moveTo`; without one, a
+   * priority that is still in use is refused.
+   */
+  const remove = db.transaction((id: number, moveTo?: NoticePriority) => {
+    const existing = find(id);
+    if (!existing) throw new AppError("not_found", "Priority not found");
+    if (moveTo?.id === id) {
+      throw new AppError("invalid_request", "Choose a different priority to move the notices to");
+    }
+    const count = usage(existing.name);
+    if (count > 0 && !moveTo) {
+      const which = count === 1 ? "1 notice has" : `${count} notices have`;
+      throw new AppError("conflict", `${which} priority ${existing.name}; choose a priority to move them to`);
+    }
+    // Without notices to move, old revisions keep the name
+    if (moveTo) refile(existing.name, moveTo.name);
+    db.prepare("DELETE FROM priorities WHERE id = ?").run(id);
+    return existing;
+  });
+
+  return { list, find, findByName, ensure, create, update, remove, usage };
+}
+
+export type PriorityStore = ReturnType<typeof createPriorityStore>;
+
+/** Reading the priority list is public, since every board needs it; changes need board:settings. */
+export function createPriorityRouter(priorities: PriorityStore, auth: Auth, broadcast: Broadcast, audit: AuditLog) {
+  const router = express.Router();
+
+  const broadcastPriorities = (renamed?: { from: string, to: string }) =>
+    broadcast({ type: "PRIORITIES_UPDATED", priorities: priorities.list(), renamed });
+
+  router.get("/priorities", (req, res) => {
+    res.json({ priorities: priorities.list() });
+  });
+
+  router.post("/priorities", requirePermission(auth, "board:settings"), (req, res) => {
+    const priority = priorities.create(parsePriorityInput(req.body));
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "priority.create", { after: priority });
+    broadcastPriorities();
+    res.status(201).json({ priority });
+  });
+
+  router.put("/priorities/:id", requirePermission(auth, "board:settings"), (req, res) => {
+    const existing = priorities.find(Number(req.params.id));
+    if (!existing) {
+      throw new AppError("not_found", "Priority not found");
+    }
+    const priority = priorities.update(existing.id, parsePriorityInput(req.body))!;
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "priority.update", { before: existing, after: priority });
+    broadcastPriorities(priority.name !== existing.name ? { from: existing.name, to: priority.name } : undefined);
+    res.json({ priority });
+  });
+
+  // ?moveTo=<id> moves the priority's notices to another before deleting it
+  router.delete("/priorities/:id", requirePermission(auth, "board:settings"), (req, res) => {
+    let moveTo;
+    if (req.query.moveTo !== undefined) {
+      moveTo = priorities.find(Number(req.query.moveTo));
+      if (!moveTo) {
+        throw new AppError("invalid_request", "The priority to move notices to does not exist");
+      }
+    }
+    const removed = priorities.remove(Number(req.params.id), moveTo);
+    audit.record({ user: res.locals.user, ip: clientIp(req) }, "priority.delete", { before: removed, after: moveTo && { movedTo: moveTo.name } });
+    broadcastPriorities(moveTo ? { from: removed.name, to: moveTo.name } : undefined);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,53 @@
+import { Broadcast } from "./events";
+import { NoticeStore } from "./notices";
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Periodically publishes scheduled notices whose time has come, moves expired
+ * notices into the archive, and tells connected clients about both.
+ * `archiveNow` performs the expiry sweep on demand, for one board if given.
+ */
+export function startNoticeScheduler(
+  notices: NoticeStore,
+  broadcast: Broadcast,
+  intervalMs = DEFAULT_INTERVAL_MS
+) {
+  const publishNow = () => {
+    for (const notice of notices.publishDue()) {
+      console.log(`Published scheduled notice ${notice.id}`);
+      broadcast({ type: "NOTICE_ADDED", notice }, "all", notice.boardId);
+    }
+  };
+
+  const archiveNow = (boardId?: number): number[] => {
+    const expired = notices.archiveExpired(boardId);
+    if (expired.length > 0) {
+      console.log(`Archived ${expired.length} expired notice(s)`);
+    }
+    const byBoard = new Map<number, number[]>();
+    for (const notice of expired) {
+      byBoard.set(notice.boardId, [...(byBoard.get(notice.boardId) ?? []), notice.id]);
+    }
+    for (const [boardId, ids] of byBoard) {
+      broadcast({ type: "NOTICES_ARCHIVED", ids }, "all", boardId);
+    }
+    return expired.map(notice => notice.id);
+  };
+
+  const timer = setInterval(() => {
+    try {
+      publishNow();
+      archiveNow();
+    } catch (err) {
+      console.error("Scheduler Error:", err);
+    }
+  }, intervalMs);
+  timer.unref();
+
+  return {
+    publishNow,
+    archiveNow,
+    stop: () => clearInterval(timer),
+  };
+}
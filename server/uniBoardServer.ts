@@ -0,0 +1,387 @@
+import express from "express";
+import { createServer as createViteServer, ViteDevServer } from "vite";
+import { WebSocketServer, WebSocket } from "ws";
+import { createServer, IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import Database from "better-sqlite3";
+import path from "path";
+import { Board, NoticeAudience, ServerEvent, ServerMessage, User } from "../src/types";
+import { canManageBoard, canManageNotices } from "../src/permissions";
+import { createAuth, createAuthRouter } from "./auth";
+import { clientIp, createAuditLog, createAuditRouter } from "./audit";
+import { createAnalyticsRouter, createAnalyticsStore } from "./analytics";
+import { createBoardRouter, createBoardStore } from "./boards";
+import { createNoticeStore } from "./notices";
+import { createAttachmentRouter, createAttachmentStore } from "./attachments";
+import { startNoticeScheduler } from "./scheduler";
+import { Broadcast, createEventHandler, tailorEvent } from "./events";
+import { Audience, createEventLog } from "./eventLog";
+import { createDisplayProfileRouter, createDisplayProfileStore } from "./displayProfiles";
+import { createDisplayRegistry, createEmergencyStore, parseDisplayInfo } from "./emergency";
+import { createNoticeRouter } from "./noticeRoutes";
+import { createBackupRouter } from "./backup";
+import { createCategoryRouter, createCategoryStore } from "./categories";
+import { createPriorityRouter, createPriorityStore } from "./priorities";
+import { createFeedRouter } from "./feeds";
+import { AppError, errorHandler, toAppError } from "./errors";
+import { DATABASE_FILE } from "./db";
+import { migrate } from "./migrate";
+import { MAX_PAYLOAD_BYTES, parseAudienceFilter, parseClientEvent, peekRequestId } from "./validation";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const INITIAL_PAGE_SIZE = 50;
+
+export interface UniBoardServerOptions {
+  /** SQLite file to open, or ":memory:" for a board that lasts as long as the process. Defaults to DATABASE_FILE. */
+  databasePath?: string;
+  /** Port to listen on; 0 picks a free one. Defaults to 3000. */
+  port?: number;
+  /** Interface to listen on. Defaults to all of them. */
+  host?: string;
+  /** Serve the client through Vite's dev middleware rather than the built files in dist/. */
+  vite?: boolean;
+  /** Where uploaded attachments are stored. Defaults to uploads/. */
+  uploadDir?: string;
+  /** The admin account to create when the database has no users yet. */
+  admin?: { username?: string, password?: string };
+  /**
+   * Whether the server sits behind a reverse proxy, so the client's address
+   * and protocol are taken from its X-Forwarded-For and X-Forwarded-Proto.
+   * Defaults to false, as any client could send those headers itself.
+   */
+  trustProxy?: boolean;
+  /**
+   * The address the board is reached at, e.g. "https://board.example.edu",
+   * which links in the feeds start with and browsers' WebSocket connections
+   * must come from. Defaults to http://localhost on the port the server
+   * listens on for links, and to the request's own host for connections, so
+   * set it wherever the board is public.
+   */
+  appUrl?: string;
+}
+
+interface ClientInfo {
+  user: User | null;
+  /** Each connection follows one board and only hears about that board's notices. */
+  board: Board;
+  following?: NoticeAudience;
+}
+
+const canReceive = (user: User | null, board: Board, audience: Audience) =>
+  audience === "all" || canManageBoard(user, board.id);
+
+// Staff of the board see every notice so the admin panel is complete; public
+// clients only get notices meant for the audiences they follow. Events of
+// other boards are dropped; ones without a board go to everyone.
+const eventFor = (
+  { user, board, following }: ClientInfo,
+  event: ServerEvent,
+  audience: Audience,
+  boardId: number | undefined
+): ServerEvent | null => {
+  if (boardId !== undefined && boardId !== board.id) return null;
+  if (!canReceive(user, board, audience)) return null;
+  return canManageBoard(user, board.id) ? event : tailorEvent(event, following);
+};
+
+/**
+ * A complete board: the database (migrated to the latest schema), the REST
+ * API, feeds and the WebSocket protocol on one HTTP server. Nothing listens
+ * until `start` is called, and `stop` closes sockets, timers and the database
+ * again, so several boards can run side by side, e.g. in tests. Throws
+ * SchemaTooNewError for a database written by newer code.
+ */
+export function createUniBoardServer({
+  databasePath = DATABASE_FILE,
+  port = 3000,
+  host = "0.0.0.0",
+  vite: useVite = false,
+  uploadDir = "uploads",
+  admin,
+  trustProxy = false,
+  appUrl
+}: UniBoardServerOptions = {}) {
+  const db = new Database(databasePath);
+  // Bring the schema up to date before any store reads it
+  try {
+    for (const migration of migrate(db)) {
+      console.log(`Applied database migration ${migration.version} (${migration.name})`);
+    }
+  } catch (err) {
+    db.close();
+    throw err;
+  }
+
+  const attachments = createAttachmentStore(db, uploadDir);
+  const notices = createNoticeStore(db, attachments);
+  const auth = createAuth(db);
+  const eventLog = createEventLog(db);
+  const displayProfiles = createDisplayProfileStore(db);
+  const emergencies = createEmergencyStore(db);
+  const audit = createAuditLog(db);
+  const analytics = createAnalyticsStore(db);
+  const categories = createCategoryStore(db);
+  const priorities = createPriorityStore(db);
+  const boards = createBoardStore(db);
+  auth.ensureBootstrapAdmin(admin?.username, admin?.password);
+
+  const app = express();
+  // Only the nearest proxy is trusted, so addresses a client adds to the headers are passed over
+  app.set("trust proxy", trustProxy ? 1 : false);
+  const server = createServer(app);
+
+  // Browsers send the origin of the page opening a socket, and the session
+  // cookie along with it, so a page on another site could act as whoever is
+  // signed in. Clients that are not browsers send no origin and no such cookie.
+  const fromOwnPage = (req: IncomingMessage): boolean => {
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    try {
+      return appUrl ? new URL(origin).origin === new URL(appUrl).origin : new URL(origin).host === req.headers.host;
+    } catch {
+      return false;
+    }
+  };
+  const wss = new WebSocketServer({
+    server,
+    maxPayload: MAX_PAYLOAD_BYTES,
+    verifyClient: ({ req }, done) => done(fromOwnPage(req), 403, "Forbidden"),
+  });
+
+  // WebSocket logic
+  const clients = new Map<WebSocket, ClientInfo>();
+
+  // Every broadcast is numbered by the event log so reconnecting clients can
+  // ask for just the events they missed.
+  const broadcast: Broadcast = (event, audience = "all", boardId) => {
+    const seq = eventLog.append(event, audience, boardId);
+    wss.clients.forEach((client) => {
+      const info = clients.get(client);
+      const tailored = info && eventFor(info, event, audience, boardId);
+      if (client.readyState === WebSocket.OPEN && tailored) {
+        client.send(JSON.stringify({ ...tailored, seq }));
+      }
+    });
+  };
+
+  // Drop connections that stopped answering pings, e.g. after a network drop
+  const alive = new WeakSet<WebSocket>();
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client) => {
+      if (!alive.has(client)) {
+        client.terminate();
+        return;
+      }
+      alive.delete(client);
+      client.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  const scheduler = startNoticeScheduler(notices, broadcast);
+  scheduler.publishNow();
+  scheduler.archiveNow();
+
+  // Staff watch the list of screens fill in while an emergency alert is up
+  const displays = createDisplayRegistry();
+  const broadcastReceipts = () => {
+    const alert = emergencies.active();
+    if (alert) {
+      broadcast({ type: "EMERGENCY_RECEIPTS", alertId: alert.id, displays: displays.receipts(emergencies, alert.id) }, "managers");
+    }
+  };
+
+  const handleEvent = createEventHandler({
+    notices,
+    boards,
+    categories,
+    priorities,
+    broadcast,
+    archiveExpired: scheduler.archiveNow,
+    emergencies,
+    broadcastReceipts,
+    audit,
+    analytics
+  });
+
+  wss.on("connection", (ws, req) => {
+    // The session cookie travels with the upgrade request, so the user is
+    // resolved once here and every event on this socket runs as them.
+    const user: User | null = auth.getRequestUser(req);
+    const ip = clientIp(req, trustProxy);
+    console.log(user ? `Client connected as ${user.username} (${user.role})` : "Client connected");
+    const reply = (event: ServerMessage) => ws.send(JSON.stringify(event));
+    const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+
+    // Clients name their board and the audiences they follow when connecting,
+    // e.g. ?board=engineering&year=2; without a board they follow the default one
+    let board: Board;
+    let following: NoticeAudience | undefined;
+    try {
+      board = boards.resolve(params.get("board") || undefined);
+      following = parseAudienceFilter(Object.fromEntries(params));
+    } catch (err) {
+      const error = toAppError(err);
+      reply({ type: 'ERROR', code: error.code, message: error.message });
+      ws.close(1008, error.code === "not_found" ? "Unknown board" : "Invalid audience");
+      return;
+    }
+    const client: ClientInfo = { user, board, following };
+    const isStaff = canManageBoard(user, board.id);
+
+    clients.set(ws, client);
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+
+    // Public screens and kiosks identify themselves so emergency receipts can
+    // be tracked per screen. Staff sessions are not counted as displays.
+    const display = canManageNotices(user) ? null : parseDisplayInfo(params);
+    if (display) {
+      displays.connect(display);
+      broadcastReceipts();
+    }
+
+    ws.on("close", () => {
+      clients.delete(ws);
+      if (display) {
+        displays.disconnect(display);
+        broadcastReceipts();
+      }
+    });
+    // Oversized frames (see maxPayload) surface here; ws closes the socket itself.
+    ws.on("error", (err) => console.warn("WS Error:", err.message));
+
+    // A reconnecting client passes the last sequence number it saw. Replay
+    // what it missed if the log still has all of it, otherwise start over.
+    const since = Number(params.get("since"));
+    const missed = params.has("since") && Number.isInteger(since) && since >= 0 ? eventLog.since(since) : null;
+
+    if (missed) {
+      const replay = missed.flatMap(({ seq, event, audience, boardId }) => {
+        const tailored = eventFor(client, event, audience, boardId);
+        return tailored ? [{ ...tailored, seq }] : [];
+      });
+      replay.forEach(reply);
+      reply({ type: 'RESUMED', seq: eventLog.head(), replayed: replay.length });
+    } else {
+      const activeAlert = emergencies.active();
+      const { notices: firstPage, nextCursor } = notices.query(board.id, {
+        audience: isStaff ? undefined : following,
+        limit: INITIAL_PAGE_SIZE
+      });
+      reply({
+        type: 'INITIAL_STATE',
+        seq: eventLog.head(),
+        board,
+        notices: firstPage,
+        nextCursor,
+        categories: categories.list(),
+        priorities: priorities.list(),
+        scheduled: isStaff ? notices.listUnpublished(board.id) : undefined,
+        emergency: activeAlert,
+        receipts: activeAlert && isStaff ? displays.receipts(emergencies, activeAlert.id) : undefined
+      });
+    }
+
+    ws.on("message", (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        reply({ type: 'ERROR', code: 'invalid_request', message: "Message is not valid JSON" });
+        return;
+      }
+
+      const requestId = peekRequestId(message);
+      try {
+        const event = parseClientEvent(message);
+        const notice = handleEvent(user, event, { board, ip, display });
+        if (requestId) {
+          reply({ type: 'ACK', requestId, notice });
+        }
+      } catch (err) {
+        const error = toAppError(err);
+        console.warn(`Rejected message from ${user?.username ?? "anonymous client"}: ${error.message}`);
+        reply({ type: 'ERROR', requestId, code: error.code, message: error.message });
+      }
+    });
+  });
+
+  // API Routes
+  // The backup routes parse their own, much larger, request bodies, so they
+  // are mounted ahead of the default JSON parser.
+  app.use("/api", createBackupRouter(notices, categories, priorities, auth, broadcast, audit));
+  app.use(express.json({ limit: MAX_PAYLOAD_BYTES }));
+
+  app.get("/api/health", (req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  app.use("/api", createAuthRouter(auth, audit));
+
+  app.use("/api", createNoticeRouter(notices, boards, auth, handleEvent));
+  app.use("/api", createBoardRouter(boards, auth, broadcast, audit));
+  app.use("/api", createCategoryRouter(categories, auth, broadcast, audit));
+  app.use("/api", createPriorityRouter(priorities, auth, broadcast, audit));
+  app.use("/api", createAuditRouter(audit, auth));
+  app.use("/api", createAnalyticsRouter(analytics, boards, auth));
+  app.use("/api", createAttachmentRouter(attachments, notices, auth));
+  app.use("/api", createDisplayProfileRouter(displayProfiles, categories, auth, broadcast, audit));
+  app.use("/api", (req, res, next) => next(new AppError("not_found", "Not found")));
+  app.use("/api", errorHandler);
+
+  const siteUrl = () =>
+    (appUrl || `http://localhost:${(server.address() as AddressInfo | null)?.port ?? port}`).replace(/\/+$/, "");
+  app.use("/feeds", createFeedRouter(notices, categories, boards, siteUrl));
+  app.use("/feeds", (req, res, next) => next(new AppError("not_found", "Feed not found")));
+  app.use("/feeds", errorHandler);
+
+
+  let vite: ViteDevServer | undefined;
+  let started: Promise<AddressInfo> | undefined;
+
+  /** Attaches the client and starts listening; resolves with the address once the board is reachable. */
+  const start = (): Promise<AddressInfo> => {
+    started ??= (async () => {
+      if (useVite) {
+        vite = await createViteServer({
+          server: { middlewareMode: true },
+          appType: "spa",
+        });
+        app.use(vite.middlewares);
+      } else {
+        app.use(express.static(path.join(process.cwd(), "dist")));
+        app.get("*", (req, res) => {
+          res.sendFile(path.join(process.cwd(), "dist", "index.html"));
+        });
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, host, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+      return server.address() as AddressInfo;
+    })();
+    return started;
+  };
+
+  /** Disconnects every client, stops the timers and closes the database. */
+  const stop = async () => {
+    scheduler.stop();
+    wss.clients.forEach(client => client.terminate());
+    await new Promise<void>(resolve => wss.close(() => resolve()));
+    if (server.listening) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()));
+    }
+    await vite?.close();
+    db.close();
+  };
+
+  return { app, server, db, start, stop };
+}
+
+export type UniBoardServer = ReturnType<typeof createUniBoardServer>;
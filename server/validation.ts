@@ -0,0 +1,437 @@
+import {
+  ArchiveReason,
+  ATTACHMENT_LIMITS,
+  AUDIENCE_LIMITS,
+  BACKUP_FORMAT,
+  CATEGORY_LIMITS,
+  BACKUP_VERSION,
+  BULK_LIMIT,
+  ClientEvent,
+  EmergencyAlertInput,
+  EMERGENCY_LIMITS,
+  IMPRESSION_LIMITS,
+  Notice,
+  NoticeAudience,
+  NoticeBulkAction,
+  NoticeImpressions,
+  NoticeInput,
+  NOTICE_LIMITS,
+  NOTICE_STATUSES,
+  NoticeStatus,
+  PRIORITY_LIMITS,
+  ReviewDecision,
+  YEARS_OF_STUDY
+} from "../src/types";
+import { AUDIENCE_FIELDS, normalizeAudience } from "../src/lib/audience";
+import { DEFAULT_BOARD_ID } from "./boards";
+import { AppError } from "./errors";
+import type { BackupContents } from "./notices";
+
+/** Largest WebSocket message or JSON request body the server will accept. */
+export const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+const MAX_REQUEST_ID_LENGTH = 64;
+
+function invalid(message: string): never {
+  throw new AppError("invalid_request", message);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireString(input: Record<string, unknown>, field: string, maxLength: number): string {
+  const value = input[field];
+  if (typeof value !== "string" || !value.trim()) {
+    invalid(`${field} is required`);
+  }
+  if (value.length > maxLength) {
+    invalid(`${field} must be at most ${maxLength} characters`);
+  }
+  return value.trim();
+}
+
+function optionalString(input: Record<string, unknown>, field: string, maxLength: number): string | undefined {
+  const value = input[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") invalid(`${field} must be text`);
+  if (value.length > maxLength) {
+    invalid(`${field} must be at most ${maxLength} characters`);
+  }
+  return value.trim() || undefined;
+}
+
+function requireOneOf<T extends string>(input: Record<string, unknown>, field: string, allowed: readonly T[]): T {
+  const value = input[field];
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    invalid(`${field} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+const SQLITE_TIMESTAMP = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+function optionalDate(input: Record<string, unknown>, field: string): string | undefined {
+  const value = input[field];
+  if (value === undefined || value === null || value === "") return undefined;
+  // Backups from before createdAt was stored as ISO carry SQLite's UTC timestamps
+  const date = typeof value === "string" ? new Date(SQLITE_TIMESTAMP.test(value) ? `${value.replace(" ", "T")}Z` : value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    invalid(`${field} must be an ISO date`);
+  }
+  return date.toISOString();
+}
+
+function requireDate(input: Record<string, unknown>, field: string): string {
+  return optionalDate(input, field) ?? invalid(`${field} is required`);
+}
+
+function requireId(input: Record<string, unknown>, field = "id"): number {
+  const value = input[field];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    invalid(`${field} must be a positive integer`);
+  }
+  return value;
+}
+
+function optionalId(input: Record<string, unknown>, field: string): number | undefined {
+  return input[field] === undefined || input[field] === null ? undefined : requireId(input, field);
+}
+
+/**
+ * A `category` query parameter. Categories are managed on the board, so an
+ * unknown name is not an error; it simply matches nothing.
+ */
+export function categoryParam(value: unknown): Notice["category"][] {
+  const category = listParam(value);
+  const tooLong = category.find(c => c.length > CATEGORY_LIMITS.name);
+  if (tooLong) {
+    invalid(`category names are at most ${CATEGORY_LIMITS.name} characters`);
+  }
+  return category;
+}
+
+/** A `priority` query parameter; like categories, priorities are managed on the board. */
+export function priorityParam(value: unknown): Notice["priority"][] {
+  const priority = listParam(value);
+  const tooLong = priority.find(p => p.length > PRIORITY_LIMITS.name);
+  if (tooLong) {
+    invalid(`priority names are at most ${PRIORITY_LIMITS.name} characters`);
+  }
+  return priority;
+}
+
+/** A query parameter holding a date, as an ISO string. */
+export function dateParam(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === "") return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    invalid(`${name} must be a valid date`);
+  }
+  return date.toISOString();
+}
+
+/** A query parameter that may be repeated and/or comma-separated, as a flat list. */
+export function listParam(value: unknown): string[] {
+  if (value === undefined) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(v => String(v).split(",")).map(v => v.trim()).filter(Boolean);
+}
+
+function checkAudienceValues(field: string, values: unknown[], isYear: boolean): void {
+  if (values.length > AUDIENCE_LIMITS.valuesPerField) {
+    invalid(`${field} can list at most ${AUDIENCE_LIMITS.valuesPerField} values`);
+  }
+  for (const value of values) {
+    if (isYear) {
+      if (!YEARS_OF_STUDY.includes(value as number)) {
+        invalid(`${field} must be between ${YEARS_OF_STUDY[0]} and ${YEARS_OF_STUDY[YEARS_OF_STUDY.length - 1]}`);
+      }
+    } else if (typeof value !== "string" || !value.trim() || value.length > AUDIENCE_LIMITS.value || value.includes(",")) {
+      invalid(`${field} values must be non-empty text of at most ${AUDIENCE_LIMITS.value} characters, without commas`);
+    }
+  }
+}
+
+function optionalAudience(input: Record<string, unknown>): NoticeAudience | undefined {
+  const value = input.audience;
+  if (value === undefined || value === null) return undefined;
+  if (!isObject(value)) invalid("audience must be an object");
+
+  const audience: Record<string, unknown[]> = {};
+  for (const { field } of AUDIENCE_FIELDS) {
+    const values = value[field];
+    if (values === undefined || values === null) continue;
+    if (!Array.isArray(values)) invalid(`audience.${field} must be a list`);
+    checkAudienceValues(`audience.${field}`, values, field === "years");
+    audience[field] = values.map(v => typeof v === "string" ? v.trim() : v);
+  }
+  return normalizeAudience(audience as NoticeAudience);
+}
+
+function optionalAttachmentIds(input: Record<string, unknown>): number[] | undefined {
+  const value = input.attachmentIds;
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) invalid("attachmentIds must be a list");
+  if (value.length > ATTACHMENT_LIMITS.perNotice) {
+    invalid(`A notice can have at most ${ATTACHMENT_LIMITS.perNotice} attachments`);
+  }
+  if (value.some(id => typeof id !== "number" || !Number.isInteger(id) || id < 1)) {
+    invalid("attachmentIds must be a list of positive integers");
+  }
+  return [...new Set(value as number[])];
+}
+
+/**
+ * Reads the audiences a client follows from query parameters such as
+ * `faculty=Engineering,Science&year=2`. Returns undefined when it follows everything.
+ */
+export function parseAudienceFilter(query: Record<string, unknown>): NoticeAudience | undefined {
+  const audience: Record<string, unknown[]> = {};
+  for (const { field, param } of AUDIENCE_FIELDS) {
+    const values: unknown[] = field === "years" ? listParam(query[param]).map(Number) : listParam(query[param]);
+    checkAudienceValues(param, values, field === "years");
+    audience[field] = values;
+  }
+  return normalizeAudience(audience as NoticeAudience);
+}
+
+/**
+ * Checks a notice payload against the Notice unions and size limits, returning
+ * a normalized copy. Whether the category and priority exist is checked
+ * against their stores by the caller.
+ */
+export function parseNoticeInput(value: unknown): NoticeInput {
+  if (!isObject(value)) invalid("notice must be an object");
+
+  const input: NoticeInput = {
+    title: requireString(value, "title", NOTICE_LIMITS.title),
+    content: requireString(value, "content", NOTICE_LIMITS.content),
+    category: requireString(value, "category", CATEGORY_LIMITS.name),
+    priority: requireString(value, "priority", PRIORITY_LIMITS.name),
+    author: requireString(value, "author", NOTICE_LIMITS.author),
+    expiresAt: optionalDate(value, "expiresAt"),
+    publishAt: optionalDate(value, "publishAt"),
+    audience: optionalAudience(value),
+    eventStart: optionalDate(value, "eventStart"),
+    eventEnd: optionalDate(value, "eventEnd"),
+    location: optionalString(value, "location", NOTICE_LIMITS.location),
+    attachmentIds: optionalAttachmentIds(value),
+  };
+
+  if (input.expiresAt && input.publishAt && input.expiresAt <= input.publishAt) {
+    invalid("expiresAt must be after publishAt");
+  }
+  if (input.eventEnd && !input.eventStart) {
+    invalid("eventEnd needs an eventStart");
+  }
+  if (input.eventStart && input.eventEnd && input.eventEnd < input.eventStart) {
+    invalid("eventEnd must not be before eventStart");
+  }
+  return input;
+}
+
+export function parseEmergencyInput(value: unknown): EmergencyAlertInput {
+  if (!isObject(value)) invalid("alert must be an object");
+  return {
+    title: requireString(value, "title", EMERGENCY_LIMITS.title),
+    message: requireString(value, "message", EMERGENCY_LIMITS.message),
+    sound: value.sound === true,
+  };
+}
+
+/** An approve or reject decision; rejecting needs a reason for the poster. */
+export function parseReview(value: unknown): { decision: ReviewDecision, reason?: string } {
+  if (!isObject(value)) invalid("review must be an object");
+  const decision = requireOneOf<ReviewDecision>(value, "decision", ["approve", "reject"]);
+  return decision === "reject"
+    ? { decision, reason: requireString(value, "reason", NOTICE_LIMITS.rejectionReason) }
+    : { decision };
+}
+
+/** Distinct notice ids, e.g. the rows picked for a bulk change. */
+function parseIds(value: unknown, field: string): number[] {
+  if (!Array.isArray(value) || value.length === 0) invalid(`${field} must be a non-empty list`);
+  if (value.length > BULK_LIMIT) invalid(`${field} can name at most ${BULK_LIMIT} notices`);
+  if (!value.every(id => Number.isInteger(id) && id > 0)) invalid(`${field} must hold positive integers`);
+  return [...new Set(value as number[])];
+}
+
+/** The boards a new notice is cross-posted to; whether they exist is checked by the caller. */
+function parseBoardIds(value: unknown): number[] {
+  if (!Array.isArray(value) || !value.every(id => Number.isInteger(id) && id > 0)) {
+    invalid("crossPost must be a list of board ids");
+  }
+  return [...new Set(value as number[])];
+}
+
+function parseBulkAction(value: unknown): NoticeBulkAction {
+  if (!isObject(value)) invalid("action must be an object");
+  const kind = requireOneOf<NoticeBulkAction["kind"]>(value, "kind", ["delete", "archive", "category", "priority"]);
+  switch (kind) {
+    case "category":
+      return { kind, category: requireString(value, "category", CATEGORY_LIMITS.name) };
+    case "priority":
+      return { kind, priority: requireString(value, "priority", PRIORITY_LIMITS.name) };
+    default:
+      return { kind };
+  }
+}
+
+/** Parses each entry of a list, naming the failing entry (e.g. `notices[3]: title is required`) in errors. */
+function parseEach<T>(value: unknown, field: string, parse: (entry: Record<string, unknown>) => T): T[] {
+  if (!Array.isArray(value)) invalid(`${field} must be a list`);
+  return value.map((entry, i) => {
+    try {
+      if (!isObject(entry)) invalid("must be an object");
+      return parse(entry);
+    } catch (err) {
+      if (err instanceof AppError) invalid(`${field}[${i}]: ${err.message}`);
+      throw err;
+    }
+  });
+}
+
+/**
+ * Validates an uploaded JSON backup. Every notice, archived notice and
+ * revision is checked like a new notice would be, ids must be unique across
+ * the file and each revision must belong to a notice in it.
+ */
+export function parseBackup(value: unknown): BackupContents {
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+    invalid("File is not a UniBoard backup");
+  }
+  if (value.version !== BACKUP_VERSION && value.version !== 1) {
+    invalid(`Backup version ${String(value.version)} is not supported`);
+  }
+  const version = value.version;
+
+  const reviewFields = (entry: Record<string, unknown>) => ({
+    status: version === 1 ? "approved" : requireOneOf<NoticeStatus>(entry, "status", NOTICE_STATUSES),
+    rejectionReason: optionalString(entry, "rejectionReason", NOTICE_LIMITS.rejectionReason),
+    reviewedBy: optionalId(entry, "reviewedBy"),
+    reviewedAt: optionalDate(entry, "reviewedAt"),
+  });
+
+  const notices = parseEach(value.notices, "notices", entry => ({
+    ...parseNoticeInput(entry),
+    ...reviewFields(entry),
+    id: requireId(entry),
+    boardId: optionalId(entry, "boardId") ?? DEFAULT_BOARD_ID,
+    createdAt: requireDate(entry, "createdAt"),
+    createdBy: optionalId(entry, "createdBy"),
+  }));
+  const archived = value.archived === undefined ? undefined : parseEach(value.archived, "archived", entry => ({
+    ...parseNoticeInput(entry),
+    ...reviewFields(entry),
+    id: requireId(entry),
+    boardId: optionalId(entry, "boardId") ?? DEFAULT_BOARD_ID,
+    createdAt: requireDate(entry, "createdAt"),
+    createdBy: optionalId(entry, "createdBy"),
+    archivedAt: requireDate(entry, "archivedAt"),
+    archivedBy: optionalId(entry, "archivedBy"),
+    archiveReason: requireOneOf<ArchiveReason>(entry, "archiveReason", ["expired", "manual"]),
+  }));
+  const revisions = value.revisions === undefined ? undefined : parseEach(value.revisions, "revisions", entry => ({
+    ...parseNoticeInput(entry),
+    id: requireId(entry),
+    noticeId: requireId(entry, "noticeId"),
+    revision: requireId(entry, "revision"),
+    editedBy: optionalId(entry, "editedBy"),
+    editedAt: requireDate(entry, "editedAt"),
+  }));
+
+  const ids = new Set<number>();
+  for (const { id } of [...notices, ...(archived ?? [])]) {
+    if (ids.has(id)) invalid(`Notice ${id} appears more than once`);
+    ids.add(id);
+  }
+  const revisionKeys = new Set<string>();
+  for (const { noticeId, revision } of revisions ?? []) {
+    if (!ids.has(noticeId)) invalid(`Revision ${revision} belongs to notice ${noticeId}, which is not in the backup`);
+    const key = `${noticeId}:${revision}`;
+    if (revisionKeys.has(key)) invalid(`Revision ${revision} of notice ${noticeId} appears more than once`);
+    revisionKeys.add(key);
+  }
+
+  return { notices, archived, revisions };
+}
+
+function requireCount(input: Record<string, unknown>, field: string, max: number): number {
+  const value = input[field] ?? 0;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > max) {
+    invalid(`${field} must be a number between 0 and ${max}`);
+  }
+  return value;
+}
+
+function parseImpressions(value: unknown): NoticeImpressions[] {
+  if (!Array.isArray(value)) invalid("impressions must be a list");
+  if (value.length > IMPRESSION_LIMITS.noticesPerReport) {
+    invalid(`impressions can cover at most ${IMPRESSION_LIMITS.noticesPerReport} notices`);
+  }
+  return value.map(entry => {
+    if (!isObject(entry)) invalid("Each impression must be an object");
+    return {
+      noticeId: requireId(entry, "noticeId"),
+      views: Math.floor(requireCount(entry, "views", IMPRESSION_LIMITS.countPerReport)),
+      expands: Math.floor(requireCount(entry, "expands", IMPRESSION_LIMITS.countPerReport)),
+      dwellSeconds: requireCount(entry, "dwellSeconds", IMPRESSION_LIMITS.dwellSecondsPerReport),
+    };
+  });
+}
+
+/** Validates an untrusted, already JSON-parsed WebSocket message as a ClientEvent. */
+export function parseClientEvent(value: unknown): ClientEvent {
+  if (!isObject(value)) invalid("Message must be a JSON object");
+
+  const { requestId } = value;
+  if (requestId !== undefined && (typeof requestId !== "string" || requestId.length > MAX_REQUEST_ID_LENGTH)) {
+    invalid(`requestId must be a string of at most ${MAX_REQUEST_ID_LENGTH} characters`);
+  }
+  const base = typeof requestId === "string" ? { requestId } : {};
+
+  switch (value.type) {
+    case "ADD_NOTICE":
+      return {
+        ...base,
+        type: "ADD_NOTICE",
+        notice: parseNoticeInput(value.notice),
+        draft: value.draft === true,
+        crossPost: value.crossPost === undefined ? undefined : parseBoardIds(value.crossPost),
+      };
+    case "UPDATE_NOTICE":
+      return { ...base, type: "UPDATE_NOTICE", id: requireId(value), notice: parseNoticeInput(value.notice), draft: value.draft === true };
+    case "REVIEW_NOTICE":
+      return { ...base, type: "REVIEW_NOTICE", id: requireId(value), ...parseReview(value) };
+    case "DELETE_NOTICE":
+      return { ...base, type: "DELETE_NOTICE", id: requireId(value) };
+    case "BULK_UPDATE_NOTICES":
+      return { ...base, type: "BULK_UPDATE_NOTICES", ids: parseIds(value.ids, "ids"), action: parseBulkAction(value.action) };
+    case "PIN_NOTICE":
+      if (typeof value.pinned !== "boolean") invalid("pinned must be true or false");
+      return { ...base, type: "PIN_NOTICE", id: requireId(value), pinned: value.pinned };
+    case "REORDER_PINNED":
+      return { ...base, type: "REORDER_PINNED", ids: parseIds(value.ids, "ids") };
+    case "PURGE_EXPIRED":
+      return { ...base, type: "PURGE_EXPIRED" };
+    case "RESTORE_ARCHIVED":
+      return { ...base, type: "RESTORE_ARCHIVED", id: requireId(value) };
+    case "ISSUE_EMERGENCY":
+      return { ...base, type: "ISSUE_EMERGENCY", alert: parseEmergencyInput(value.alert) };
+    case "ACK_EMERGENCY":
+      return { ...base, type: "ACK_EMERGENCY", alertId: requireId(value, "alertId") };
+    case "CLEAR_EMERGENCY":
+      return { ...base, type: "CLEAR_EMERGENCY" };
+    case "RECORD_IMPRESSIONS":
+      return { ...base, type: "RECORD_IMPRESSIONS", impressions: parseImpressions(value.impressions) };
+    default:
+      return invalid(`Unknown event type: ${String(value.type)}`);
+  }
+}
+
+/** The `requestId` of a message, if it carries a usable one, so even rejected messages can be answered. */
+export function peekRequestId(value: unknown): string | undefined {
+  if (!isObject(value) || typeof value.requestId !== "string") return undefined;
+  return value.requestId.slice(0, MAX_REQUEST_ID_LENGTH);
+}
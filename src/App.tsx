@@ -3,148 +3,671 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
-  Bell, 
   Calendar, 
   Clock, 
   Plus, 
-  Trash2, 
+  Pin,
+  Archive,
   LayoutDashboard, 
   Monitor, 
   Filter, 
   Search,
-  AlertCircle,
-  BookOpen,
-  Trophy,
   FileText,
   User,
   ChevronRight,
   Settings,
+  Download,
+  LayoutGrid,
+  CalendarDays,
+  MapPin,
+  LogOut,
+  BarChart3,
+  ScrollText,
+  Users,
   X
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { Notice, NoticeInput, ServerEvent, ClientEvent } from './types';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
+import {
+  Attachment,
+  Notice,
+  NoticeInput,
+  NoticeRevision,
+  NoticeHighlight,
+  NoticePage,
+  ServerMessage,
+  ClientEvent,
+  Board,
+  DisplayReceipt,
+  EmergencyAlert,
+  EmergencyAlertInput,
+  NoticeAudience,
+  NoticeBulkAction,
+  NoticeCategory,
+  NoticePriority,
+  NOTICE_LIMITS,
+  User as SessionUser
+} from './types';
+import { canAccessBoard, canManageBoard, canManageNotices, hasPermission, ROLE_LABELS } from './permissions';
+import { cn, fromDateTimeLocal, toDateTimeLocal } from './lib/utils';
+import { applyNoticeChanges, bulkMessage, formatEventTime, noticeTime, savedMessage, sortBySchedule, sortForBoard, toNoticeInput, upsertNotice } from './lib/notices';
+import { describeAudience, matchesAudience } from './lib/audience';
+import { api } from './lib/api';
+import { boardPath, parseBoardLocation } from './lib/boards';
+import { defaultPriority, priorityCardClass } from './lib/priorities';
+import { offlineStore } from './lib/offlineStore';
+import { clearAttachmentCache, forgetAttachments } from './lib/attachmentCache';
+import { LoginPanel } from './components/LoginPanel';
+import { UserManagement } from './components/UserManagement';
+import { RevisionHistoryModal } from './components/RevisionHistoryModal';
+import { ArchiveModal } from './components/ArchiveModal';
+import { BoardSettingsModal } from './components/BoardSettingsModal';
+import { BoardsModal } from './components/BoardsModal';
+import { BoardBrand } from './components/BoardBrand';
+import { BackupModal } from './components/BackupModal';
+import { AuditLogModal } from './components/AuditLogModal';
+import { EngagementModal } from './components/EngagementModal';
+import { CalendarView } from './components/CalendarView';
+import { CategoryIcon } from './components/CategoryIcon';
+import { EmergencyOverlay, EmergencyPanel } from './components/Emergency';
+import { AudienceFields } from './components/AudienceFields';
+import { Highlighted } from './components/Highlighted';
+import { AttachmentList, AttachmentPicker } from './components/Attachments';
+import { Markdown } from './components/Markdown';
+import { NoticeDetailModal } from './components/NoticeDetailModal';
+import { ScheduledNotices } from './components/ScheduledNotices';
+import { NoticeTable } from './components/NoticeTable';
+import { ReviewQueue } from './components/ReviewQueue';
+import { MySubmissions } from './components/MySubmissions';
+import { OfflineQueue } from './components/OfflineQueue';
+import { Toast, Toasts } from './components/Toasts';
+import { ConnectionIndicator, ConnectionLostBanner } from './components/ConnectionStatus';
+import { useBoardSocket } from './hooks/useBoardSocket';
+import { useBoardCache } from './hooks/useBoardCache';
+import { useOfflineQueue } from './hooks/useOfflineQueue';
+import { useNoticeSearch } from './hooks/useNoticeSearch';
+import { ImpressionTracker, useImpressions, useTrackImpression } from './hooks/useImpressions';
 
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
+const TOAST_DURATION_MS = 4000;
+const FOLLOWING_KEY = 'uniboard-following';
+const SESSION_KEY = 'session';
+
+function loadFollowing(): NoticeAudience | undefined {
+  try {
+    return JSON.parse(localStorage.getItem(FOLLOWING_KEY) ?? 'null') ?? undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 export default function App() {
+  // The board this page shows, from /b/<slug>; null on the default board at /
+  const [location] = useState(() => parseBoardLocation(window.location.pathname));
+  const slug = location.slug;
+  const [board, setBoard] = useState<Board | null>(null);
+  const [boards, setBoards] = useState<Board[]>([]);
+  // Set when the server knows no board at this address
+  const [boardMissing, setBoardMissing] = useState(false);
   const [notices, setNotices] = useState<Notice[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [scheduled, setScheduled] = useState<Notice[]>([]);
+  const [categories, setCategories] = useState<NoticeCategory[]>([]);
+  const [priorities, setPriorities] = useState<NoticePriority[]>([]);
   const [view, setView] = useState<'public' | 'admin'>('public');
   const [filter, setFilter] = useState<Notice['category'] | 'All'>('All');
   const [search, setSearch] = useState('');
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
-  const socketRef = useRef<WebSocket | null>(null);
+  const [editingNotice, setEditingNotice] = useState<Notice | null>(null);
+  const [historyNoticeId, setHistoryNoticeId] = useState<number | null>(null);
+  const [openNotice, setOpenNotice] = useState<Notice | null>(null);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isBoardsOpen, setIsBoardsOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isAuditOpen, setIsAuditOpen] = useState(false);
+  const [isEngagementOpen, setIsEngagementOpen] = useState(false);
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  // Set when the server could not be reached and the last known session stands in
+  const [sessionCached, setSessionCached] = useState(false);
+  // Set once the server's INITIAL_STATE replaces any copy saved for offline use
+  const [live, setLive] = useState(false);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [emergency, setEmergency] = useState<EmergencyAlert | null>(null);
+  const [receipts, setReceipts] = useState<DisplayReceipt[]>([]);
+  const [following, setFollowing] = useState<NoticeAudience | undefined>(loadFollowing);
+  const nextToastIdRef = useRef(0);
 
-  useEffect(() => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const socket = new WebSocket(`${protocol}//${window.location.host}`);
-    socketRef.current = socket;
-
-    socket.onmessage = (event) => {
-      const data = JSON.parse(event.data) as ServerEvent;
-      switch (data.type) {
-        case 'INITIAL_STATE':
-          setNotices(data.notices);
-          break;
-        case 'NOTICE_ADDED':
-          setNotices(prev => [data.notice, ...prev]);
-          break;
-        case 'NOTICE_DELETED':
-          setNotices(prev => prev.filter(n => n.id !== data.id));
-          break;
+  const notify = (kind: Toast['kind'], message: string) => {
+    const id = ++nextToastIdRef.current;
+    setToasts(prev => [...prev, { id, kind, message }]);
+    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), TOAST_DURATION_MS);
+  };
+
+  // Files of notices taken off the board should not outlive them offline
+  const forgetFilesOf = (ids: number[]) => {
+    forgetAttachments([...notices, ...scheduled].filter(n => ids.includes(n.id))).catch(() => undefined);
+  };
+
+  const handleServerEvent = (data: ServerMessage) => {
+    switch (data.type) {
+      case 'INITIAL_STATE':
+        setBoard(data.board);
+        setNotices(data.notices);
+        setNextCursor(data.nextCursor);
+        setScheduled(data.scheduled ?? []);
+        setCategories(data.categories);
+        setPriorities(data.priorities);
+        setEmergency(data.emergency ?? null);
+        setReceipts(data.receipts ?? []);
+        setLive(true);
+        break;
+      case 'NOTICE_ADDED':
+        setNotices(prev => upsertNotice(prev, data.notice));
+        setScheduled(prev => prev.filter(n => n.id !== data.notice.id));
+        break;
+      case 'NOTICE_SCHEDULED':
+        setScheduled(prev => sortBySchedule([data.notice, ...prev.filter(n => n.id !== data.notice.id)]));
+        break;
+      case 'NOTICE_UPDATED':
+        setNotices(prev => upsertNotice(prev, data.notice));
+        break;
+      case 'NOTICE_DELETED':
+        forgetFilesOf([data.id]);
+        setNotices(prev => prev.filter(n => n.id !== data.id));
+        setScheduled(prev => prev.filter(n => n.id !== data.id));
+        break;
+      case 'NOTICES_ARCHIVED':
+        forgetFilesOf(data.ids);
+        setNotices(prev => prev.filter(n => !data.ids.includes(n.id)));
+        setScheduled(prev => prev.filter(n => !data.ids.includes(n.id)));
+        break;
+      case 'NOTICES_CHANGED':
+        forgetFilesOf(data.removed);
+        setNotices(prev => applyNoticeChanges(prev, data.updated, data.removed));
+        setScheduled(prev => prev.filter(n => !data.removed.includes(n.id)));
+        break;
+      case 'CATEGORIES_UPDATED': {
+        // The server has already refiled the notices; follow suit locally
+        const { categories, renamed } = data;
+        setCategories(categories);
+        if (renamed) {
+          const refile = (list: Notice[]) => list.map(n => n.category === renamed.from ? { ...n, category: renamed.to } : n);
+          setNotices(refile);
+          setScheduled(refile);
+        }
+        setFilter(prev => prev === renamed?.from ? renamed.to
+          : prev === 'All' || categories.some(c => c.name === prev) ? prev : 'All');
+        break;
+      }
+      case 'PRIORITIES_UPDATED': {
+        const { priorities, renamed } = data;
+        setPriorities(priorities);
+        if (renamed) {
+          const refile = (list: Notice[]) => list.map(n => n.priority === renamed.from ? { ...n, priority: renamed.to } : n);
+          setNotices(refile);
+          setScheduled(refile);
+        }
+        break;
       }
-    };
+      case 'EMERGENCY_OVERRIDE':
+        setEmergency(data.alert);
+        setReceipts([]);
+        break;
+      case 'EMERGENCY_RECEIPTS':
+        setReceipts(data.displays);
+        break;
+      case 'EMERGENCY_ALL_CLEAR':
+        setEmergency(prev => prev?.id === data.alertId ? null : prev);
+        setReceipts([]);
+        break;
+      case 'BOARD_UPDATED':
+        setBoard(data.board);
+        setBoards(prev => prev.map(b => b.id === data.board.id ? data.board : b));
+        // A new slug moves the board, so follow it to its new address
+        if (slug && data.board.slug !== slug) {
+          window.location.replace(boardPath(data.board.slug, location.path));
+        }
+        break;
+      case 'ERROR':
+        // Refused before the board was known: there is no board at this address
+        if (data.code === 'not_found' && !data.requestId) {
+          setBoardMissing(true);
+          break;
+        }
+        notify('error', data.message);
+        break;
+    }
+  };
+
+  // The server reads the session cookie during the WebSocket upgrade, so the
+  // socket is reopened whenever the signed-in user changes.
+  // Staff sessions are not public screens, so they are left out of emergency receipts.
+  // Staff of other boards see this one as the public does.
+  const isManager = board ? canManageBoard(user, board.id) : canManageNotices(user);
+  const { status: connectionStatus, retryAt, sendEvent, reconnectNow } = useBoardSocket({
+    enabled: authChecked && !boardMissing,
+    identity: user?.id,
+    board: slug,
+    displayLabel: isManager ? undefined : 'Public board',
+    following,
+    onEvent: handleServerEvent
+  });
+
+  // Tell the server this screen is showing the alert; repeated after a
+  // reconnect in case the first receipt was lost.
+  useEffect(() => {
+    if (!emergency || isManager || connectionStatus !== 'open') return;
+    sendEvent({ type: 'ACK_EMERGENCY', alertId: emergency.id }).catch(() => undefined);
+  }, [emergency?.id, isManager, connectionStatus]);
+
+  const impressions = useImpressions(sendEvent, !isManager);
+
+  const syncedAt = useBoardCache(slug ? `board:${slug}` : 'board', { notices, categories, priorities, live, status: connectionStatus }, snapshot => {
+    setNotices(snapshot.notices);
+    setCategories(snapshot.categories);
+    setPriorities(snapshot.priorities);
+  });
+
+  const offlineQueue = useOfflineQueue({
+    userId: user?.id,
+    board: slug,
+    connected: connectionStatus === 'open' && !sessionCached,
+    sendEvent,
+    onReplayed: (sent, conflicts) => {
+      if (sent) notify('success', `Sent ${sent === 1 ? '1 change' : `${sent} changes`} made while offline`);
+      if (conflicts) notify('error', `${conflicts === 1 ? '1 offline change needs' : `${conflicts} offline changes need`} your attention`);
+    }
+  });
+
+  const changeFollowing = (audience: NoticeAudience | undefined) => {
+    setFollowing(audience);
+    if (audience) {
+      localStorage.setItem(FOLLOWING_KEY, JSON.stringify(audience));
+    } else {
+      localStorage.removeItem(FOLLOWING_KEY);
+    }
+  };
+
+  // INITIAL_STATE only carries the newest page; older notices are fetched on demand.
+  const loadMoreNotices = () => {
+    if (!nextCursor) return;
+    api.queryNotices({ board: slug ?? undefined, cursor: nextCursor, audience: isManager ? undefined : following })
+      .then(page => {
+        setNotices(prev => sortForBoard([...prev, ...page.notices.filter(n => !prev.some(p => p.id === n.id))]));
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err: Error) => notify('error', err.message));
+  };
 
-    return () => socket.close();
+  const runAction = (event: ClientEvent, successMessage: string) => {
+    sendEvent(event)
+      .then(() => notify('success', successMessage))
+      .catch((err: Error) => notify('error', err.message));
+  };
+
+  // Offline, the session saved on the last visit keeps staff signed in so
+  // their queued changes stay in reach; the server confirms it on reconnect.
+  useEffect(() => {
+    api.me()
+      .then(({ user }) => setUser(user))
+      .catch(() => offlineStore.load<SessionUser>(SESSION_KEY).then(cached => {
+        setUser(cached ?? null);
+        setSessionCached(!!cached);
+      }))
+      .catch(() => setUser(null))
+      .finally(() => setAuthChecked(true));
   }, []);
 
-  const addNotice = (notice: NoticeInput) => {
-    socketRef.current?.send(JSON.stringify({ type: 'ADD_NOTICE', notice }));
+  useEffect(() => {
+    if (!authChecked || sessionCached) return;
+    (user ? offlineStore.save(SESSION_KEY, user) : offlineStore.forget(SESSION_KEY)).catch(() => undefined);
+  }, [user, authChecked, sessionCached]);
+
+  useEffect(() => {
+    if (!sessionCached || connectionStatus !== 'open') return;
+    api.me()
+      .then(({ user }) => {
+        setUser(user);
+        setSessionCached(false);
+      })
+      .catch(() => undefined);
+  }, [sessionCached, connectionStatus]);
+
+  const logout = async () => {
+    await api.logout().catch(() => undefined);
+    await clearAttachmentCache().catch(() => undefined);
+    setUser(null);
+  };
+
+  // Errors from the add and edit forms propagate so the modal can show them inline.
+  // Offline, new notices and deletions wait in the queue for the connection.
+  const addNotice = async (notice: NoticeInput, draft: boolean, crossPost: number[]) => {
+    const event: ClientEvent = { type: 'ADD_NOTICE', notice, draft, crossPost: crossPost.length ? crossPost : undefined };
+    if (connectionStatus !== 'open') {
+      await offlineQueue.enqueue(event);
+      setIsAddModalOpen(false);
+      notify('success', 'You are offline; the notice will be sent when the connection returns');
+      return;
+    }
+    const created = await sendEvent(event);
     setIsAddModalOpen(false);
+    notify('success', created ? savedMessage(created) : 'Notice saved');
+  };
+
+  const updateNotice = async (id: number, notice: NoticeInput, draft: boolean) => {
+    const updated = await sendEvent({ type: 'UPDATE_NOTICE', id, notice, draft });
+    setEditingNotice(null);
+    notify('success', updated && updated.status !== 'approved' ? savedMessage(updated) : 'Notice updated');
+  };
+
+  // Without `draft`, saving a draft or rejected notice unchanged submits it
+  const submitNotice = (notice: Notice) => {
+    sendEvent({ type: 'UPDATE_NOTICE', id: notice.id, notice: toNoticeInput(notice) })
+      .then(submitted => notify('success', submitted ? savedMessage(submitted) : 'Notice submitted'))
+      .catch((err: Error) => notify('error', err.message));
+  };
+
+  const approveNotice = (notice: Notice) => {
+    runAction({ type: 'REVIEW_NOTICE', id: notice.id, decision: 'approve' }, `Approved "${notice.title}"`);
+  };
+
+  const rejectNotice = (notice: Notice, reason: string) => {
+    runAction({ type: 'REVIEW_NOTICE', id: notice.id, decision: 'reject', reason }, `Sent "${notice.title}" back to its poster`);
+  };
+
+  const restoreRevision = (revision: NoticeRevision) => {
+    runAction({ type: 'UPDATE_NOTICE', id: revision.noticeId, notice: toNoticeInput(revision) }, `Restored revision ${revision.revision}`);
+  };
+
+  const rescheduleNotice = (notice: Notice, publishAt: string) => {
+    runAction({ type: 'UPDATE_NOTICE', id: notice.id, notice: { ...toNoticeInput(notice), publishAt } }, 'Schedule updated');
   };
 
   const deleteNotice = (id: number) => {
-    socketRef.current?.send(JSON.stringify({ type: 'DELETE_NOTICE', id }));
+    if (connectionStatus !== 'open') {
+      offlineQueue.enqueue({ type: 'DELETE_NOTICE', id }, [...notices, ...scheduled].find(n => n.id === id))
+        .then(() => notify('success', 'You are offline; the notice will be deleted when the connection returns'))
+        .catch((err: Error) => notify('error', err.message));
+      return;
+    }
+    runAction({ type: 'DELETE_NOTICE', id }, 'Notice deleted');
   };
 
-  const filteredNotices = notices.filter(n => {
-    const matchesFilter = filter === 'All' || n.category === filter;
-    const matchesSearch = n.title.toLowerCase().includes(search.toLowerCase()) || 
-                          n.content.toLowerCase().includes(search.toLowerCase());
-    return matchesFilter && matchesSearch;
-  });
+  const pinNotice = (notice: Notice, pinned: boolean) => {
+    runAction({ type: 'PIN_NOTICE', id: notice.id, pinned }, `${pinned ? 'Pinned' : 'Unpinned'} "${notice.title}"`);
+  };
+
+  const reorderPinned = (ids: number[]) => {
+    runAction({ type: 'REORDER_PINNED', ids }, 'Pinned notices reordered');
+  };
+
+  // Errors propagate so the table can keep the selection and show them
+  const bulkUpdateNotices = async (ids: number[], action: NoticeBulkAction) => {
+    await sendEvent({ type: 'BULK_UPDATE_NOTICES', ids, action });
+    notify('success', bulkMessage(ids.length, action));
+  };
+
+  const purgeExpired = () => {
+    runAction({ type: 'PURGE_EXPIRED' }, 'Expired notices cleared');
+  };
+
+  const issueEmergency = async (alert: EmergencyAlertInput) => {
+    await sendEvent({ type: 'ISSUE_EMERGENCY', alert });
+    notify('success', 'Emergency alert sent');
+  };
+
+  const clearEmergency = () => {
+    runAction({ type: 'CLEAR_EMERGENCY' }, 'All clear sent');
+  };
+
+  const restoreArchived = (id: number) => {
+    runAction({ type: 'RESTORE_ARCHIVED', id }, 'Notice restored');
+  };
+
+  const historyNotice = [...notices, ...scheduled].find(n => n.id === historyNoticeId);
+  // Live edits reach a notice that is open in full
+  const detailNotice = openNotice && ([...notices, ...scheduled].find(n => n.id === openNotice.id) ?? openNotice);
+
+  // Feed entries link to /notices/:id, which opens that notice over the board
+  useEffect(() => {
+    const match = location.path.match(/^\/notices\/(\d+)\/?$/);
+    if (!match) return;
+    api.getNotice(Number(match[1]))
+      .then(({ notice }) => setOpenNotice(notice))
+      .catch((err: Error) => notify('error', err.message));
+  }, []);
+
+  const showNotice = (notice: Notice) => {
+    setOpenNotice(notice);
+    window.history.replaceState(null, '', boardPath(slug, `/notices/${notice.id}`));
+  };
+
+  const closeNotice = () => {
+    setOpenNotice(null);
+    window.history.replaceState(null, '', boardPath(slug));
+  };
+
+  // The server already narrows public feeds; staff receive every notice, so
+  // the followed audiences are applied here as well.
+  useEffect(() => {
+    api.listBoards()
+      .then(({ boards }) => setBoards(boards))
+      .catch(() => undefined);
+  }, []);
+
+  const followedNotices = useMemo(
+    () => notices.filter(n => matchesAudience(n.audience, following)),
+    [notices, following]
+  );
 
   return (
     <div className="min-h-screen flex flex-col">
       {/* Navigation */}
       <nav className="glass sticky top-0 z-40 px-6 py-4 flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <div className="w-10 h-10 bg-black text-white rounded-xl flex items-center justify-center">
-            <Bell className="w-6 h-6" />
-          </div>
-          <div>
-            <h1 className="font-bold text-xl tracking-tight">UniBoard</h1>
-            <p className="text-[10px] uppercase tracking-widest text-black/40 font-semibold">Smart Digital Notice Board</p>
-          </div>
-        </div>
+        <BoardBrand board={board} />
 
-        <div className="flex items-center gap-2 bg-black/5 p-1 rounded-full">
-          <button 
-            onClick={() => setView('public')}
-            className={cn(
-              "px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2",
-              view === 'public' ? "bg-white shadow-sm text-black" : "text-black/60 hover:text-black"
-            )}
-          >
-            <Monitor className="w-4 h-4" />
-            Public View
-          </button>
-          <button 
-            onClick={() => setView('admin')}
-            className={cn(
-              "px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2",
-              view === 'admin' ? "bg-white shadow-sm text-black" : "text-black/60 hover:text-black"
-            )}
-          >
-            <LayoutDashboard className="w-4 h-4" />
-            Admin Panel
-          </button>
+        <div className="flex items-center gap-6">
+          {boards.length > 1 && board && (
+            <select
+              value={board.slug}
+              onChange={e => window.location.assign(boardPath(e.target.value))}
+              title="Switch board"
+              className="px-3 py-2 bg-black/5 rounded-xl text-sm font-medium outline-none appearance-none"
+            >
+              {boards.map(b => <option key={b.id} value={b.slug}>{b.name}</option>)}
+            </select>
+          )}
+          <ConnectionIndicator status={connectionStatus} syncedAt={syncedAt} />
+          <div className="flex items-center gap-2 bg-black/5 p-1 rounded-full">
+            <button 
+              onClick={() => setView('public')}
+              className={cn(
+                "px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2",
+                view === 'public' ? "bg-white shadow-sm text-black" : "text-black/60 hover:text-black"
+              )}
+            >
+              <Monitor className="w-4 h-4" />
+              Public View
+            </button>
+            <button 
+              onClick={() => setView('admin')}
+              className={cn(
+                "px-4 py-2 rounded-full text-sm font-medium transition-all flex items-center gap-2",
+                view === 'admin' ? "bg-white shadow-sm text-black" : "text-black/60 hover:text-black"
+              )}
+            >
+              <LayoutDashboard className="w-4 h-4" />
+              Admin Panel
+            </button>
+          </div>
         </div>
       </nav>
 
+      <ConnectionLostBanner status={connectionStatus} retryAt={retryAt} syncedAt={syncedAt} onRetry={reconnectNow} />
+
       <main className="flex-1 p-6 max-w-7xl mx-auto w-full">
-        {view === 'public' ? (
+        {boardMissing ? (
+          <div className="max-w-md mx-auto mt-12 glass rounded-3xl p-8 space-y-4 text-center">
+            <p className="font-medium">There is no board at this address.</p>
+            <a href="/" className="inline-block px-4 py-2 rounded-xl bg-black text-white text-sm font-bold">
+              Go to the Main Board
+            </a>
+          </div>
+        ) : view === 'public' ? (
           <PublicBoard 
-            notices={filteredNotices} 
+            board={slug}
+            notices={followedNotices} 
+            categories={categories}
+            priorities={priorities}
+            hasMore={!!nextCursor}
+            onLoadMore={loadMoreNotices}
             filter={filter} 
             setFilter={setFilter} 
             search={search} 
             setSearch={setSearch} 
+            following={following}
+            onFollowingChange={changeFollowing}
+            onOpenNotice={showNotice}
+            impressions={impressions}
           />
+        ) : !authChecked ? null : !user ? (
+          <LoginPanel onLogin={setUser} />
+        ) : !isManager ? (
+          <div className="max-w-md mx-auto mt-12 glass rounded-3xl p-8 space-y-4 text-center">
+            <p className="font-medium">
+              Signed in as <span className="font-bold">{user.username}</span> ({ROLE_LABELS[user.role]}).
+            </p>
+            <p className="text-black/60 text-sm">
+              {canManageNotices(user)
+                ? `You are not on the staff of ${board?.name ?? 'this board'}.`
+                : 'Your account does not have access to the admin panel.'}
+            </p>
+            <button onClick={logout} className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold">
+              Sign Out
+            </button>
+          </div>
         ) : (
-          <AdminDashboard 
-            notices={notices} 
-            onDelete={deleteNotice} 
-            onOpenAdd={() => setIsAddModalOpen(true)} 
-          />
+          <>
+            <OfflineQueue
+              queued={offlineQueue.queued}
+              connected={connectionStatus === 'open' && !sessionCached}
+              onRetry={offlineQueue.retry}
+              onDiscard={offlineQueue.discard}
+            />
+            <AdminDashboard 
+              board={slug}
+              notices={notices} 
+              categories={categories}
+              priorities={priorities}
+              scheduled={scheduled}
+              user={user}
+              emergency={emergency}
+              receipts={receipts}
+              onIssueEmergency={issueEmergency}
+              onClearEmergency={clearEmergency}
+              onDelete={deleteNotice} 
+              onEdit={setEditingNotice}
+              onShowHistory={(notice) => setHistoryNoticeId(notice.id)}
+              onPin={pinNotice}
+              onReorderPinned={reorderPinned}
+              onBulkUpdate={bulkUpdateNotices}
+              onReschedule={rescheduleNotice}
+              onOpenNotice={showNotice}
+              onSubmitNotice={submitNotice}
+              onApprove={approveNotice}
+              onReject={rejectNotice}
+              onPurgeExpired={purgeExpired}
+              onOpenArchive={() => setIsArchiveOpen(true)}
+              onOpenSettings={() => setIsSettingsOpen(true)}
+              onOpenBoards={() => setIsBoardsOpen(true)}
+              onOpenBackup={() => setIsBackupOpen(true)}
+              onOpenAudit={() => setIsAuditOpen(true)}
+              onOpenEngagement={() => setIsEngagementOpen(true)}
+              onOpenAdd={() => setIsAddModalOpen(true)} 
+              onLogout={logout}
+            />
+          </>
         )}
       </main>
 
       <AnimatePresence>
-        {isAddModalOpen && (
+        {isAddModalOpen && user && (
           <AddNoticeModal 
+            board={slug}
+            crossPostBoards={hasPermission(user, 'notice:crosspost') ? boards.filter(b => b.id !== board?.id) : []}
+            categories={categories}
+            priorities={priorities}
+            defaultAuthor={user.department || user.username}
+            canPublish={hasPermission(user, 'notice:publish')}
             onClose={() => setIsAddModalOpen(false)} 
             onSubmit={addNotice} 
           />
         )}
+        {editingNotice && user && (
+          <AddNoticeModal 
+            board={slug}
+            initial={editingNotice}
+            categories={categories}
+            priorities={priorities}
+            defaultAuthor={editingNotice.author}
+            allowSchedule={scheduled.some(n => n.id === editingNotice.id)}
+            canPublish={hasPermission(user, 'notice:publish')}
+            onClose={() => setEditingNotice(null)} 
+            onSubmit={(notice, draft) => updateNotice(editingNotice.id, notice, draft)} 
+          />
+        )}
+        {isArchiveOpen && (
+          <ArchiveModal 
+            board={slug}
+            onClose={() => setIsArchiveOpen(false)} 
+            onRestore={restoreArchived} 
+          />
+        )}
+        {isSettingsOpen && (
+          <BoardSettingsModal categories={categories} priorities={priorities} onClose={() => setIsSettingsOpen(false)} />
+        )}
+        {isBoardsOpen && (
+          <BoardsModal
+            onChange={() => api.listBoards().then(({ boards }) => setBoards(boards)).catch(() => undefined)}
+            onClose={() => setIsBoardsOpen(false)}
+          />
+        )}
+        {isBackupOpen && (
+          <BackupModal categories={categories} onClose={() => setIsBackupOpen(false)} />
+        )}
+        {isAuditOpen && (
+          <AuditLogModal onClose={() => setIsAuditOpen(false)} />
+        )}
+        {isEngagementOpen && (
+          <EngagementModal board={slug} categories={categories} onClose={() => setIsEngagementOpen(false)} />
+        )}
+        {emergency && (view === 'public' || !isManager) && (
+          <EmergencyOverlay 
+            alert={emergency}
+            action={isManager ? { label: 'Open Admin Panel', onClick: () => setView('admin') } : undefined}
+          />
+        )}
+        {detailNotice && (
+          <NoticeDetailModal
+            notice={detailNotice}
+            priority={priorities.find(p => p.name === detailNotice.priority)}
+            onClose={closeNotice}
+          />
+        )}
+        {historyNotice && (
+          <RevisionHistoryModal 
+            notice={historyNotice}
+            onClose={() => setHistoryNoticeId(null)} 
+            onRestore={restoreRevision} 
+          />
+        )}
       </AnimatePresence>
 
+      <Toasts toasts={toasts} onDismiss={(id) => setToasts(prev => prev.filter(t => t.id !== id))} />
+
       <footer className="p-6 text-center text-black/40 text-xs border-t border-black/5">
         &copy; {new Date().getFullYear()} Smart University Digital Infrastructure. All rights reserved.
       </footer>
@@ -153,19 +676,50 @@ export default function App() {
 }
 
 function PublicBoard({ 
+  board,
   notices, 
+  categories,
+  priorities,
+  hasMore,
+  onLoadMore,
   filter, 
   setFilter, 
   search, 
-  setSearch 
+  setSearch,
+  following,
+  onFollowingChange,
+  onOpenNotice,
+  impressions
 }: { 
+  board: string | null,
   notices: Notice[], 
-  filter: string, 
+  categories: NoticeCategory[],
+  priorities: NoticePriority[],
+  hasMore: boolean,
+  onLoadMore: () => void,
+  filter: Notice['category'] | 'All', 
   setFilter: (f: any) => void,
   search: string,
-  setSearch: (s: string) => void
+  setSearch: (s: string) => void,
+  following: NoticeAudience | undefined,
+  onFollowingChange: (audience: NoticeAudience | undefined) => void,
+  onOpenNotice: (notice: Notice) => void,
+  impressions: ImpressionTracker
 }) {
-  const categories: (Notice['category'] | 'All')[] = ['All', 'Emergency', 'Academic', 'Exam', 'Event', 'General'];
+  const [isFollowingOpen, setIsFollowingOpen] = useState(false);
+  const [layout, setLayout] = useState<'grid' | 'calendar'>('grid');
+
+  // Searching or narrowing by category queries the server, since only the
+  // newest notices are held locally. Live changes re-run the query.
+  const isQuerying = layout === 'grid' && (!!search.trim() || filter !== 'All');
+  const { results, loading, error, loadMore } = useNoticeSearch(isQuerying ? {
+    board: board ?? undefined,
+    q: search.trim() || undefined,
+    category: filter === 'All' ? undefined : [filter],
+    audience: following
+  } : null, notices);
+  const shown: NoticePage['notices'] = isQuerying ? results?.notices ?? [] : notices;
+  const canLoadMore = isQuerying ? !!results?.nextCursor : hasMore;
 
   return (
     <div className="space-y-8">
@@ -177,18 +731,45 @@ function PublicBoard({
         </div>
         
         <div className="flex flex-wrap items-center gap-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-black/40" />
-            <input 
-              type="text" 
-              placeholder="Search notices..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="pl-10 pr-4 py-2 bg-white border border-black/10 rounded-xl focus:outline-none focus:ring-2 focus:ring-black/5 w-64"
-            />
+          <div className="flex items-center bg-white border border-black/10 rounded-xl p-1">
+            {([['grid', LayoutGrid, 'Grid'], ['calendar', CalendarDays, 'Calendar']] as const).map(([value, Icon, label]) => (
+              <button
+                key={value}
+                onClick={() => setLayout(value)}
+                title={label}
+                className={cn(
+                  "p-1.5 rounded-lg transition-all",
+                  layout === value ? "bg-black text-white" : "text-black/40 hover:text-black"
+                )}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
           </div>
+          {layout === 'grid' && (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-black/40" />
+              <input 
+                type="text" 
+                placeholder="Search notices..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10 pr-4 py-2 bg-white border border-black/10 rounded-xl focus:outline-none focus:ring-2 focus:ring-black/5 w-64"
+              />
+            </div>
+          )}
+          <button
+            onClick={() => setIsFollowingOpen(open => !open)}
+            className={cn(
+              "px-4 py-2 rounded-xl text-xs font-semibold whitespace-nowrap transition-all flex items-center gap-2",
+              following ? "bg-black text-white" : "bg-white border border-black/10 text-black/60 hover:bg-black/5"
+            )}
+          >
+            <Users className="w-4 h-4" />
+            {following ? describeAudience(following) : 'Following: Everyone'}
+          </button>
           <div className="flex items-center gap-2 overflow-x-auto pb-2 md:pb-0">
-            {categories.map(cat => (
+            {['All', ...categories.map(c => c.name)].map(cat => (
               <button
                 key={cat}
                 onClick={() => setFilter(cat)}
@@ -204,66 +785,187 @@ function PublicBoard({
         </div>
       </div>
 
-      {/* Notices Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        <AnimatePresence mode="popLayout">
-          {notices.map((notice) => (
-            <NoticeCard key={notice.id} notice={notice} />
-          ))}
-        </AnimatePresence>
-        {notices.length === 0 && (
-          <div className="col-span-full py-20 text-center space-y-4">
-            <div className="w-16 h-16 bg-black/5 rounded-full flex items-center justify-center mx-auto text-black/20">
-              <FileText className="w-8 h-8" />
+      {isFollowingOpen && (
+        <div className="glass rounded-2xl p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-bold text-sm uppercase tracking-widest text-black/40">Follow Audiences</h3>
+              <p className="text-xs text-black/40">Only notices meant for these audiences are shown on this board. Notices for everyone always appear.</p>
             </div>
-            <p className="text-black/40 font-medium">No notices found matching your criteria.</p>
+            {following && (
+              <button onClick={() => onFollowingChange(undefined)} className="text-xs font-bold text-black/40 hover:text-black">
+                Follow everyone
+              </button>
+            )}
           </div>
-        )}
-      </div>
+          <AudienceFields board={board} value={following} onChange={onFollowingChange} />
+        </div>
+      )}
+
+      {layout === 'calendar' ? (
+        <CalendarView
+          board={board}
+          categories={categories}
+          category={filter === 'All' ? undefined : filter}
+          audience={following}
+          refreshKey={notices}
+        />
+      ) : (
+        <>
+          {isQuerying && results && (
+            <p className="text-xs font-bold uppercase tracking-widest text-black/40">
+              {results.total} {results.total === 1 ? 'notice' : 'notices'} found
+            </p>
+          )}
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          {/* Notices Grid */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <AnimatePresence mode="popLayout">
+              {shown.map((notice) => (
+                <NoticeCard 
+                  key={notice.id} 
+                  notice={notice} 
+                  category={categories.find(c => c.name === notice.category)}
+                  priority={priorities.find(p => p.name === notice.priority)}
+                  highlight={notice.highlight} 
+                  impressions={impressions}
+                  onOpen={() => {
+                    impressions.expanded(notice.id);
+                    onOpenNotice(notice);
+                  }}
+                />
+              ))}
+            </AnimatePresence>
+            {shown.length === 0 && !loading && (
+              <div className="col-span-full py-20 text-center space-y-4">
+                <div className="w-16 h-16 bg-black/5 rounded-full flex items-center justify-center mx-auto text-black/20">
+                  <FileText className="w-8 h-8" />
+                </div>
+                <p className="text-black/40 font-medium">No notices found matching your criteria.</p>
+              </div>
+            )}
+          </div>
+
+          {canLoadMore && (
+            <div className="text-center">
+              <button
+                onClick={isQuerying ? loadMore : onLoadMore}
+                disabled={loading}
+                className="px-6 py-3 rounded-2xl bg-white border border-black/10 text-sm font-bold hover:bg-black/5 transition-all disabled:opacity-50"
+              >
+                Load More
+              </button>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 }
 
-function NoticeCard({ notice }: { notice: Notice, key?: React.Key }) {
-  const getIcon = (cat: Notice['category']) => {
-    switch (cat) {
-      case 'Emergency': return <AlertCircle className="w-5 h-5 text-red-500" />;
-      case 'Academic': return <BookOpen className="w-5 h-5 text-blue-500" />;
-      case 'Exam': return <FileText className="w-5 h-5 text-amber-500" />;
-      case 'Event': return <Trophy className="w-5 h-5 text-emerald-500" />;
-      default: return <Bell className="w-5 h-5 text-slate-500" />;
-    }
-  };
+function NoticeCard({ 
+  notice, 
+  category,
+  priority,
+  highlight,
+  impressions,
+  onOpen
+}: { 
+  notice: Notice, 
+  category?: NoticeCategory,
+  priority?: NoticePriority,
+  highlight?: NoticeHighlight, 
+  impressions?: ImpressionTracker,
+  onOpen: () => void,
+  key?: React.Key 
+}) {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  useTrackImpression(cardRef, notice.id, impressions);
+  const [isClipped, setIsClipped] = useState(false);
+
+  // Long notices are cut off on the card; offer the full view when they are
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    setIsClipped(!!body && body.scrollHeight > body.clientHeight);
+  }, [notice.content, highlight]);
 
   return (
     <motion.div
+      ref={cardRef}
       layout
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, scale: 0.95 }}
       className={cn(
         "notice-card glass rounded-2xl p-6 flex flex-col gap-4",
-        notice.priority === 'High' && "priority-high",
-        notice.priority === 'Medium' && "priority-medium",
-        notice.priority === 'Low' && "priority-low"
+        priorityCardClass(priority)
       )}
     >
       <div className="flex items-start justify-between">
         <div className="p-2 bg-black/5 rounded-lg">
-          {getIcon(notice.category)}
+          <CategoryIcon category={category} className="w-5 h-5" />
+        </div>
+        <div className="flex items-center gap-1.5">
+          {notice.pinOrder !== undefined && (
+            <span className="px-2 py-1 bg-black text-white text-[10px] font-bold uppercase tracking-wider rounded flex items-center gap-1">
+              <Pin className="w-3 h-3" />
+              Pinned
+            </span>
+          )}
+          {notice.audience && (
+            <span className="px-2 py-1 bg-black/5 text-black/60 text-[10px] font-bold uppercase tracking-wider rounded">
+              {describeAudience(notice.audience)}
+            </span>
+          )}
+          {priority?.ticker && (
+            <span className="px-2 py-1 bg-red-100 text-red-600 text-[10px] font-bold uppercase tracking-wider rounded">Urgent</span>
+          )}
         </div>
-        {notice.priority === 'High' && (
-          <span className="px-2 py-1 bg-red-100 text-red-600 text-[10px] font-bold uppercase tracking-wider rounded">Urgent</span>
-        )}
       </div>
 
       <div className="space-y-2">
-        <h3 className="font-bold text-xl leading-tight">{notice.title}</h3>
-        <p className="text-black/70 text-sm line-clamp-4 leading-relaxed">
-          {notice.content}
-        </p>
+        <h3 className="font-bold text-xl leading-tight">
+          <button onClick={onOpen} className="text-left hover:underline underline-offset-4">
+            {highlight ? <Highlighted text={highlight.title} /> : notice.title}
+          </button>
+        </h3>
+        {highlight ? (
+          <p className="text-black/70 text-sm line-clamp-4 leading-relaxed">
+            <Highlighted text={highlight.snippet} />
+          </p>
+        ) : (
+          <div ref={bodyRef} className="max-h-32 overflow-hidden">
+            <Markdown text={notice.content} className="text-black/70 text-sm leading-relaxed" />
+          </div>
+        )}
+        {(isClipped || highlight) && (
+          <button onClick={onOpen} className="text-xs font-bold text-black/40 hover:text-black">
+            Read more
+          </button>
+        )}
       </div>
 
+      {(notice.eventStart || notice.location) && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-semibold text-black/60">
+          {notice.eventStart && (
+            <span className="flex items-center gap-1.5">
+              <Calendar className="w-3.5 h-3.5" />
+              {formatEventTime(notice)}
+            </span>
+          )}
+          {notice.location && (
+            <span className="flex items-center gap-1.5">
+              <MapPin className="w-3.5 h-3.5" />
+              {notice.location}
+            </span>
+          )}
+        </div>
+      )}
+
+      {notice.attachments && <AttachmentList attachments={notice.attachments} />}
+
       <div className="mt-auto pt-4 border-t border-black/5 flex items-center justify-between text-[11px] font-medium text-black/40 uppercase tracking-wider">
         <div className="flex items-center gap-1.5">
           <User className="w-3 h-3" />
@@ -271,7 +973,7 @@ function NoticeCard({ notice }: { notice: Notice, key?: React.Key }) {
         </div>
         <div className="flex items-center gap-1.5">
           <Clock className="w-3 h-3" />
-          {format(new Date(notice.createdAt), 'MMM d, h:mm a')}
+          {format(new Date(noticeTime(notice)), 'MMM d, h:mm a')}
         </div>
       </div>
     </motion.div>
@@ -279,28 +981,120 @@ function NoticeCard({ notice }: { notice: Notice, key?: React.Key }) {
 }
 
 function AdminDashboard({ 
+  board,
   notices, 
+  categories,
+  priorities,
+  scheduled,
+  user,
+  emergency,
+  receipts,
+  onIssueEmergency,
+  onClearEmergency,
   onDelete, 
-  onOpenAdd 
+  onEdit,
+  onShowHistory,
+  onPin,
+  onReorderPinned,
+  onBulkUpdate,
+  onReschedule,
+  onOpenNotice,
+  onSubmitNotice,
+  onApprove,
+  onReject,
+  onPurgeExpired,
+  onOpenArchive,
+  onOpenSettings,
+  onOpenBoards,
+  onOpenBackup,
+  onOpenAudit,
+  onOpenEngagement,
+  onOpenAdd,
+  onLogout
 }: { 
+  board: string | null,
   notices: Notice[], 
+  categories: NoticeCategory[],
+  priorities: NoticePriority[],
+  scheduled: Notice[],
+  user: SessionUser,
+  emergency: EmergencyAlert | null,
+  receipts: DisplayReceipt[],
+  onIssueEmergency: (input: EmergencyAlertInput) => Promise<void>,
+  onClearEmergency: () => void,
   onDelete: (id: number) => void,
-  onOpenAdd: () => void
+  onEdit: (notice: Notice) => void,
+  onShowHistory: (notice: Notice) => void,
+  onPin: (notice: Notice, pinned: boolean) => void,
+  onReorderPinned: (ids: number[]) => void,
+  onBulkUpdate: (ids: number[], action: NoticeBulkAction) => Promise<void>,
+  onReschedule: (notice: Notice, publishAt: string) => void,
+  onOpenNotice: (notice: Notice) => void,
+  onSubmitNotice: (notice: Notice) => void,
+  onApprove: (notice: Notice) => void,
+  onReject: (notice: Notice, reason: string) => void,
+  onPurgeExpired: () => void,
+  onOpenArchive: () => void,
+  onOpenSettings: () => void,
+  onOpenBoards: () => void,
+  onOpenBackup: () => void,
+  onOpenAudit: () => void,
+  onOpenEngagement: () => void,
+  onOpenAdd: () => void,
+  onLogout: () => void
 }) {
+  const [tab, setTab] = useState<'live' | 'scheduled' | 'review' | 'mine'>('live');
+  const [totals, setTotals] = useState<{ live: number, urgent: number } | null>(null);
+  const urgentPriorities = priorities.filter(p => p.ticker).map(p => p.name);
+
+  // `scheduled` holds every notice that is not live; split it by where each stands
+  const approved = scheduled.filter(n => n.status === 'approved');
+  const pending = scheduled.filter(n => n.status === 'pending');
+  const submissions = scheduled.filter(n => n.createdBy === user.id);
+  const canReview = hasPermission(user, 'notice:review');
+  const tabs = [
+    ['live', 'Live Notices', totals?.live ?? notices.length],
+    ['scheduled', 'Scheduled', approved.length],
+    ...(canReview ? [['review', 'Review Queue', pending.length] as const] : []),
+    ['mine', 'My Submissions', submissions.length],
+  ] as const;
+
+  // Only the newest notices are loaded, so the counts come from the server
+  useEffect(() => {
+    const scope = { board: board ?? undefined, limit: 1 };
+    Promise.all([
+      api.queryNotices(scope),
+      urgentPriorities.length ? api.queryNotices({ ...scope, priority: urgentPriorities }) : { total: 0 }
+    ])
+      .then(([live, urgent]) => setTotals({ live: live.total, urgent: urgent.total }))
+      .catch(() => undefined);
+  }, [notices, priorities]);
+
   return (
     <div className="space-y-8">
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-3xl font-bold">Admin Dashboard</h2>
-          <p className="text-black/60">Manage all campus announcements and alerts.</p>
+          <p className="text-black/60">
+            Signed in as <span className="font-semibold text-black">{user.username}</span> · {ROLE_LABELS[user.role]}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button 
+            onClick={onLogout}
+            className="px-4 py-3 rounded-2xl font-bold flex items-center gap-2 text-black/60 hover:text-black hover:bg-black/5 transition-all"
+          >
+            <LogOut className="w-5 h-5" />
+            Sign Out
+          </button>
+          <button 
+            onClick={onOpenAdd}
+            className="bg-black text-white px-6 py-3 rounded-2xl font-bold flex items-center gap-2 hover:bg-black/80 transition-all shadow-xl shadow-black/10"
+          >
+            <Plus className="w-5 h-5" />
+            New Notice
+          </button>
         </div>
-        <button 
-          onClick={onOpenAdd}
-          className="bg-black text-white px-6 py-3 rounded-2xl font-bold flex items-center gap-2 hover:bg-black/80 transition-all shadow-xl shadow-black/10"
-        >
-          <Plus className="w-5 h-5" />
-          New Notice
-        </button>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -310,89 +1104,155 @@ function AdminDashboard({
             <h3 className="font-bold text-sm uppercase tracking-widest text-black/40">Board Statistics</h3>
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-black/5 p-4 rounded-xl">
-                <p className="text-2xl font-bold">{notices.length}</p>
+                <p className="text-2xl font-bold">{totals?.live ?? notices.length}</p>
                 <p className="text-[10px] font-bold uppercase text-black/40">Total Notices</p>
               </div>
               <div className="bg-red-50 p-4 rounded-xl">
-                <p className="text-2xl font-bold text-red-600">{notices.filter(n => n.priority === 'High').length}</p>
-                <p className="text-[10px] font-bold uppercase text-red-400">High Priority</p>
+                <p className="text-2xl font-bold text-red-600">{totals?.urgent ?? notices.filter(n => urgentPriorities.includes(n.priority)).length}</p>
+                <p className="text-[10px] font-bold uppercase text-red-400">Urgent</p>
               </div>
             </div>
+            {hasPermission(user, 'analytics:view') && (
+              <button 
+                onClick={onOpenEngagement}
+                className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+              >
+                <span className="text-sm font-medium">Views and Engagement</span>
+                <BarChart3 className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+              </button>
+            )}
           </div>
 
           <div className="glass rounded-2xl p-6 space-y-4">
             <h3 className="font-bold text-sm uppercase tracking-widest text-black/40">Quick Actions</h3>
             <div className="space-y-2">
-              <button className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group">
-                <span className="text-sm font-medium">Clear Expired Notices</span>
-                <ChevronRight className="w-4 h-4 text-black/20 group-hover:text-black/40" />
-              </button>
-              <button className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group">
-                <span className="text-sm font-medium">Export Board History</span>
-                <ChevronRight className="w-4 h-4 text-black/20 group-hover:text-black/40" />
-              </button>
-              <button className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group">
-                <span className="text-sm font-medium">Board Settings</span>
-                <Settings className="w-4 h-4 text-black/20 group-hover:text-black/40" />
-              </button>
+              {hasPermission(user, 'notice:archive') && (
+                <>
+                  <button 
+                    onClick={onPurgeExpired}
+                    className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+                  >
+                    <span className="text-sm font-medium">Clear Expired Notices</span>
+                    <ChevronRight className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+                  </button>
+                  <button 
+                    onClick={onOpenArchive}
+                    className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+                  >
+                    <span className="text-sm font-medium">Browse Archive</span>
+                    <Archive className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+                  </button>
+                </>
+              )}
+              {hasPermission(user, 'board:backup') && (
+                <button 
+                  onClick={onOpenBackup}
+                  className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+                >
+                  <span className="text-sm font-medium">Export Board History</span>
+                  <Download className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+                </button>
+              )}
+              {hasPermission(user, 'audit:view') && (
+                <button 
+                  onClick={onOpenAudit}
+                  className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+                >
+                  <span className="text-sm font-medium">Audit Log</span>
+                  <ScrollText className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+                </button>
+              )}
+              {hasPermission(user, 'board:settings') && (
+                <button 
+                  onClick={onOpenSettings}
+                  className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+                >
+                  <span className="text-sm font-medium">Board Settings</span>
+                  <Settings className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+                </button>
+              )}
+              {hasPermission(user, 'board:manage') && (
+                <button 
+                  onClick={onOpenBoards}
+                  className="w-full text-left px-4 py-3 rounded-xl hover:bg-black/5 transition-all flex items-center justify-between group"
+                >
+                  <span className="text-sm font-medium">Faculty and Campus Boards</span>
+                  <LayoutGrid className="w-4 h-4 text-black/20 group-hover:text-black/40" />
+                </button>
+              )}
             </div>
           </div>
+
+          {hasPermission(user, 'emergency:broadcast') && (
+            <EmergencyPanel 
+              alert={emergency}
+              receipts={receipts}
+              onIssue={onIssueEmergency}
+              onClear={onClearEmergency}
+            />
+          )}
+
+          {hasPermission(user, 'user:manage') && <UserManagement currentUser={user} />}
         </div>
 
         {/* Management Table */}
-        <div className="lg:col-span-2">
-          <div className="glass rounded-2xl overflow-hidden">
-            <table className="w-full text-left border-collapse">
-              <thead>
-                <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
-                  <th className="px-6 py-4">Notice</th>
-                  <th className="px-6 py-4">Category</th>
-                  <th className="px-6 py-4">Priority</th>
-                  <th className="px-6 py-4">Date</th>
-                  <th className="px-6 py-4 text-right">Actions</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-black/5">
-                {notices.map(notice => (
-                  <tr key={notice.id} className="hover:bg-black/[0.02] transition-colors">
-                    <td className="px-6 py-4">
-                      <div className="font-bold text-sm">{notice.title}</div>
-                      <div className="text-[10px] text-black/40">By {notice.author}</div>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className="px-2 py-1 bg-black/5 rounded text-[10px] font-bold uppercase">{notice.category}</span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <span className={cn(
-                        "text-[10px] font-bold uppercase",
-                        notice.priority === 'High' ? "text-red-500" : 
-                        notice.priority === 'Medium' ? "text-amber-500" : "text-blue-500"
-                      )}>
-                        {notice.priority}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 text-[10px] text-black/40 font-medium">
-                      {format(new Date(notice.createdAt), 'MMM d, yyyy')}
-                    </td>
-                    <td className="px-6 py-4 text-right">
-                      <button 
-                        onClick={() => onDelete(notice.id)}
-                        className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-                {notices.length === 0 && (
-                  <tr>
-                    <td colSpan={5} className="px-6 py-12 text-center text-black/40 text-sm italic">
-                      No notices currently on the board.
-                    </td>
-                  </tr>
+        <div className="lg:col-span-2 space-y-4">
+          <div className="flex items-center gap-2 bg-black/5 p-1 rounded-full w-fit">
+            {tabs.map(([key, label, count]) => (
+              <button 
+                key={key}
+                onClick={() => setTab(key)}
+                className={cn(
+                  "px-4 py-2 rounded-full text-sm font-medium transition-all",
+                  tab === key ? "bg-white shadow-sm text-black" : "text-black/60 hover:text-black"
                 )}
-              </tbody>
-            </table>
+              >
+                {label} <span className="text-black/40">({count})</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="glass rounded-2xl overflow-hidden">
+            {tab === 'scheduled' ? (
+              <ScheduledNotices 
+                scheduled={approved}
+                user={user}
+                onReschedule={onReschedule}
+                onPublishNow={(notice) => onReschedule(notice, new Date().toISOString())}
+                onEdit={onEdit}
+                onCancel={onDelete}
+              />
+            ) : tab === 'review' ? (
+              <ReviewQueue 
+                pending={pending}
+                onOpen={onOpenNotice}
+                onEdit={onEdit}
+                onApprove={onApprove}
+                onReject={onReject}
+              />
+            ) : tab === 'mine' ? (
+              <MySubmissions 
+                submissions={submissions}
+                canPublish={hasPermission(user, 'notice:publish')}
+                onSubmit={onSubmitNotice}
+                onEdit={onEdit}
+                onDelete={onDelete}
+              />
+            ) : (
+              <NoticeTable 
+                board={board}
+                user={user}
+                categories={categories}
+                priorities={priorities}
+                refreshKey={notices}
+                onEdit={onEdit}
+                onShowHistory={onShowHistory}
+                onDelete={onDelete}
+                onPin={onPin}
+                onReorderPinned={onReorderPinned}
+                onBulkUpdate={onBulkUpdate}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -401,19 +1261,65 @@ function AdminDashboard({
 }
 
 function AddNoticeModal({ 
+  board,
+  crossPostBoards = [],
+  initial,
+  categories,
+  priorities,
+  defaultAuthor,
+  allowSchedule = true,
+  canPublish,
   onClose, 
   onSubmit 
 }: { 
+  board: string | null,
+  crossPostBoards?: Board[],
+  initial?: Notice,
+  categories: NoticeCategory[],
+  priorities: NoticePriority[],
+  defaultAuthor: string,
+  allowSchedule?: boolean,
+  canPublish: boolean,
   onClose: () => void, 
-  onSubmit: (n: NoticeInput) => void 
+  onSubmit: (n: NoticeInput, draft: boolean, crossPost: number[]) => Promise<void> 
 }) {
   const [formData, setFormData] = useState<NoticeInput>({
-    title: '',
-    content: '',
-    category: 'General',
-    priority: 'Medium',
-    author: 'Admin'
+    title: initial?.title ?? '',
+    content: initial?.content ?? '',
+    category: initial?.category ?? '',
+    priority: initial?.priority ?? defaultPriority(priorities),
+    author: defaultAuthor,
+    expiresAt: initial?.expiresAt,
+    publishAt: initial?.publishAt,
+    audience: initial?.audience,
+    eventStart: initial?.eventStart,
+    eventEnd: initial?.eventEnd,
+    location: initial?.location
   });
+  const [attachments, setAttachments] = useState<Attachment[]>(initial?.attachments ?? []);
+  const [crossPost, setCrossPost] = useState<number[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const isScheduled = !!formData.publishAt && new Date(formData.publishAt) > new Date();
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Saving a live notice as a draft would quietly take it down, so only unpublished ones offer it
+  const canSaveDraft = initial?.status !== 'approved';
+  const submitLabel = !canPublish ? 'Submit for Review'
+    : initial?.status === 'approved' || initial?.status === 'pending' ? 'Save Changes'
+    : isScheduled ? 'Schedule Notice' : 'Publish Notice';
+
+  const submit = async (draft: boolean) => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({ ...formData, attachmentIds: attachments.map(attachment => attachment.id) }, draft, crossPost);
+    } catch (err) {
+      setError((err as Error).message);
+      setSubmitting(false);
+    }
+  };
+
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
@@ -430,20 +1336,28 @@ function AddNoticeModal({
         exit={{ opacity: 0, scale: 0.95, y: 20 }}
         className="relative w-full max-w-xl bg-white rounded-3xl shadow-2xl overflow-hidden"
       >
-        <div className="p-8 space-y-6">
+        <div className="p-8 space-y-6 max-h-[90vh] overflow-y-auto">
           <div className="flex items-center justify-between">
-            <h3 className="text-2xl font-bold">Post New Notice</h3>
+            <h3 className="text-2xl font-bold">{initial ? 'Edit Notice' : 'Post New Notice'}</h3>
             <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
               <X className="w-6 h-6" />
             </button>
           </div>
 
+          {initial?.status === 'rejected' && initial.rejectionReason && (
+            <div className="px-4 py-3 bg-red-50 text-red-700 rounded-xl text-sm">
+              <p className="text-[10px] font-bold uppercase tracking-widest text-red-400">Sent back by a reviewer</p>
+              <p className="font-medium">{initial.rejectionReason}</p>
+            </div>
+          )}
+
           <div className="space-y-4">
             <div className="space-y-1.5">
               <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Title</label>
               <input 
                 type="text" 
                 value={formData.title}
+                maxLength={NOTICE_LIMITS.title}
                 onChange={e => setFormData(prev => ({ ...prev, title: e.target.value }))}
                 placeholder="Notice headline..."
                 className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
@@ -455,60 +1369,197 @@ function AddNoticeModal({
                 <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Category</label>
                 <select 
                   value={formData.category}
-                  onChange={e => setFormData(prev => ({ ...prev, category: e.target.value as any }))}
+                  onChange={e => setFormData(prev => ({ ...prev, category: e.target.value }))}
                   className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium appearance-none"
                 >
-                  <option value="General">General</option>
-                  <option value="Academic">Academic</option>
-                  <option value="Exam">Exam</option>
-                  <option value="Event">Event</option>
-                  <option value="Emergency">Emergency</option>
+                  {!formData.category && <option value="" disabled>Choose a category</option>}
+                  {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
                 </select>
               </div>
               <div className="space-y-1.5">
                 <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Priority</label>
                 <select 
                   value={formData.priority}
-                  onChange={e => setFormData(prev => ({ ...prev, priority: e.target.value as any }))}
+                  onChange={e => setFormData(prev => ({ ...prev, priority: e.target.value }))}
                   className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium appearance-none"
                 >
-                  <option value="Low">Low</option>
-                  <option value="Medium">Medium</option>
-                  <option value="High">High</option>
+                  {!formData.priority && <option value="" disabled>Choose a priority</option>}
+                  {priorities.map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
                 </select>
               </div>
             </div>
 
             <div className="space-y-1.5">
-              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Content</label>
+              <div className="flex items-baseline justify-between">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Content</label>
+                <span className="text-[11px] text-black/40">Markdown: **bold**, - lists, [links](https://…)</span>
+              </div>
               <textarea 
-                rows={4}
+                rows={6}
                 value={formData.content}
+                maxLength={NOTICE_LIMITS.content}
                 onChange={e => setFormData(prev => ({ ...prev, content: e.target.value }))}
                 placeholder="Detailed announcement..."
                 className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium resize-none"
               />
             </div>
 
-            <div className="space-y-1.5">
-              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Author</label>
+            {formData.content.trim() && (
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Preview</label>
+                <div className="px-4 py-3 border border-black/5 rounded-xl max-h-64 overflow-y-auto">
+                  <Markdown text={formData.content} className="text-black/70 text-sm leading-relaxed" />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Author</label>
+                <input 
+                  type="text" 
+                  value={formData.author}
+                  maxLength={NOTICE_LIMITS.author}
+                  onChange={e => setFormData(prev => ({ ...prev, author: e.target.value }))}
+                  placeholder="Department or Name"
+                  className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Expires</label>
+                <input 
+                  type="datetime-local" 
+                  value={toDateTimeLocal(formData.expiresAt)}
+                  min={toDateTimeLocal(new Date().toISOString())}
+                  onChange={e => setFormData(prev => ({ ...prev, expiresAt: fromDateTimeLocal(e.target.value) }))}
+                  className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
+                />
+              </div>
+            </div>
+
+            {allowSchedule && (
+              <div className="space-y-1.5">
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Publish At</label>
+                <input 
+                  type="datetime-local" 
+                  value={toDateTimeLocal(formData.publishAt)}
+                  min={toDateTimeLocal(new Date().toISOString())}
+                  onChange={e => setFormData(prev => ({ ...prev, publishAt: fromDateTimeLocal(e.target.value) }))}
+                  className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
+                />
+                <p className="text-[11px] text-black/40">Leave empty to publish immediately.</p>
+              </div>
+            )}
+
+            <div className="space-y-3 pt-2">
+              <div>
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">When & Where</label>
+                <p className="text-[11px] text-black/40">For exams and events. Notices with a start time appear in the calendar.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <input 
+                  type="datetime-local" 
+                  aria-label="Starts"
+                  value={toDateTimeLocal(formData.eventStart)}
+                  onChange={e => {
+                    const eventStart = fromDateTimeLocal(e.target.value);
+                    setFormData(prev => ({ ...prev, eventStart, eventEnd: eventStart ? prev.eventEnd : undefined }));
+                  }}
+                  className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
+                />
+                <input 
+                  type="datetime-local" 
+                  aria-label="Ends"
+                  value={toDateTimeLocal(formData.eventEnd)}
+                  min={toDateTimeLocal(formData.eventStart)}
+                  disabled={!formData.eventStart}
+                  onChange={e => setFormData(prev => ({ ...prev, eventEnd: fromDateTimeLocal(e.target.value) }))}
+                  className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium disabled:opacity-50"
+                />
+              </div>
               <input 
                 type="text" 
-                value={formData.author}
-                onChange={e => setFormData(prev => ({ ...prev, author: e.target.value }))}
-                placeholder="Department or Name"
+                value={formData.location ?? ''}
+                maxLength={NOTICE_LIMITS.location}
+                onChange={e => setFormData(prev => ({ ...prev, location: e.target.value || undefined }))}
+                placeholder="Location, e.g. Main Hall, Room 2.14"
                 className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
               />
             </div>
+
+            <div className="space-y-3 pt-2">
+              <div>
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Attachments</label>
+                <p className="text-[11px] text-black/40">Timetables, posters and other PDFs or images.</p>
+              </div>
+              <AttachmentPicker value={attachments} onChange={setAttachments} onUploadingChange={setUploading} />
+            </div>
+
+            <div className="space-y-3 pt-2">
+              <div>
+                <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Audience</label>
+                <p className="text-[11px] text-black/40">Leave every field empty to show this notice to everyone.</p>
+              </div>
+              <AudienceFields 
+                board={board}
+                value={formData.audience} 
+                onChange={audience => setFormData(prev => ({ ...prev, audience }))} 
+              />
+            </div>
+
+            {!initial && crossPostBoards.length > 0 && (
+              <div className="space-y-3 pt-2">
+                <div>
+                  <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Also Post To</label>
+                  <p className="text-[11px] text-black/40">Each board gets its own copy, which its staff can edit or take down.</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {crossPostBoards.map(other => (
+                    <button
+                      key={other.id}
+                      type="button"
+                      onClick={() => setCrossPost(prev => prev.includes(other.id) ? prev.filter(id => id !== other.id) : [...prev, other.id])}
+                      className={cn(
+                        "px-3 py-1.5 rounded-lg text-xs font-semibold transition-all",
+                        crossPost.includes(other.id) ? "bg-black text-white" : "bg-black/5 text-black/60 hover:text-black"
+                      )}
+                    >
+                      {other.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
-          <button 
-            onClick={() => onSubmit(formData)}
-            disabled={!formData.title || !formData.content}
-            className="w-full bg-black text-white py-4 rounded-2xl font-bold hover:bg-black/80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Publish Notice
-          </button>
+          {!canPublish && (
+            <p className="text-[11px] text-black/40">
+              {initial?.status === 'approved'
+                ? 'Changes go back to review, and the notice leaves the board until they are approved.'
+                : 'A reviewer approves notices before they appear on the board.'}
+            </p>
+          )}
+
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          <div className="flex gap-3">
+            {canSaveDraft && (
+              <button 
+                onClick={() => submit(true)}
+                disabled={!formData.title.trim() || !formData.content.trim() || submitting || uploading}
+                className="px-6 py-4 rounded-2xl font-bold bg-black/5 hover:bg-black/10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save Draft
+              </button>
+            )}
+            <button 
+              onClick={() => submit(false)}
+              disabled={!formData.title.trim() || !formData.content.trim() || submitting || uploading}
+              className="flex-1 bg-black text-white py-4 rounded-2xl font-bold hover:bg-black/80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitLabel}
+            </button>
+          </div>
         </div>
       </motion.div>
     </div>
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Archive, RotateCcw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ArchivedNotice } from '../types';
+import { api } from '../lib/api';
+
+export function ArchiveModal({
+  board,
+  onClose,
+  onRestore
+}: {
+  board: string | null,
+  onClose: () => void,
+  onRestore: (id: number) => void
+}) {
+  const [notices, setNotices] = useState<ArchivedNotice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.listArchived(board)
+      .then(({ notices }) => setNotices(notices))
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [board]);
+
+  const restore = (id: number) => {
+    onRestore(id);
+    setNotices(prev => prev.filter(n => n.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-3xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Archive className="w-6 h-6" />
+              <h3 className="text-2xl font-bold">Notice Archive</h3>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          <div className="max-h-[60vh] overflow-y-auto divide-y divide-black/5">
+            {notices.map(notice => (
+              <div key={notice.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-bold text-sm">{notice.title}</div>
+                  <div className="text-[10px] text-black/40 uppercase font-bold">
+                    {notice.category} · {notice.archiveReason === 'expired' ? 'Expired' : 'Archived'}{' '}
+                    {format(new Date(notice.archivedAt), 'MMM d, yyyy h:mm a')}
+                  </div>
+                </div>
+                <button
+                  onClick={() => restore(notice.id)}
+                  className="px-3 py-2 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-black/5 transition-all"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Restore
+                </button>
+              </div>
+            ))}
+            {!loading && notices.length === 0 && (
+              <p className="py-12 text-center text-black/40 text-sm italic">The archive is empty.</p>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
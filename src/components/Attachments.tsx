@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, Paperclip, X } from 'lucide-react';
+import { Attachment, ATTACHMENT_LIMITS, ATTACHMENT_TYPES } from '../types';
+import { api, attachmentUrl } from '../lib/api';
+import { cn } from '../lib/utils';
+
+const ACCEPT = Object.keys(ATTACHMENT_TYPES).join(',');
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function isImage(attachment: Attachment): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+/** Image thumbnails and document links for a notice card. */
+export function AttachmentList({ attachments }: { attachments: Attachment[] }) {
+  const images = attachments.filter(isImage);
+  const documents = attachments.filter(attachment => !isImage(attachment));
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className={cn("grid gap-2", images.length === 1 ? "grid-cols-1" : "grid-cols-3")}>
+          {images.map(image => (
+            <a key={image.id} href={attachmentUrl(image)} target="_blank" rel="noreferrer" title={image.filename}>
+              <img
+                src={attachmentUrl(image)}
+                alt={image.filename}
+                loading="lazy"
+                className={cn("w-full rounded-lg object-cover bg-black/5", images.length === 1 ? "max-h-48" : "h-20")}
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {documents.map(document => (
+        <div key={document.id} className="flex items-center gap-2 px-3 py-2 bg-black/5 rounded-lg text-xs font-semibold">
+          <FileText className="w-4 h-4 text-black/40 shrink-0" />
+          <a href={attachmentUrl(document)} target="_blank" rel="noreferrer" className="truncate hover:underline">
+            {document.filename}
+          </a>
+          <span className="ml-auto text-black/40 shrink-0">{formatSize(document.size)}</span>
+          <a href={attachmentUrl(document, true)} title="Download" className="p-1 rounded hover:bg-black/10 shrink-0">
+            <Download className="w-3.5 h-3.5" />
+          </a>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Drop zone for the notice form. Files are uploaded as soon as they are
+ * dropped or picked, so problems show up before the notice is saved.
+ */
+export function AttachmentPicker({
+  value,
+  onChange,
+  onUploadingChange
+}: {
+  value: Attachment[],
+  onChange: React.Dispatch<React.SetStateAction<Attachment[]>>,
+  onUploadingChange: (uploading: boolean) => void
+}) {
+  const [uploading, setUploading] = useState<File[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const busy = uploading.length > 0;
+  useEffect(() => onUploadingChange(busy), [busy]);
+
+  const upload = async (files: File[]) => {
+    setError(null);
+    const room = ATTACHMENT_LIMITS.perNotice - value.length - uploading.length;
+    if (files.length > room) {
+      setError(`A notice can have at most ${ATTACHMENT_LIMITS.perNotice} attachments`);
+      files = files.slice(0, Math.max(room, 0));
+    }
+    const accepted = files.filter(file => {
+      if (!(file.type in ATTACHMENT_TYPES)) {
+        setError(`${file.name} is not a PDF or image`);
+        return false;
+      }
+      if (file.size > ATTACHMENT_LIMITS.bytes) {
+        setError(`${file.name} is larger than ${formatSize(ATTACHMENT_LIMITS.bytes)}`);
+        return false;
+      }
+      return true;
+    });
+    if (!accepted.length) return;
+
+    setUploading(prev => [...prev, ...accepted]);
+    for (const file of accepted) {
+      try {
+        const { attachment } = await api.uploadAttachment(file);
+        onChange(prev => [...prev, attachment]);
+      } catch (err) {
+        setError(`${file.name}: ${(err as Error).message}`);
+      }
+      setUploading(prev => prev.filter(f => f !== file));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label
+        onDragOver={e => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setDragging(false);
+          upload(Array.from(e.dataTransfer.files));
+        }}
+        className={cn(
+          "flex flex-col items-center justify-center gap-1 px-4 py-6 rounded-xl border-2 border-dashed cursor-pointer transition-all",
+          dragging ? "border-black/40 bg-black/5" : "border-black/10 hover:bg-black/5"
+        )}
+      >
+        <Paperclip className="w-5 h-5 text-black/40" />
+        <span className="text-sm font-medium">Drop PDFs or images here, or click to choose</span>
+        <span className="text-[11px] text-black/40">
+          Up to {ATTACHMENT_LIMITS.perNotice} files, {formatSize(ATTACHMENT_LIMITS.bytes)} each
+        </span>
+        <input
+          type="file"
+          multiple
+          accept={ACCEPT}
+          className="hidden"
+          onChange={e => {
+            upload(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {value.map(attachment => (
+        <div key={attachment.id} className="flex items-center gap-2 px-3 py-2 bg-black/5 rounded-lg text-xs font-semibold">
+          {isImage(attachment)
+            ? <img src={attachmentUrl(attachment)} alt="" className="w-8 h-8 rounded object-cover" />
+            : <FileText className="w-4 h-4 text-black/40" />}
+          <span className="truncate">{attachment.filename}</span>
+          <span className="ml-auto text-black/40 shrink-0">{formatSize(attachment.size)}</span>
+          <button
+            type="button"
+            onClick={() => onChange(prev => prev.filter(a => a.id !== attachment.id))}
+            title="Remove"
+            className="p-1 rounded hover:bg-black/10"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      {uploading.map((file, i) => (
+        <div key={`${file.name}-${i}`} className="px-3 py-2 bg-black/5 rounded-lg text-xs font-semibold text-black/40">
+          Uploading {file.name}…
+        </div>
+      ))}
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { AUDIENCE_LIMITS, NoticeAudience, YEARS_OF_STUDY } from '../types';
+import { AUDIENCE_FIELDS, AudienceField, normalizeAudience } from '../lib/audience';
+import { api } from '../lib/api';
+import { cn } from '../lib/utils';
+
+type TextField = Exclude<AudienceField, 'years'>;
+
+function TextValues({
+  field,
+  label,
+  values,
+  suggestions,
+  onChange
+}: {
+  field: TextField,
+  label: string,
+  values: string[],
+  suggestions: string[],
+  onChange: (values: string[]) => void,
+  key?: React.Key
+}) {
+  const [draft, setDraft] = useState('');
+  const listId = `audience-${field}`;
+
+  const add = () => {
+    const value = draft.replace(/,/g, ' ').trim();
+    if (value && !values.includes(value)) onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">{label}</label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {values.map(value => (
+          <span key={value} className="pl-2.5 pr-1 py-1 bg-black text-white rounded-lg text-xs font-semibold flex items-center gap-1">
+            {value}
+            <button type="button" onClick={() => onChange(values.filter(v => v !== value))} className="p-0.5 hover:bg-white/20 rounded">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <div className="flex items-center bg-black/5 rounded-lg">
+          <input
+            type="text"
+            list={listId}
+            value={draft}
+            maxLength={AUDIENCE_LIMITS.value}
+            placeholder={values.length ? 'Add another' : 'Any'}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                add();
+              }
+            }}
+            className="px-2.5 py-1 bg-transparent text-xs outline-none w-32"
+          />
+          <button type="button" onClick={add} disabled={!draft.trim()} className="p-1 text-black/40 hover:text-black disabled:opacity-30">
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <datalist id={listId}>
+          {suggestions.filter(s => !values.includes(s)).map(s => <option key={s} value={s} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Faculty, department, year and campus pickers. Used both to target a notice
+ * and to choose what a board follows; leaving a field empty means "any".
+ * Suggestions come from the notices on `board`.
+ */
+export function AudienceFields({
+  board,
+  value,
+  onChange
+}: {
+  board: string | null,
+  value: NoticeAudience | undefined,
+  onChange: (audience: NoticeAudience | undefined) => void
+}) {
+  const [known, setKnown] = useState<Required<NoticeAudience> | null>(null);
+
+  useEffect(() => {
+    api.listAudiences(board)
+      .then(({ audiences }) => setKnown(audiences))
+      .catch(() => setKnown(null));
+  }, [board]);
+
+  const update = (field: AudienceField, values: (string | number)[]) => {
+    onChange(normalizeAudience({ ...value, [field]: values }));
+  };
+
+  const years = value?.years ?? [];
+
+  return (
+    <div className="space-y-3">
+      {AUDIENCE_FIELDS.map(({ field, label }) => field === 'years' ? (
+        <div key={field} className="space-y-1.5">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">{label}</label>
+          <div className="flex flex-wrap gap-1.5">
+            {YEARS_OF_STUDY.map(year => (
+              <button
+                key={year}
+                type="button"
+                onClick={() => update('years', years.includes(year) ? years.filter(y => y !== year) : [...years, year])}
+                className={cn(
+                  "w-9 py-1 rounded-lg text-xs font-semibold transition-all",
+                  years.includes(year) ? "bg-black text-white" : "bg-black/5 text-black/60 hover:text-black"
+                )}
+              >
+                {year}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <TextValues
+          key={field}
+          field={field}
+          label={label}
+          values={value?.[field] ?? []}
+          suggestions={known?.[field] ?? []}
+          onChange={values => update(field, values)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ChevronDown, ChevronRight, Download, ScrollText, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { AuditAction, AuditEntry, AuditQuery, AUDIT_ACTIONS } from '../types';
+import { api } from '../lib/api';
+import { cn, dayBoundary, saveFile } from '../lib/utils';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'notice.create': 'Notice created',
+  'notice.update': 'Notice edited',
+  'notice.review': 'Notice reviewed',
+  'notice.delete': 'Notice deleted',
+  'notice.archive': 'Notice archived',
+  'notice.restore': 'Notice restored',
+  'notice.pin': 'Notice pinned',
+  'notice.unpin': 'Notice unpinned',
+  'notice.reorder': 'Pinned notices reordered',
+  'emergency.issue': 'Emergency issued',
+  'emergency.clear': 'Emergency cleared',
+  'user.create': 'User created',
+  'user.delete': 'User deleted',
+  'display_profile.create': 'Display profile created',
+  'display_profile.update': 'Display profile edited',
+  'display_profile.delete': 'Display profile deleted',
+  'category.create': 'Category created',
+  'category.update': 'Category edited',
+  'category.delete': 'Category deleted',
+  'priority.create': 'Priority created',
+  'priority.update': 'Priority edited',
+  'priority.delete': 'Priority deleted',
+  'board.create': 'Board created',
+  'board.update': 'Board edited',
+  'board.delete': 'Board deleted',
+  'backup.import': 'Imported from backup',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** The fields that differ between the two snapshots, or every field when only one exists. */
+function changedFields(entry: AuditEntry): { field: string, before: unknown, after: unknown }[] {
+  const before = (entry.before ?? {}) as Record<string, unknown>;
+  const after = (entry.after ?? {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+function EntryChanges({ entry }: { entry: AuditEntry }) {
+  const changes = changedFields(entry);
+  if (changes.length === 0) {
+    return <p className="text-xs italic text-black/40">No snapshot was recorded for this action.</p>;
+  }
+  return (
+    <table className="w-full text-xs">
+      <tbody className="divide-y divide-black/5">
+        {changes.map(({ field, before, after }) => (
+          <tr key={field} className="align-top">
+            <td className="py-2 pr-4 font-bold text-black/60 whitespace-nowrap">{field}</td>
+            <td className="py-2 pr-4 w-1/2 break-all">
+              {entry.before !== undefined && <span className="bg-red-100 text-red-700">{formatValue(before)}</span>}
+            </td>
+            <td className="py-2 w-1/2 break-all">
+              {entry.after !== undefined && <span className="bg-emerald-100 text-emerald-800">{formatValue(after)}</span>}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Read-only view of the audit log, newest first. Filters apply to the CSV
+ * export as well, so an admin can download exactly what they are looking at.
+ */
+export function AuditLogModal({ onClose }: { onClose: () => void }) {
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [actor, setActor] = useState('');
+  const [noticeId, setNoticeId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const query: AuditQuery = {
+    action: action ? [action] : undefined,
+    actor: actor.trim() || undefined,
+    noticeId: Number(noticeId) || undefined,
+    from: dayBoundary(from, false),
+    to: dayBoundary(to, true),
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    api.queryAudit(query)
+      .then(page => {
+        if (cancelled) return;
+        setEntries(page.entries);
+        setNextCursor(page.nextCursor);
+        setError(null);
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => { cancelled = true; };
+  }, [action, actor, noticeId, from, to]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setBusy(true);
+    try {
+      const page = await api.queryAudit({ ...query, cursor: nextCursor });
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportCsv = async () => {
+    setBusy(true);
+    try {
+      const { blob, filename } = await api.exportAudit(query);
+      saveFile(blob, filename);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-5xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ScrollText className="w-6 h-6" />
+              <div>
+                <h3 className="text-2xl font-bold">Audit Log</h3>
+                <p className="text-sm text-black/60">Every change made to the board, by whom and from where.</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-5 gap-3">
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Action</label>
+              <select
+                value={action}
+                onChange={e => setAction(e.target.value as AuditAction | '')}
+                className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none appearance-none"
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">User</label>
+              <input
+                value={actor}
+                onChange={e => setActor(e.target.value)}
+                placeholder="Username"
+                className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Notice ID</label>
+              <input
+                type="number"
+                min={1}
+                value={noticeId}
+                onChange={e => setNoticeId(e.target.value)}
+                className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">From</label>
+              <input
+                type="date"
+                value={from}
+                onChange={e => setFrom(e.target.value)}
+                className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">To</label>
+              <input
+                type="date"
+                value={to}
+                onChange={e => setTo(e.target.value)}
+                className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          <div className="max-h-[50vh] overflow-y-auto rounded-2xl border border-black/5">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
+                  <th className="px-4 py-3">When</th>
+                  <th className="px-4 py-3">User</th>
+                  <th className="px-4 py-3">Action</th>
+                  <th className="px-4 py-3">Notice</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-black/5">
+                {entries.map(entry => (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      className={cn("cursor-pointer hover:bg-black/[0.02] transition-colors", expanded === entry.id && "bg-black/[0.02]")}
+                    >
+                      <td className="px-4 py-3 text-xs font-medium whitespace-nowrap">
+                        <span className="inline-flex items-center gap-1">
+                          {expanded === entry.id ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                          {format(new Date(entry.at), 'MMM d, yyyy h:mm:ss a')}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-bold">{entry.actorName ?? 'System'}</div>
+                        {entry.ip && <div className="text-[10px] text-black/40">{entry.ip}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+                      <td className="px-4 py-3 text-sm font-mono">{entry.noticeId ? `#${entry.noticeId}` : ''}</td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr>
+                        <td colSpan={4} className="px-4 pb-4">
+                          <EntryChanges entry={entry} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+                {entries.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-12 text-center text-black/40 text-sm italic">
+                      No entries match these filters.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <button
+              onClick={exportCsv}
+              disabled={busy}
+              className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+            {nextCursor && (
+              <button
+                onClick={loadMore}
+                disabled={busy}
+                className="px-4 py-2 rounded-xl bg-white border border-black/10 text-sm font-semibold hover:bg-black/5 transition-all disabled:opacity-50"
+              >
+                {busy ? 'Loading…' : 'Load more'}
+              </button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, Download, FileUp, HardDrive, Upload, X } from 'lucide-react';
+import { ExportFormat, ImportConflictMode, ImportReport, Notice, NoticeCategory } from '../types';
+import { api } from '../lib/api';
+import { cn, dayBoundary, saveFile } from '../lib/utils';
+
+const PLACEMENT_LABELS = { live: 'on the board', scheduled: 'scheduled', archived: 'in the archive' };
+
+function ExportSection({ categories }: { categories: NoticeCategory[] }) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [chosen, setChosen] = useState<Notice['category'][]>([]);
+  const [includeArchived, setIncludeArchived] = useState(true);
+  const [includeRevisions, setIncludeRevisions] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCategory = (category: Notice['category']) => {
+    setChosen(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+  };
+
+  const download = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const { blob, filename } = await api.exportBoard(exportFormat, {
+        from: dayBoundary(from, false),
+        to: dayBoundary(to, true),
+        category: chosen,
+        includeArchived,
+        includeRevisions
+      });
+      saveFile(blob, filename);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Download className="w-4 h-4 text-black/40" />
+        <h4 className="font-bold text-sm uppercase tracking-widest text-black/40">Export</h4>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Format</label>
+          <select
+            value={exportFormat}
+            onChange={e => setExportFormat(e.target.value as ExportFormat)}
+            className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none appearance-none"
+          >
+            <option value="csv">CSV report</option>
+            <option value="json">JSON backup</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">From</label>
+          <input
+            type="date"
+            value={from}
+            onChange={e => setFrom(e.target.value)}
+            className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">To</label>
+          <input
+            type="date"
+            value={to}
+            onChange={e => setTo(e.target.value)}
+            className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">
+          Categories {chosen.length === 0 && '(all)'}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(({ id, name }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => toggleCategory(name)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-xs font-semibold transition-all",
+                chosen.includes(name) ? "bg-black text-white" : "bg-black/5 text-black/60 hover:text-black"
+              )}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-6">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input type="checkbox" checked={includeArchived} onChange={e => setIncludeArchived(e.target.checked)} />
+          Include archived notices
+        </label>
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input type="checkbox" checked={includeRevisions} onChange={e => setIncludeRevisions(e.target.checked)} />
+          Include revisions
+        </label>
+      </div>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+
+      <button
+        onClick={download}
+        disabled={busy}
+        className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" />
+        {busy ? 'Preparing…' : 'Download'}
+      </button>
+    </section>
+  );
+}
+
+function RestoreSection() {
+  const [file, setFile] = useState<{ name: string, text: string } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<string | null>(null);
+
+  const choose = async (chosen: File | undefined) => {
+    setFile(null);
+    setReport(null);
+    setError(null);
+    setDone(null);
+    if (!chosen) return;
+    setBusy(true);
+    try {
+      const text = await chosen.text();
+      const { report } = await api.checkImport(text);
+      setFile({ name: chosen.name, text });
+      setReport(report);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async (onConflict?: ImportConflictMode) => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const { result } = await api.importBackup(file.text, onConflict);
+      setDone(
+        `Restored ${result.imported} notice${result.imported === 1 ? '' : 's'}` +
+        (result.replaced ? `, replacing ${result.replaced}` : '') +
+        (result.skipped ? `, skipped ${result.skipped}` : '') +
+        (result.revisions ? ` and ${result.revisions} revisions` : '') + '.'
+      );
+      setFile(null);
+      setReport(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Upload className="w-4 h-4 text-black/40" />
+        <h4 className="font-bold text-sm uppercase tracking-widest text-black/40">Restore from Backup</h4>
+      </div>
+
+      <label className="flex items-center gap-3 px-4 py-3 bg-black/5 rounded-xl cursor-pointer hover:bg-black/10 transition-all">
+        <FileUp className="w-5 h-5 text-black/40" />
+        <span className="text-sm font-medium">{file?.name ?? 'Choose a JSON backup…'}</span>
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            choose(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {report && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            This backup holds <strong>{report.notices}</strong> notices, <strong>{report.archived}</strong> archived
+            notices and <strong>{report.revisions}</strong> revisions.
+          </p>
+
+          {report.conflicts.length > 0 && (
+            <div className="rounded-2xl p-4 space-y-2 bg-amber-50 border border-amber-200">
+              <div className="flex items-center gap-2 text-amber-700 text-sm font-bold">
+                <AlertTriangle className="w-4 h-4" />
+                {report.conflicts.length} already exist on this board
+              </div>
+              <ul className="max-h-40 overflow-y-auto divide-y divide-amber-100">
+                {report.conflicts.map(conflict => (
+                  <li key={conflict.id} className="py-1.5 text-xs">
+                    <span className="font-mono text-black/40">#{conflict.id}</span>{' '}
+                    <span className="font-semibold">{conflict.title}</span>
+                    {conflict.existingTitle !== conflict.title && (
+                      <span className="text-black/50"> (currently “{conflict.existingTitle}”)</span>
+                    )}{' '}
+                    <span className="text-black/40">is {PLACEMENT_LABELS[conflict.existing]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            {report.conflicts.length > 0 ? (
+              <>
+                <button
+                  onClick={() => restore('skip')}
+                  disabled={busy}
+                  className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold disabled:opacity-50"
+                >
+                  Skip Existing
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Overwrite ${report.conflicts.length} notices with the versions in this backup?`)) {
+                      restore('replace');
+                    }
+                  }}
+                  disabled={busy}
+                  className="px-4 py-2 rounded-xl bg-red-600 text-white text-sm font-bold disabled:opacity-50"
+                >
+                  Replace Existing
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => restore()}
+                disabled={busy}
+                className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold disabled:opacity-50"
+              >
+                Restore
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {busy && !report && <p className="text-sm text-black/40">Checking backup…</p>}
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+      {done && <p className="text-sm font-medium text-emerald-600">{done}</p>}
+    </section>
+  );
+}
+
+/** Exports board history for reports or backups, and restores a JSON backup. */
+export function BackupModal({ categories, onClose }: { categories: NoticeCategory[], onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-8 max-h-[85vh] overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <HardDrive className="w-6 h-6" />
+              <h3 className="text-2xl font-bold">Board History</h3>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <ExportSection categories={categories} />
+          <div className="border-t border-black/5" />
+          <RestoreSection />
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Bell } from 'lucide-react';
+import { Board, CategoryColor } from '../types';
+import { cn } from '../lib/utils';
+
+// Spelled out in full so Tailwind picks the classes up
+const BOARD_TILE_CLASSES: Record<CategoryColor, string> = {
+  slate: 'bg-black',
+  red: 'bg-red-600',
+  amber: 'bg-amber-500',
+  emerald: 'bg-emerald-600',
+  blue: 'bg-blue-600',
+  violet: 'bg-violet-600',
+  pink: 'bg-pink-600',
+  cyan: 'bg-cyan-600',
+};
+
+/** The board's name and tagline beside a tile in its colour; UniBoard's own until the board is known. */
+export function BoardBrand({ board, large = false }: { board: Board | null, large?: boolean }) {
+  return (
+    <div className={cn("flex items-center", large ? "gap-4" : "gap-3")}>
+      <div
+        className={cn(
+          "text-white flex items-center justify-center",
+          BOARD_TILE_CLASSES[board?.color ?? 'slate'],
+          large ? "w-16 h-16 rounded-2xl" : "w-10 h-10 rounded-xl"
+        )}
+      >
+        <Bell className={large ? "w-9 h-9" : "w-6 h-6"} />
+      </div>
+      {large ? (
+        <div>
+          <h1 className="text-4xl font-bold tracking-tight">{board?.name ?? 'UniBoard'}</h1>
+          {board?.tagline && <p className="text-lg font-medium text-black/40">{board.tagline}</p>}
+        </div>
+      ) : (
+        <div>
+          <h1 className="font-bold text-xl tracking-tight">{board?.name ?? 'UniBoard'}</h1>
+          <p className="text-[10px] uppercase tracking-widest text-black/40 font-semibold">
+            {board?.tagline || 'Smart Digital Notice Board'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
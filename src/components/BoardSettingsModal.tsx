@@ -0,0 +1,734 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ExternalLink, Flag, Monitor, Pencil, Plus, Settings, Tags, Trash2, X } from 'lucide-react';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  CATEGORY_LIMITS,
+  DEFAULT_DISPLAY_PROFILE,
+  DisplayOrientation,
+  DisplayProfile,
+  DisplayProfileInput,
+  Notice,
+  NoticeCategory,
+  NoticeCategoryInput,
+  NoticePriority,
+  NoticePriorityInput,
+  PRIORITY_LIMITS
+} from '../types';
+import { api } from '../lib/api';
+import { cn } from '../lib/utils';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS, CategoryIcon } from './CategoryIcon';
+
+function CategoryForm({
+  initial,
+  onSave,
+  onCancel
+}: {
+  initial: NoticeCategoryInput,
+  onSave: (input: NoticeCategoryInput) => Promise<void>,
+  onCancel: () => void,
+  key?: React.Key
+}) {
+  const [form, setForm] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await onSave(form);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 bg-black/5 rounded-2xl p-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2 space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Name</label>
+          <input
+            type="text"
+            required
+            placeholder="Sports"
+            maxLength={CATEGORY_LIMITS.name}
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Sort Order</label>
+          <input
+            type="number"
+            step={1}
+            value={form.sortOrder}
+            onChange={e => setForm(prev => ({ ...prev, sortOrder: Number(e.target.value) }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Colour</label>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              title={color}
+              onClick={() => setForm(prev => ({ ...prev, color }))}
+              className={cn(
+                "w-7 h-7 rounded-full transition-all",
+                CATEGORY_COLOR_CLASSES[color].swatch,
+                form.color === color ? "ring-2 ring-offset-2 ring-black" : "opacity-60 hover:opacity-100"
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Icon</label>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_ICONS.map(icon => {
+            const Icon = CATEGORY_ICON_COMPONENTS[icon];
+            return (
+              <button
+                key={icon}
+                type="button"
+                title={icon}
+                onClick={() => setForm(prev => ({ ...prev, icon }))}
+                className={cn(
+                  "p-2 rounded-lg transition-all",
+                  form.icon === icon ? "bg-black text-white" : "bg-white text-black/60 hover:text-black"
+                )}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-bold hover:bg-black/5">
+          Cancel
+        </button>
+        <button type="submit" className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold">
+          Save Category
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * The categories notices are filed under. The list itself arrives over the
+ * board's socket, so changes show up here once the server broadcasts them.
+ */
+function CategorySettings({ categories }: { categories: NoticeCategory[] }) {
+  const [editing, setEditing] = useState<NoticeCategory | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<NoticeCategory | null>(null);
+  const [moveTo, setMoveTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (input: NoticeCategoryInput) => {
+    if (editing === 'new') {
+      await api.createCategory(input);
+    } else if (editing) {
+      await api.updateCategory(editing.id, input);
+    }
+    setEditing(null);
+  };
+
+  const startDelete = (category: NoticeCategory) => {
+    setError(null);
+    setMoveTo('');
+    setDeleting(category);
+  };
+
+  const remove = async () => {
+    if (!deleting) return;
+    setError(null);
+    try {
+      await api.deleteCategory(deleting.id, Number(moveTo) || undefined);
+      setDeleting(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const nextSortOrder = Math.max(-1, ...categories.map(c => c.sortOrder)) + 1;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Tags className="w-4 h-4 text-black/40" />
+          <h4 className="font-bold text-sm uppercase tracking-widest text-black/40">Categories</h4>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-3 py-2 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-black/5 transition-all"
+          >
+            <Plus className="w-4 h-4" />
+            New Category
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+      {editing !== null && (
+        <CategoryForm
+          key={editing === 'new' ? 'new' : editing.id}
+          initial={editing === 'new' ? { name: '', color: 'slate', icon: 'bell', sortOrder: nextSortOrder } : editing}
+          onSave={save}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <ul className="divide-y divide-black/5">
+        {categories.map(category => (
+          <li key={category.id} className="py-3 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-black/5 rounded-lg">
+                  <CategoryIcon category={category} className="w-4 h-4" />
+                </div>
+                <div>
+                  <div className="font-bold text-sm">{category.name}</div>
+                  <div className="text-[10px] text-black/40 uppercase font-bold">
+                    {category.color} · {category.icon} · order {category.sortOrder}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <button
+                  onClick={() => setEditing(category)}
+                  title="Edit category"
+                  className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => startDelete(category)}
+                  title="Delete category"
+                  className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {deleting?.id === category.id && (
+              <div className="flex flex-wrap items-center gap-2 bg-red-50 rounded-xl p-3 text-sm">
+                <span className="font-medium">Move its notices to</span>
+                <select
+                  value={moveTo}
+                  onChange={e => setMoveTo(e.target.value)}
+                  className="px-3 py-1.5 bg-white rounded-lg text-sm outline-none appearance-none"
+                >
+                  <option value="">No other category</option>
+                  {categories.filter(c => c.id !== category.id).map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <div className="ml-auto flex gap-2">
+                  <button onClick={() => setDeleting(null)} className="px-3 py-1.5 rounded-lg text-sm font-bold hover:bg-black/5">
+                    Cancel
+                  </button>
+                  <button onClick={remove} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm font-bold">
+                    Delete {category.name}
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function PriorityForm({
+  initial,
+  onSave,
+  onCancel
+}: {
+  initial: NoticePriorityInput,
+  onSave: (input: NoticePriorityInput) => Promise<void>,
+  onCancel: () => void,
+  key?: React.Key
+}) {
+  const [form, setForm] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await onSave(form);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 bg-black/5 rounded-2xl p-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2 space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Name</label>
+          <input
+            type="text"
+            required
+            placeholder="Critical"
+            maxLength={PRIORITY_LIMITS.name}
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Rank</label>
+          <input
+            type="number"
+            step={1}
+            value={form.rank}
+            onChange={e => setForm(prev => ({ ...prev, rank: Number(e.target.value) }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Colour</label>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              title={color}
+              onClick={() => setForm(prev => ({ ...prev, color }))}
+              className={cn(
+                "w-7 h-7 rounded-full transition-all",
+                CATEGORY_COLOR_CLASSES[color].swatch,
+                form.color === color ? "ring-2 ring-offset-2 ring-black" : "opacity-60 hover:opacity-100"
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={form.ticker}
+          onChange={e => setForm(prev => ({ ...prev, ticker: e.target.checked }))}
+        />
+        Urgent: flag these notices and run their titles on the kiosk ticker
+      </label>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-bold hover:bg-black/5">
+          Cancel
+        </button>
+        <button type="submit" className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold">
+          Save Priority
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** The priorities notices are given, highest rank first; like the categories, the list arrives over the socket. */
+function PrioritySettings({ priorities }: { priorities: NoticePriority[] }) {
+  const [editing, setEditing] = useState<NoticePriority | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<NoticePriority | null>(null);
+  const [moveTo, setMoveTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (input: NoticePriorityInput) => {
+    if (editing === 'new') {
+      await api.createPriority(input);
+    } else if (editing) {
+      await api.updatePriority(editing.id, input);
+    }
+    setEditing(null);
+  };
+
+  const startDelete = (priority: NoticePriority) => {
+    setError(null);
+    setMoveTo('');
+    setDeleting(priority);
+  };
+
+  const remove = async () => {
+    if (!deleting) return;
+    setError(null);
+    try {
+      await api.deletePriority(deleting.id, Number(moveTo) || undefined);
+      setDeleting(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const nextRank = Math.max(-1, ...priorities.map(p => p.rank)) + 1;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Flag className="w-4 h-4 text-black/40" />
+          <h4 className="font-bold text-sm uppercase tracking-widest text-black/40">Priorities</h4>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-3 py-2 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-black/5 transition-all"
+          >
+            <Plus className="w-4 h-4" />
+            New Priority
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+      {editing !== null && (
+        <PriorityForm
+          key={editing === 'new' ? 'new' : editing.id}
+          initial={editing === 'new' ? { name: '', color: 'slate', rank: nextRank, ticker: false } : editing}
+          onSave={save}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <ul className="divide-y divide-black/5">
+        {priorities.map(priority => (
+          <li key={priority.id} className="py-3 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <span className={cn("w-3 h-3 rounded-full shrink-0", CATEGORY_COLOR_CLASSES[priority.color].swatch)} />
+                <div>
+                  <div className="font-bold text-sm">{priority.name}</div>
+                  <div className="text-[10px] text-black/40 uppercase font-bold">
+                    {priority.color} · rank {priority.rank}{priority.ticker && ' · urgent'}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center">
+                <button
+                  onClick={() => setEditing(priority)}
+                  title="Edit priority"
+                  className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => startDelete(priority)}
+                  title="Delete priority"
+                  className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {deleting?.id === priority.id && (
+              <div className="flex flex-wrap items-center gap-2 bg-red-50 rounded-xl p-3 text-sm">
+                <span className="font-medium">Move its notices to</span>
+                <select
+                  value={moveTo}
+                  onChange={e => setMoveTo(e.target.value)}
+                  className="px-3 py-1.5 bg-white rounded-lg text-sm outline-none appearance-none"
+                >
+                  <option value="">No other priority</option>
+                  {priorities.filter(p => p.id !== priority.id).map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <div className="ml-auto flex gap-2">
+                  <button onClick={() => setDeleting(null)} className="px-3 py-1.5 rounded-lg text-sm font-bold hover:bg-black/5">
+                    Cancel
+                  </button>
+                  <button onClick={remove} className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm font-bold">
+                    Delete {priority.name}
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function DisplayProfileForm({
+  initial,
+  categories,
+  onSave,
+  onCancel
+}: {
+  initial: DisplayProfileInput,
+  categories: NoticeCategory[],
+  onSave: (input: DisplayProfileInput) => Promise<void>,
+  onCancel: () => void,
+  key?: React.Key
+}) {
+  const [form, setForm] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCategory = (category: Notice['category']) => {
+    setForm(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category)
+        ? prev.categories.filter(c => c !== category)
+        : [...prev.categories, category]
+    }));
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await onSave(form);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 bg-black/5 rounded-2xl p-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Name</label>
+          <input
+            type="text"
+            required
+            placeholder="main-lobby"
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value.toLowerCase() }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Seconds per Page</label>
+          <input
+            type="number"
+            min={3}
+            max={300}
+            value={form.rotationSeconds}
+            onChange={e => setForm(prev => ({ ...prev, rotationSeconds: Number(e.target.value) }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Orientation</label>
+          <select
+            value={form.orientation}
+            onChange={e => setForm(prev => ({ ...prev, orientation: e.target.value as DisplayOrientation }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none appearance-none"
+          >
+            <option value="landscape">Landscape</option>
+            <option value="portrait">Portrait</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">
+          Categories {form.categories.length === 0 && '(all)'}
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(({ id, name }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => toggleCategory(name)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-xs font-semibold transition-all",
+                form.categories.includes(name) ? "bg-black text-white" : "bg-white text-black/60 hover:text-black"
+              )}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-bold hover:bg-black/5">
+          Cancel
+        </button>
+        <button type="submit" className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold">
+          Save Profile
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function DisplayProfileSettings({ categories }: { categories: NoticeCategory[] }) {
+  const [profiles, setProfiles] = useState<DisplayProfile[]>([]);
+  const [editing, setEditing] = useState<DisplayProfile | 'new' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    api.listDisplayProfiles()
+      .then(({ profiles }) => setProfiles(profiles))
+      .catch(err => setError(err.message));
+  };
+
+  // Renaming or deleting a category refiles the profiles that show it
+  useEffect(refresh, [categories]);
+
+  const save = async (input: DisplayProfileInput) => {
+    if (editing === 'new') {
+      await api.createDisplayProfile(input);
+    } else if (editing) {
+      await api.updateDisplayProfile(editing.id, input);
+    }
+    setEditing(null);
+    refresh();
+  };
+
+  const remove = async (id: number) => {
+    setError(null);
+    try {
+      await api.deleteDisplayProfile(id);
+      refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Monitor className="w-4 h-4 text-black/40" />
+          <h4 className="font-bold text-sm uppercase tracking-widest text-black/40">Display Profiles</h4>
+        </div>
+        {editing === null && (
+          <button
+            onClick={() => setEditing('new')}
+            className="px-3 py-2 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-black/5 transition-all"
+          >
+            <Plus className="w-4 h-4" />
+            New Profile
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+      {editing !== null && (
+        <DisplayProfileForm
+          key={editing === 'new' ? 'new' : editing.id}
+          initial={editing === 'new' ? { ...DEFAULT_DISPLAY_PROFILE, name: '' } : editing}
+          categories={categories}
+          onSave={save}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <ul className="divide-y divide-black/5">
+        {profiles.map(profile => (
+          <li key={profile.id} className="py-3 flex items-center justify-between gap-4">
+            <div>
+              <div className="font-bold text-sm">{profile.name}</div>
+              <div className="text-[10px] text-black/40 uppercase font-bold">
+                {profile.categories.length ? profile.categories.join(', ') : 'All categories'} ·{' '}
+                {profile.rotationSeconds}s · {profile.orientation}
+              </div>
+            </div>
+            <div className="flex items-center">
+              <a
+                href={`/kiosk/${profile.name}`}
+                target="_blank"
+                rel="noreferrer"
+                title="Open kiosk"
+                className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+              <button
+                onClick={() => setEditing(profile)}
+                title="Edit profile"
+                className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => remove(profile.id)}
+                title="Delete profile"
+                className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+        {profiles.length === 0 && (
+          <li className="py-8 text-center text-black/40 text-sm italic">
+            No display profiles yet. Screens at /kiosk show every category.
+          </li>
+        )}
+      </ul>
+    </section>
+  );
+}
+
+export function BoardSettingsModal({
+  categories,
+  priorities,
+  onClose
+}: {
+  categories: NoticeCategory[],
+  priorities: NoticePriority[],
+  onClose: () => void
+}) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-3xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-6 max-h-[85vh] overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Settings className="w-6 h-6" />
+              <h3 className="text-2xl font-bold">Board Settings</h3>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <CategorySettings categories={categories} />
+          <PrioritySettings priorities={priorities} />
+          <DisplayProfileSettings categories={categories} />
+        </div>
+      </motion.div>
+    </div>
+  );
+}
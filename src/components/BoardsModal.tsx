@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ExternalLink, LayoutGrid, Pencil, Plus, Trash2, Users, X } from 'lucide-react';
+import { Board, BOARD_LIMITS, BoardInput, CATEGORY_COLORS, User } from '../types';
+import { ROLE_LABELS } from '../permissions';
+import { api } from '../lib/api';
+import { boardPath } from '../lib/boards';
+import { cn } from '../lib/utils';
+import { CATEGORY_COLOR_CLASSES } from './CategoryIcon';
+
+function BoardForm({
+  initial,
+  onSave,
+  onCancel
+}: {
+  initial: BoardInput,
+  onSave: (input: BoardInput) => Promise<void>,
+  onCancel: () => void,
+  key?: React.Key
+}) {
+  const [form, setForm] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await onSave(form);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 bg-black/5 rounded-2xl p-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Name</label>
+          <input
+            type="text"
+            required
+            placeholder="Engineering"
+            maxLength={BOARD_LIMITS.name}
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Address</label>
+          <div className="flex items-center bg-white rounded-lg text-sm">
+            <span className="pl-3 text-black/40">/b/</span>
+            <input
+              type="text"
+              required
+              placeholder="engineering"
+              maxLength={BOARD_LIMITS.slug}
+              value={form.slug}
+              onChange={e => setForm(prev => ({ ...prev, slug: e.target.value.toLowerCase() }))}
+              className="w-full pr-3 py-2 bg-transparent outline-none"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Tagline</label>
+        <input
+          type="text"
+          placeholder="Faculty of Engineering"
+          maxLength={BOARD_LIMITS.tagline}
+          value={form.tagline}
+          onChange={e => setForm(prev => ({ ...prev, tagline: e.target.value }))}
+          className="w-full px-3 py-2 bg-white rounded-lg text-sm outline-none"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Colour</label>
+        <div className="flex flex-wrap gap-2">
+          {CATEGORY_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              title={color}
+              onClick={() => setForm(prev => ({ ...prev, color }))}
+              className={cn(
+                "w-7 h-7 rounded-full transition-all",
+                CATEGORY_COLOR_CLASSES[color].swatch,
+                form.color === color ? "ring-2 ring-offset-2 ring-black" : "opacity-60 hover:opacity-100"
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-bold hover:bg-black/5">
+          Cancel
+        </button>
+        <button type="submit" className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold">
+          Save Board
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** Who works on a board. Admins run every board, so only the other staff roles are listed. */
+function StaffForm({
+  board,
+  users,
+  onSave,
+  onCancel
+}: {
+  board: Board,
+  users: User[],
+  onSave: (userIds: number[]) => Promise<void>,
+  onCancel: () => void
+}) {
+  const candidates = users.filter(u => u.role === 'poster' || u.role === 'board_admin');
+  const [userIds, setUserIds] = useState(() => users.filter(u => u.boardIds.includes(board.id)).map(u => u.id));
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (id: number) => {
+    setUserIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const submit = async () => {
+    setError(null);
+    try {
+      await onSave(userIds);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="space-y-3 bg-black/5 rounded-xl p-3 text-sm">
+      <div className="flex flex-wrap gap-2">
+        {candidates.map(u => (
+          <button
+            key={u.id}
+            type="button"
+            onClick={() => toggle(u.id)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-xs font-semibold transition-all",
+              userIds.includes(u.id) ? "bg-black text-white" : "bg-white text-black/60 hover:text-black"
+            )}
+          >
+            {u.username} · {ROLE_LABELS[u.role]}
+          </button>
+        ))}
+        {candidates.length === 0 && (
+          <span className="text-black/40 italic">No poster or board admin accounts yet.</span>
+        )}
+      </div>
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 rounded-lg text-sm font-bold hover:bg-black/5">
+          Cancel
+        </button>
+        <button onClick={submit} className="px-3 py-1.5 rounded-lg bg-black text-white text-sm font-bold">
+          Save Staff
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Creates and edits the boards of faculties and campuses and decides who is
+ * on each one's staff. `onChange` is called after every change, so the
+ * board switcher can follow.
+ */
+export function BoardsModal({ onChange, onClose }: { onChange: () => void, onClose: () => void }) {
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [editing, setEditing] = useState<Board | 'new' | null>(null);
+  const [staffing, setStaffing] = useState<Board | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    Promise.all([api.listBoards(), api.listUsers()])
+      .then(([{ boards }, { users }]) => {
+        setBoards(boards);
+        setUsers(users);
+      })
+      .catch(err => setError(err.message));
+  };
+
+  useEffect(refresh, []);
+
+  const changed = () => {
+    refresh();
+    onChange();
+  };
+
+  const save = async (input: BoardInput) => {
+    if (editing === 'new') {
+      await api.createBoard(input);
+    } else if (editing) {
+      await api.updateBoard(editing.id, input);
+    }
+    setEditing(null);
+    changed();
+  };
+
+  const saveStaff = async (userIds: number[]) => {
+    if (!staffing) return;
+    await api.setBoardStaff(staffing.id, userIds);
+    setStaffing(null);
+    refresh();
+  };
+
+  const remove = async (id: number) => {
+    setError(null);
+    try {
+      await api.deleteBoard(id);
+      changed();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-3xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-6 max-h-[85vh] overflow-y-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <LayoutGrid className="w-6 h-6" />
+              <h3 className="text-2xl font-bold">Boards</h3>
+            </div>
+            <div className="flex items-center gap-2">
+              {editing === null && (
+                <button
+                  onClick={() => setEditing('new')}
+                  className="px-3 py-2 rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-black/5 transition-all"
+                >
+                  <Plus className="w-4 h-4" />
+                  New Board
+                </button>
+              )}
+              <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          {editing !== null && (
+            <BoardForm
+              key={editing === 'new' ? 'new' : editing.id}
+              initial={editing === 'new' ? { slug: '', name: '', tagline: '', color: 'slate' } : editing}
+              onSave={save}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+
+          <ul className="divide-y divide-black/5">
+            {boards.map(board => {
+              const staff = users.filter(u => u.boardIds.includes(board.id));
+              return (
+                <li key={board.id} className="py-3 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                      <span className={cn("w-3 h-3 rounded-full shrink-0", CATEGORY_COLOR_CLASSES[board.color].swatch)} />
+                      <div>
+                        <div className="font-bold text-sm">{board.name}</div>
+                        <div className="text-[10px] text-black/40 uppercase font-bold">
+                          /b/{board.slug} · {staff.length === 1 ? '1 staff member' : `${staff.length} staff`}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <a
+                        href={boardPath(board.slug)}
+                        title="Open board"
+                        className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                      <button
+                        onClick={() => setStaffing(staffing?.id === board.id ? null : board)}
+                        title="Choose staff"
+                        className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                      >
+                        <Users className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setEditing(board)}
+                        title="Edit board"
+                        className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => remove(board.id)}
+                        title="Delete board"
+                        className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  {staffing?.id === board.id && (
+                    <StaffForm
+                      board={board}
+                      users={users}
+                      onSave={saveStaff}
+                      onCancel={() => setStaffing(null)}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
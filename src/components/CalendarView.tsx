@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarPlus, ChevronLeft, ChevronRight, MapPin, X } from 'lucide-react';
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import { Notice, NoticeAudience, NoticeCategory } from '../types';
+import { api } from '../lib/api';
+import { audienceToParams } from '../lib/audience';
+import { formatEventTime } from '../lib/notices';
+import { cn } from '../lib/utils';
+import { categoryChipClass } from './CategoryIcon';
+import { Markdown } from './Markdown';
+
+type CalendarMode = 'month' | 'week';
+
+const MAX_EVENTS_PER_DAY = 3;
+
+function eventsOn(events: Notice[], day: Date): Notice[] {
+  return events.filter(event =>
+    new Date(event.eventStart!) <= endOfDay(day) && new Date(event.eventEnd ?? event.eventStart!) >= startOfDay(day)
+  );
+}
+
+function EventChip({
+  event,
+  categories,
+  onSelect
+}: {
+  event: Notice,
+  categories: NoticeCategory[],
+  onSelect: (event: Notice) => void,
+  key?: React.Key
+}) {
+  return (
+    <button
+      onClick={() => onSelect(event)}
+      className={cn(
+        "w-full text-left px-1.5 py-0.5 rounded text-[11px] font-semibold truncate",
+        categoryChipClass(categories, event.category)
+      )}
+    >
+      {format(new Date(event.eventStart!), 'h:mm')} {event.title}
+    </button>
+  );
+}
+
+/**
+ * Month or week calendar of notices that name an event time. It queries the
+ * server for the visible range and re-queries whenever `refreshKey` changes.
+ */
+export function CalendarView({
+  board,
+  categories,
+  category,
+  audience,
+  refreshKey
+}: {
+  board: string | null,
+  categories: NoticeCategory[],
+  category?: Notice['category'],
+  audience?: NoticeAudience,
+  refreshKey: unknown
+}) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [events, setEvents] = useState<Notice[]>([]);
+  const [selected, setSelected] = useState<Notice | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeStart = startOfWeek(mode === 'month' ? startOfMonth(anchor) : anchor);
+  const rangeEnd = endOfWeek(mode === 'month' ? endOfMonth(anchor) : anchor);
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+
+  useEffect(() => {
+    let cancelled = false;
+    api.listEvents({
+      board: board ?? undefined,
+      from: rangeStart.toISOString(),
+      to: rangeEnd.toISOString(),
+      category: category ? [category] : undefined,
+      audience
+    })
+      .then(({ notices }) => {
+        if (!cancelled) {
+          setEvents(notices);
+          setError(null);
+        }
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => { cancelled = true; };
+  }, [board, rangeStart.getTime(), rangeEnd.getTime(), category, audience, refreshKey]);
+
+  const step = (direction: 1 | -1) => {
+    setAnchor(prev => mode === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction));
+  };
+
+  const subscribeParams = audienceToParams(audience);
+  if (board) subscribeParams.set('board', board);
+  if (category) subscribeParams.set('category', category);
+  const query = subscribeParams.toString();
+  const subscribeUrl = `webcal://${window.location.host}/feeds/events.ics${query ? `?${query}` : ''}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button onClick={() => step(-1)} className="p-2 rounded-xl hover:bg-black/5 transition-all" title="Previous">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button onClick={() => step(1)} className="p-2 rounded-xl hover:bg-black/5 transition-all" title="Next">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-3 py-1.5 rounded-xl bg-white border border-black/10 text-xs font-semibold hover:bg-black/5 transition-all"
+          >
+            Today
+          </button>
+          <h3 className="ml-2 text-xl font-bold">
+            {mode === 'month'
+              ? format(anchor, 'MMMM yyyy')
+              : `${format(rangeStart, 'MMM d')} – ${format(rangeEnd, 'MMM d, yyyy')}`}
+          </h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {(['month', 'week'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={cn(
+                "px-4 py-2 rounded-xl text-xs font-semibold capitalize transition-all",
+                mode === m ? "bg-black text-white" : "bg-white border border-black/10 text-black/60 hover:bg-black/5"
+              )}
+            >
+              {m}
+            </button>
+          ))}
+          <a
+            href={subscribeUrl}
+            title="Add these events to your calendar app"
+            className="px-4 py-2 rounded-xl bg-white border border-black/10 text-xs font-semibold text-black/60 hover:bg-black/5 transition-all flex items-center gap-2"
+          >
+            <CalendarPlus className="w-4 h-4" />
+            Subscribe
+          </a>
+        </div>
+      </div>
+
+      {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+      <div className="glass rounded-2xl overflow-hidden">
+        <div className="grid grid-cols-7 border-b border-black/5">
+          {days.slice(0, 7).map(day => (
+            <div key={day.toISOString()} className="px-3 py-2 text-[10px] font-bold uppercase tracking-widest text-black/40">
+              {format(day, 'EEE')}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const dayEvents = eventsOn(events, day);
+            const limit = mode === 'month' ? MAX_EVENTS_PER_DAY : dayEvents.length;
+            return (
+              <div
+                key={day.toISOString()}
+                className={cn(
+                  "border-b border-r border-black/5 p-2 space-y-1",
+                  mode === 'month' ? "min-h-28" : "min-h-72",
+                  mode === 'month' && !isSameMonth(day, anchor) && "bg-black/[0.02] text-black/30"
+                )}
+              >
+                <div className={cn(
+                  "text-xs font-bold w-6 h-6 rounded-full flex items-center justify-center",
+                  isSameDay(day, new Date()) && "bg-black text-white"
+                )}>
+                  {format(day, 'd')}
+                </div>
+                {dayEvents.slice(0, limit).map(event => (
+                  <EventChip key={event.id} event={event} categories={categories} onSelect={setSelected} />
+                ))}
+                {dayEvents.length > limit && (
+                  <button
+                    onClick={() => { setAnchor(day); setMode('week'); }}
+                    className="text-[10px] font-bold text-black/40 hover:text-black"
+                  >
+                    +{dayEvents.length - limit} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selected && (
+        <div className="glass rounded-2xl p-6 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <span className={cn(
+                "px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded",
+                categoryChipClass(categories, selected.category)
+              )}>
+                {selected.category}
+              </span>
+              <h3 className="mt-2 font-bold text-xl leading-tight">{selected.title}</h3>
+            </div>
+            <button onClick={() => setSelected(null)} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs font-semibold text-black/60">
+            <span>{formatEventTime(selected)}</span>
+            {selected.location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="w-3.5 h-3.5" />
+                {selected.location}
+              </span>
+            )}
+          </div>
+          <Markdown text={selected.content} className="text-black/70 text-sm leading-relaxed" />
+          <p className="text-[11px] font-medium text-black/40 uppercase tracking-wider">{selected.author}</p>
+        </div>
+      )}
+    </div>
+  );
+}
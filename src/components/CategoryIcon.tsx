@@ -0,0 +1,64 @@
+import React from 'react';
+import {
+  AlertCircle,
+  Bell,
+  BookOpen,
+  Briefcase,
+  Bus,
+  CalendarDays,
+  Dumbbell,
+  FileText,
+  FlaskConical,
+  GraduationCap,
+  Heart,
+  Library,
+  LucideIcon,
+  Megaphone,
+  Music,
+  Trophy,
+  Utensils
+} from 'lucide-react';
+import { CategoryColor, CategoryIconName, NoticeCategory } from '../types';
+import { cn } from '../lib/utils';
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIconName, LucideIcon> = {
+  bell: Bell,
+  alert: AlertCircle,
+  book: BookOpen,
+  file: FileText,
+  trophy: Trophy,
+  calendar: CalendarDays,
+  graduation: GraduationCap,
+  library: Library,
+  flask: FlaskConical,
+  dumbbell: Dumbbell,
+  music: Music,
+  megaphone: Megaphone,
+  briefcase: Briefcase,
+  utensils: Utensils,
+  bus: Bus,
+  heart: Heart,
+};
+
+// Spelled out in full so Tailwind picks the classes up
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, { icon: string, chip: string, swatch: string }> = {
+  slate: { icon: 'text-slate-500', chip: 'bg-slate-100 text-slate-700', swatch: 'bg-slate-500' },
+  red: { icon: 'text-red-500', chip: 'bg-red-100 text-red-700', swatch: 'bg-red-500' },
+  amber: { icon: 'text-amber-500', chip: 'bg-amber-100 text-amber-800', swatch: 'bg-amber-500' },
+  emerald: { icon: 'text-emerald-500', chip: 'bg-emerald-100 text-emerald-800', swatch: 'bg-emerald-500' },
+  blue: { icon: 'text-blue-500', chip: 'bg-blue-100 text-blue-800', swatch: 'bg-blue-500' },
+  violet: { icon: 'text-violet-500', chip: 'bg-violet-100 text-violet-800', swatch: 'bg-violet-500' },
+  pink: { icon: 'text-pink-500', chip: 'bg-pink-100 text-pink-800', swatch: 'bg-pink-500' },
+  cyan: { icon: 'text-cyan-500', chip: 'bg-cyan-100 text-cyan-800', swatch: 'bg-cyan-500' },
+};
+
+/** Chip classes for a notice filed under `name`; neutral for a category the board no longer has. */
+export function categoryChipClass(categories: NoticeCategory[], name: string): string {
+  const category = categories.find(c => c.name === name);
+  return category ? CATEGORY_COLOR_CLASSES[category.color].chip : 'bg-black/5 text-black/70';
+}
+
+export function CategoryIcon({ category, className }: { category?: NoticeCategory, className?: string }) {
+  const Icon = CATEGORY_ICON_COMPONENTS[category?.icon ?? 'bell'];
+  return <Icon className={cn(className, CATEGORY_COLOR_CLASSES[category?.color ?? 'slate'].icon)} />;
+}
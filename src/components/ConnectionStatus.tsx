@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { WifiOff } from 'lucide-react';
+import { format, isToday } from 'date-fns';
+import { ConnectionStatus } from '../hooks/useBoardSocket';
+import { cn } from '../lib/utils';
+
+function useSecondsUntil(timestamp: number | null) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (timestamp === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [timestamp]);
+  return timestamp === null ? null : Math.max(0, Math.ceil((timestamp - now) / 1000));
+}
+
+/** When a screen's notices were last known to be current, e.g. "2:15 PM" today or "Mar 3, 2:15 PM" before. */
+function formatSyncedAt(syncedAt: number): string {
+  return isToday(syncedAt) ? format(syncedAt, 'h:mm a') : format(syncedAt, 'MMM d, h:mm a');
+}
+
+export function ConnectionIndicator({ status, syncedAt }: { status: ConnectionStatus, syncedAt?: number | null }) {
+  const label = status === 'open' ? 'Live' : status === 'connecting' ? 'Connecting' : 'Offline';
+  // While cut off, say how old the notices on screen are
+  const stamp = status !== 'open' && syncedAt ? ` · Updated ${formatSyncedAt(syncedAt)}` : '';
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-black/40">
+      <span
+        className={cn(
+          "w-2 h-2 rounded-full",
+          status === 'open' && "bg-emerald-500",
+          status === 'connecting' && "bg-amber-400 animate-pulse",
+          status === 'reconnecting' && "bg-red-500 animate-pulse"
+        )}
+      />
+      {label}{stamp}
+    </div>
+  );
+}
+
+export function ConnectionLostBanner({
+  status,
+  retryAt,
+  syncedAt,
+  onRetry
+}: {
+  status: ConnectionStatus,
+  retryAt: number | null,
+  syncedAt?: number | null,
+  onRetry: () => void
+}) {
+  const seconds = useSecondsUntil(retryAt);
+
+  return (
+    <AnimatePresence>
+      {status === 'reconnecting' && (
+        <motion.div
+          initial={{ height: 0, opacity: 0 }}
+          animate={{ height: 'auto', opacity: 1 }}
+          exit={{ height: 0, opacity: 0 }}
+          className="bg-red-600 text-white overflow-hidden"
+        >
+          <div className="px-6 py-2 flex items-center justify-center gap-3 text-sm font-medium">
+            <WifiOff className="w-4 h-4" />
+            <span>
+              Connection lost. {syncedAt ? `Showing notices as of ${formatSyncedAt(syncedAt)}.` : 'Notices may be out of date.'}
+              {seconds !== null && seconds > 0 ? ` Reconnecting in ${seconds}s…` : ' Reconnecting…'}
+            </span>
+            <button onClick={onRetry} className="underline underline-offset-2 font-bold">
+              Retry now
+            </button>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
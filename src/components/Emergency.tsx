@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, CheckCircle2, Siren, Volume2, VolumeX } from 'lucide-react';
+import { format } from 'date-fns';
+import { DisplayReceipt, EmergencyAlert, EmergencyAlertInput, EMERGENCY_LIMITS } from '../types';
+import { startAlertSound } from '../lib/alertSound';
+import { cn } from '../lib/utils';
+
+/** Full-screen takeover shown on public boards and kiosks while an alert is active. */
+export function EmergencyOverlay({
+  alert,
+  large = false,
+  action
+}: {
+  alert: EmergencyAlert,
+  large?: boolean,
+  action?: { label: string, onClick: () => void }
+}) {
+  const [muted, setMuted] = useState(false);
+
+  useEffect(() => {
+    if (!alert.sound || muted) return;
+    return startAlertSound();
+  }, [alert.id, alert.sound, muted]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      role="alertdialog"
+      aria-live="assertive"
+      className="fixed inset-0 z-[100] bg-red-600 text-white flex flex-col items-center justify-center p-12 text-center gap-8"
+    >
+      <AlertTriangle className={cn("animate-pulse", large ? "w-40 h-40" : "w-24 h-24")} />
+      <div className="space-y-6 max-w-5xl">
+        <p className={cn("font-bold uppercase tracking-[0.3em] text-white/70", large ? "text-3xl" : "text-sm")}>
+          Emergency Alert
+        </p>
+        <h2 className={cn("font-bold leading-tight", large ? "text-8xl" : "text-5xl")}>{alert.title}</h2>
+        <p className={cn("leading-snug whitespace-pre-line", large ? "text-5xl" : "text-2xl")}>{alert.message}</p>
+        <p className={cn("font-medium text-white/70", large ? "text-2xl" : "text-sm")}>
+          Issued {format(new Date(alert.issuedAt), 'h:mm a, MMM d')}
+        </p>
+      </div>
+      <div className="flex items-center gap-3">
+        {alert.sound && (
+          <button
+            onClick={() => setMuted(m => !m)}
+            className="px-4 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-sm font-bold flex items-center gap-2 transition-all"
+          >
+            {muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            {muted ? 'Unmute' : 'Mute'}
+          </button>
+        )}
+        {action && (
+          <button
+            onClick={action.onClick}
+            className="px-4 py-2 rounded-xl bg-white text-red-600 text-sm font-bold transition-all"
+          >
+            {action.label}
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+const EMPTY_ALERT: EmergencyAlertInput = { title: '', message: '', sound: true };
+
+/**
+ * Admin dashboard card for sending an emergency alert, watching which screens
+ * have confirmed it and sending the all clear.
+ */
+export function EmergencyPanel({
+  alert,
+  receipts,
+  onIssue,
+  onClear
+}: {
+  alert: EmergencyAlert | null,
+  receipts: DisplayReceipt[],
+  onIssue: (input: EmergencyAlertInput) => Promise<void>,
+  onClear: () => void
+}) {
+  const [form, setForm] = useState(EMPTY_ALERT);
+  const [error, setError] = useState<string | null>(null);
+
+  const issue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!window.confirm('Take over every public screen with this emergency alert?')) return;
+    setError(null);
+    try {
+      await onIssue(form);
+      setForm(EMPTY_ALERT);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!alert) {
+    return (
+      <form onSubmit={issue} className="glass rounded-2xl p-6 space-y-3">
+        <h3 className="font-bold text-sm uppercase tracking-widest text-black/40">Emergency Alert</h3>
+        <input
+          type="text"
+          placeholder="Headline, e.g. Evacuate Building C"
+          value={form.title}
+          maxLength={EMERGENCY_LIMITS.title}
+          onChange={e => setForm(prev => ({ ...prev, title: e.target.value }))}
+          className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+        />
+        <textarea
+          rows={3}
+          placeholder="Instructions"
+          value={form.message}
+          maxLength={EMERGENCY_LIMITS.message}
+          onChange={e => setForm(prev => ({ ...prev, message: e.target.value }))}
+          className="w-full px-3 py-2 bg-black/5 rounded-lg text-sm outline-none resize-none"
+        />
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={form.sound}
+            onChange={e => setForm(prev => ({ ...prev, sound: e.target.checked }))}
+          />
+          Play alert sound
+        </label>
+        {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!form.title.trim() || !form.message.trim()}
+          className="w-full px-4 py-2 rounded-xl bg-red-600 text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Siren className="w-4 h-4" />
+          Send Emergency Alert
+        </button>
+      </form>
+    );
+  }
+
+  const confirmed = receipts.filter(r => r.receivedAt).length;
+
+  return (
+    <div className="rounded-2xl p-6 space-y-4 bg-red-50 border border-red-200">
+      <div className="flex items-center gap-2 text-red-600">
+        <Siren className="w-5 h-5 animate-pulse" />
+        <h3 className="font-bold text-sm uppercase tracking-widest">Emergency Alert Active</h3>
+      </div>
+      <div>
+        <div className="font-bold">{alert.title}</div>
+        <div className="text-[10px] text-black/40 uppercase font-bold">
+          Issued {format(new Date(alert.issuedAt), 'h:mm a')} · {confirmed} of {receipts.length} screens confirmed
+        </div>
+      </div>
+
+      <ul className="divide-y divide-red-100 max-h-60 overflow-y-auto">
+        {receipts.map(receipt => (
+          <li key={receipt.displayId} className="py-2 flex items-center justify-between gap-4">
+            <div>
+              <div className="text-sm font-bold">{receipt.label}</div>
+              <div className="text-[10px] text-black/40 font-mono">{receipt.displayId}</div>
+            </div>
+            {receipt.receivedAt ? (
+              <span className="flex items-center gap-1 text-xs font-bold text-emerald-600">
+                <CheckCircle2 className="w-4 h-4" />
+                {format(new Date(receipt.receivedAt), 'h:mm:ss a')}
+              </span>
+            ) : (
+              <span className={cn("text-xs font-bold", receipt.connected ? "text-amber-600" : "text-black/40")}>
+                {receipt.connected ? 'Waiting' : 'Offline'}
+              </span>
+            )}
+          </li>
+        ))}
+        {receipts.length === 0 && (
+          <li className="py-4 text-center text-black/40 text-sm italic">No public screens are connected.</li>
+        )}
+      </ul>
+
+      <button
+        onClick={onClear}
+        className="w-full px-4 py-2 rounded-xl bg-black text-white text-sm font-bold flex items-center justify-center gap-2"
+      >
+        <CheckCircle2 className="w-4 h-4" />
+        Send All Clear
+      </button>
+    </div>
+  );
+}
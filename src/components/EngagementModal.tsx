@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { BarChart3, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { AnalyticsReport, EngagementMetrics, Notice, NoticeCategory } from '../types';
+import { api } from '../lib/api';
+import { cn } from '../lib/utils';
+
+type Metric = keyof EngagementMetrics;
+
+const RANGES = [
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+const METRICS: { key: Metric, label: string }[] = [
+  { key: 'views', label: 'Views' },
+  { key: 'expands', label: 'Opened' },
+  { key: 'dwellSeconds', label: 'Time on Screen' },
+];
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatMetric(metric: Metric, value: number): string {
+  return metric === 'dwellSeconds' ? formatDuration(value) : value.toLocaleString();
+}
+
+function EngagementChart({ report, metric }: { report: AnalyticsReport, metric: Metric }) {
+  const max = Math.max(1, ...report.series.map(point => point[metric]));
+  const labelFormat = report.interval === 'hour' ? 'MMM d, h a' : 'MMM d';
+  const first = report.series[0];
+  const last = report.series[report.series.length - 1];
+
+  return (
+    <div className="space-y-2">
+      <div className="h-40 flex items-end gap-px">
+        {report.series.map(point => (
+          <div
+            key={point.bucket}
+            title={`${format(new Date(point.bucket), labelFormat)}: ${formatMetric(metric, point[metric])}`}
+            className="flex-1 h-full flex items-end hover:bg-black/5"
+          >
+            <div
+              className="w-full bg-black rounded-t-sm"
+              style={{ height: `${(point[metric] / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      {first && last && (
+        <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest text-black/40">
+          <span>{format(new Date(first.bucket), labelFormat)}</span>
+          <span>{format(new Date(last.bucket), labelFormat)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MetricsTable<T extends EngagementMetrics>({
+  title,
+  rows,
+  rowKey,
+  renderName
+}: {
+  title: string,
+  rows: T[],
+  rowKey: (row: T) => React.Key,
+  renderName: (row: T) => React.ReactNode
+}) {
+  return (
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
+          <th className="px-4 py-3">{title}</th>
+          <th className="px-4 py-3 text-right">Views</th>
+          <th className="px-4 py-3 text-right">Opened</th>
+          <th className="px-4 py-3 text-right">On Screen</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-black/5">
+        {rows.map(row => (
+          <tr key={rowKey(row)} className="text-sm">
+            <td className="px-4 py-3">{renderName(row)}</td>
+            <td className="px-4 py-3 text-right tabular-nums">{row.views.toLocaleString()}</td>
+            <td className="px-4 py-3 text-right tabular-nums">{row.expands.toLocaleString()}</td>
+            <td className="px-4 py-3 text-right tabular-nums">{formatDuration(row.dwellSeconds)}</td>
+          </tr>
+        ))}
+        {rows.length === 0 && (
+          <tr>
+            <td colSpan={4} className="px-4 py-8 text-center text-black/40 text-sm italic">Nothing was seen in this period.</td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * How often notices were seen on public boards and kiosks, opened, and how
+ * long they stayed on screen, charted over time and broken down by notice,
+ * category and screen, for one board.
+ */
+export function EngagementModal({ board, categories, onClose }: { board: string | null, categories: NoticeCategory[], onClose: () => void }) {
+  const [rangeMs, setRangeMs] = useState(RANGES[1].ms);
+  const [category, setCategory] = useState<Notice['category'] | ''>('');
+  const [metric, setMetric] = useState<Metric>('views');
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const to = new Date();
+    api.getAnalytics({
+      board: board ?? undefined,
+      from: new Date(to.getTime() - rangeMs).toISOString(),
+      to: to.toISOString(),
+      category: category ? [category] : undefined
+    })
+      .then(({ report }) => {
+        if (cancelled) return;
+        setReport(report);
+        setError(null);
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => { cancelled = true; };
+  }, [board, rangeMs, category]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-white rounded-3xl shadow-2xl"
+      >
+        <div className="p-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <BarChart3 className="w-6 h-6" />
+              <div>
+                <h3 className="text-2xl font-bold">Engagement</h3>
+                <p className="text-sm text-black/60">How often notices are seen and read on public boards and kiosks.</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {RANGES.map(range => (
+              <button
+                key={range.label}
+                onClick={() => setRangeMs(range.ms)}
+                className={cn(
+                  "px-4 py-2 rounded-xl text-xs font-semibold transition-all",
+                  rangeMs === range.ms ? "bg-black text-white" : "bg-white border border-black/10 text-black/60 hover:bg-black/5"
+                )}
+              >
+                {range.label}
+              </button>
+            ))}
+            <select
+              value={category}
+              onChange={e => setCategory(e.target.value as Notice['category'] | '')}
+              className="ml-auto px-3 py-2 bg-black/5 rounded-lg text-sm outline-none appearance-none"
+            >
+              <option value="">All categories</option>
+              {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+            </select>
+          </div>
+
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          {report && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                {METRICS.map(({ key, label }) => (
+                  <button
+                    key={key}
+                    onClick={() => setMetric(key)}
+                    className={cn(
+                      "p-4 rounded-xl text-left transition-all",
+                      metric === key ? "bg-black text-white" : "bg-black/5 hover:bg-black/10"
+                    )}
+                  >
+                    <p className="text-2xl font-bold">{formatMetric(key, report.totals[key])}</p>
+                    <p className={cn("text-[10px] font-bold uppercase", metric === key ? "text-white/60" : "text-black/40")}>{label}</p>
+                  </button>
+                ))}
+              </div>
+
+              <EngagementChart report={report} metric={metric} />
+
+              <div className="rounded-2xl border border-black/5 overflow-hidden">
+                <MetricsTable
+                  title="Notice"
+                  rows={report.notices}
+                  rowKey={row => row.noticeId}
+                  renderName={row => (
+                    <>
+                      <div className="font-bold">{row.title ?? `Deleted notice #${row.noticeId}`}</div>
+                      <div className="text-[10px] text-black/40">{row.category}</div>
+                    </>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-6">
+                <div className="rounded-2xl border border-black/5 overflow-hidden">
+                  <MetricsTable title="Category" rows={report.categories} rowKey={row => row.category} renderName={row => row.category} />
+                </div>
+                <div className="rounded-2xl border border-black/5 overflow-hidden">
+                  <MetricsTable
+                    title="Screen"
+                    rows={report.displays}
+                    rowKey={row => row.displayId}
+                    renderName={row => (
+                      <>
+                        <div className="font-bold">{row.label}</div>
+                        <div className="text-[10px] text-black/40 font-mono">{row.displayId}</div>
+                      </>
+                    )}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
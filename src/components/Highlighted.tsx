@@ -0,0 +1,16 @@
+import React from 'react';
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '../types';
+
+const MARKERS = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_END}`, 'gs');
+
+/** Renders text from a search result with its matched words marked. */
+export function Highlighted({ text }: { text: string }) {
+  const parts = text.split(MARKERS);
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-amber-200/70 text-inherit rounded px-0.5">{part}</mark>
+        : part)}
+    </>
+  );
+}
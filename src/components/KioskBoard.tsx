@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { AlertCircle, Maximize, Pin } from 'lucide-react';
+import { format } from 'date-fns';
+import { Board, DEFAULT_DISPLAY_PROFILE, DisplayProfileInput, EmergencyAlert, Notice, NoticeCategory, NoticePriority, ServerMessage } from '../types';
+import { api } from '../lib/api';
+import { offlineStore } from '../lib/offlineStore';
+import { cn } from '../lib/utils';
+import { applyNoticeChanges, noticeTime, upsertNotice } from '../lib/notices';
+import { audienceFromParams } from '../lib/audience';
+import { priorityCardClass } from '../lib/priorities';
+import { useBoardSocket } from '../hooks/useBoardSocket';
+import { useBoardCache } from '../hooks/useBoardCache';
+import { ImpressionTracker, useImpressions, useTrackImpression } from '../hooks/useImpressions';
+import { BoardBrand } from './BoardBrand';
+import { CategoryIcon } from './CategoryIcon';
+import { ConnectionIndicator } from './ConnectionStatus';
+import { EmergencyOverlay } from './Emergency';
+import { Markdown } from './Markdown';
+
+const NOTICES_PER_PAGE = { landscape: 3, portrait: 2 };
+
+function useClock() {
+  const [now, setNow] = useState(new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+function KioskNotice({
+  notice,
+  category,
+  priority,
+  impressions
+}: {
+  notice: Notice,
+  category?: NoticeCategory,
+  priority?: NoticePriority,
+  impressions: ImpressionTracker,
+  key?: React.Key
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  useTrackImpression(ref, notice.id, impressions);
+
+  return (
+    <div
+      ref={ref}
+      className={cn(
+        "glass rounded-3xl p-10 flex flex-col gap-6 min-h-0",
+        priorityCardClass(priority)
+      )}
+    >
+      <div className="flex items-center justify-between text-xl font-bold uppercase tracking-widest text-black/40">
+        <span className="flex items-center gap-3">
+          <CategoryIcon category={category} className="w-7 h-7" />
+          {notice.category}
+        </span>
+        <span className="flex items-center gap-3">
+          {notice.pinOrder !== undefined && <Pin className="w-7 h-7" />}
+          {priority?.ticker && (
+            <span className="px-3 py-1 bg-red-100 text-red-600 rounded-lg">Urgent</span>
+          )}
+        </span>
+      </div>
+      <h2 className="text-5xl font-bold leading-tight">{notice.title}</h2>
+      <div className="max-h-[8.25em] overflow-hidden text-3xl">
+        <Markdown text={notice.content} className="text-black/70 leading-snug" />
+      </div>
+      <div className="mt-auto text-xl font-medium text-black/40">
+        {notice.author} · {format(new Date(noticeTime(notice)), 'MMM d, h:mm a')}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Full-screen, hands-off board for lobby displays, served at `/kiosk/:profile`,
+ * or `/b/<slug>/kiosk/:profile` for another board than the default one.
+ * Pages through the notices allowed by the display profile on its rotation
+ * timer, with pinned notices held on every page, and keeps the titles of
+ * urgent notices, those of a priority marked for the ticker, in a ticker along
+ * the bottom. Without a connection it keeps showing the last notices it
+ * received, even across a reload.
+ */
+export function KioskBoard({ board: slug, profileName }: { board: string | null, profileName: string | null }) {
+  const [board, setBoard] = useState<Board | null>(null);
+  const [notices, setNotices] = useState<Notice[]>([]);
+  const [categories, setCategories] = useState<NoticeCategory[]>([]);
+  const [priorities, setPriorities] = useState<NoticePriority[]>([]);
+  const [profile, setProfile] = useState<DisplayProfileInput>(DEFAULT_DISPLAY_PROFILE);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [emergency, setEmergency] = useState<EmergencyAlert | null>(null);
+  const [live, setLive] = useState(false);
+  const now = useClock();
+  // e.g. /kiosk/lobby?faculty=Engineering for a screen in the engineering building
+  const [following] = useState(() => audienceFromParams(new URLSearchParams(window.location.search)));
+
+  // The profile is kept for offline starts too, falling back to the saved copy
+  useEffect(() => {
+    if (!profileName) return;
+    const key = `profile:${profileName}`;
+    api.getDisplayProfile(profileName)
+      .then(({ profile }) => {
+        setProfile(profile);
+        offlineStore.save(key, profile).catch(() => undefined);
+      })
+      .catch(async err => {
+        const saved = await offlineStore.load<DisplayProfileInput>(key).catch(() => undefined);
+        if (saved) {
+          setProfile(saved);
+        } else {
+          setProfileError(err.message);
+        }
+      });
+  }, [profileName]);
+
+  const handleServerEvent = (data: ServerMessage) => {
+    switch (data.type) {
+      case 'INITIAL_STATE':
+        setBoard(data.board);
+        setNotices(data.notices);
+        setCategories(data.categories);
+        setPriorities(data.priorities);
+        setEmergency(data.emergency ?? null);
+        setLive(true);
+        break;
+      case 'CATEGORIES_UPDATED': {
+        // The server has refiled notices and profiles already; follow suit locally
+        const { categories, renamed } = data;
+        setCategories(categories);
+        if (renamed) {
+          setNotices(prev => prev.map(n => n.category === renamed.from ? { ...n, category: renamed.to } : n));
+        }
+        setProfile(prev => ({
+          ...prev,
+          categories: [...new Set(prev.categories.flatMap(c => c === renamed?.from ? [renamed.to] : [c]))]
+            .filter(c => categories.some(category => category.name === c))
+        }));
+        break;
+      }
+      case 'PRIORITIES_UPDATED': {
+        const { priorities, renamed } = data;
+        setPriorities(priorities);
+        if (renamed) {
+          setNotices(prev => prev.map(n => n.priority === renamed.from ? { ...n, priority: renamed.to } : n));
+        }
+        break;
+      }
+      case 'BOARD_UPDATED':
+        setBoard(data.board);
+        break;
+      case 'NOTICE_ADDED':
+        setNotices(prev => upsertNotice(prev, data.notice));
+        break;
+      case 'NOTICE_UPDATED':
+        setNotices(prev => upsertNotice(prev, data.notice));
+        break;
+      case 'NOTICE_DELETED':
+        setNotices(prev => prev.filter(n => n.id !== data.id));
+        break;
+      case 'NOTICES_ARCHIVED':
+        setNotices(prev => prev.filter(n => !data.ids.includes(n.id)));
+        break;
+      case 'NOTICES_CHANGED':
+        setNotices(prev => applyNoticeChanges(prev, data.updated, data.removed));
+        break;
+      case 'DISPLAY_PROFILE_UPDATED':
+        if (data.profile.name === profileName) {
+          setProfile(data.profile);
+          setProfileError(null);
+          offlineStore.save(`profile:${profileName}`, data.profile).catch(() => undefined);
+        }
+        break;
+      case 'DISPLAY_PROFILE_DELETED':
+        if (data.name === profileName) {
+          setProfile(DEFAULT_DISPLAY_PROFILE);
+        }
+        break;
+      case 'EMERGENCY_OVERRIDE':
+        setEmergency(data.alert);
+        break;
+      case 'EMERGENCY_ALL_CLEAR':
+        setEmergency(prev => prev?.id === data.alertId ? null : prev);
+        break;
+    }
+  };
+
+  // Kiosks never sign in, so they always get the public feed.
+  const { status, sendEvent } = useBoardSocket({
+    enabled: true,
+    identity: null,
+    board: slug,
+    displayLabel: `Kiosk: ${profileName ?? DEFAULT_DISPLAY_PROFILE.name}`,
+    following,
+    onEvent: handleServerEvent
+  });
+
+  useEffect(() => {
+    if (!emergency || status !== 'open') return;
+    sendEvent({ type: 'ACK_EMERGENCY', alertId: emergency.id }).catch(() => undefined);
+  }, [emergency?.id, status]);
+
+  const impressions = useImpressions(sendEvent, true);
+
+  const syncedAt = useBoardCache(`${slug ? `${slug}:` : ''}kiosk:${profileName ?? DEFAULT_DISPLAY_PROFILE.name}`, { notices, categories, priorities, live, status }, snapshot => {
+    setNotices(snapshot.notices);
+    setCategories(snapshot.categories);
+    setPriorities(snapshot.priorities);
+  });
+
+  const shown = notices.filter(n => profile.categories.length === 0 || profile.categories.includes(n.category));
+  const perPage = NOTICES_PER_PAGE[profile.orientation];
+  // Pinned notices stay on screen while the rest rotate after them, as long
+  // as they leave room for the rotation; otherwise everything rotates
+  const pinned = shown.filter(n => n.pinOrder !== undefined);
+  const holdPinned = pinned.length < perPage && pinned.length < shown.length;
+  const rotating = holdPinned ? shown.filter(n => n.pinOrder === undefined) : shown;
+  const slots = holdPinned ? perPage - pinned.length : perPage;
+  const pageCount = Math.max(1, Math.ceil(rotating.length / slots));
+  const currentPage = page % pageCount;
+  const onScreen = [...(holdPinned ? pinned : []), ...rotating.slice(currentPage * slots, (currentPage + 1) * slots)];
+  const urgent = shown.filter(n => priorities.some(p => p.ticker && p.name === n.priority));
+
+  useEffect(() => {
+    const timer = setInterval(() => setPage(p => p + 1), profile.rotationSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [profile.rotationSeconds]);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      document.documentElement.requestFullscreen().catch(() => undefined);
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen overflow-hidden bg-[#F8F9FA] cursor-none">
+      <div className={cn("kiosk-frame flex flex-col", profile.orientation === 'portrait' && "kiosk-portrait")}>
+        <header className="px-12 py-8 flex items-center justify-between">
+          <BoardBrand board={board} large />
+          <div className="flex items-center gap-8">
+            <ConnectionIndicator status={status} syncedAt={syncedAt} />
+            <div className="text-right">
+              <div className="text-5xl font-bold tabular-nums">{format(now, 'h:mm')}</div>
+              <div className="text-lg font-medium text-black/40">{format(now, 'EEEE, MMMM d')}</div>
+            </div>
+            <button
+              onClick={toggleFullscreen}
+              title="Toggle full screen"
+              className="p-3 text-black/20 hover:text-black/60 cursor-pointer transition-all"
+            >
+              <Maximize className="w-6 h-6" />
+            </button>
+          </div>
+        </header>
+
+        <main className="flex-1 min-h-0 px-12 pb-8">
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={currentPage}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.6 }}
+              className={cn(
+                "h-full grid gap-8",
+                profile.orientation === 'portrait' ? "grid-rows-2" : "grid-cols-3"
+              )}
+            >
+              {onScreen.map(notice => (
+                <KioskNotice
+                  key={notice.id}
+                  notice={notice}
+                  category={categories.find(c => c.name === notice.category)}
+                  priority={priorities.find(p => p.name === notice.priority)}
+                  impressions={impressions}
+                />
+              ))}
+            </motion.div>
+          </AnimatePresence>
+          {shown.length === 0 && (
+            <p className="text-center text-3xl text-black/30 font-medium">
+              {profileError ?? 'No announcements right now.'}
+            </p>
+          )}
+        </main>
+
+        {pageCount > 1 && (
+          <div className="px-12 pb-4 flex gap-2">
+            {Array.from({ length: pageCount }, (_, i) => (
+              <span key={i} className={cn("h-1.5 flex-1 rounded-full", i === currentPage ? "bg-black" : "bg-black/10")} />
+            ))}
+          </div>
+        )}
+
+        {urgent.length > 0 && (
+          <footer className="bg-red-600 text-white py-4 overflow-hidden flex items-center">
+            <div className="px-8 flex items-center gap-3 text-2xl font-bold uppercase tracking-widest shrink-0 bg-red-600 z-10">
+              <AlertCircle className="w-8 h-8" />
+              Urgent
+            </div>
+            <div className="kiosk-ticker text-3xl font-semibold whitespace-nowrap">
+              {/* Two copies so the loop scrolls without a visible seam */}
+              {[0, 1].map(copy => (
+                <span key={copy} className="pr-24">
+                  {urgent.map(n => n.title).join('   •   ')}
+                </span>
+              ))}
+            </div>
+          </footer>
+        )}
+      </div>
+
+      <AnimatePresence>
+        {emergency && <EmergencyOverlay alert={emergency} large />}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Lock } from 'lucide-react';
+import { User } from '../types';
+import { api } from '../lib/api';
+
+export function LoginPanel({ onLogin }: { onLogin: (user: User) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const { user } = await api.login(username, password);
+      onLogin(user);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="max-w-md mx-auto mt-12 glass rounded-3xl p-8 space-y-6"
+    >
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-black text-white rounded-xl flex items-center justify-center">
+          <Lock className="w-5 h-5" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold">Admin Login</h2>
+          <p className="text-black/60 text-sm">Sign in to manage campus announcements.</p>
+        </div>
+      </div>
+
+      <form onSubmit={submit} className="space-y-4">
+        <div className="space-y-1.5">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Username</label>
+          <input
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full px-4 py-3 bg-black/5 border-none rounded-xl focus:ring-2 focus:ring-black/10 outline-none font-medium"
+          />
+        </div>
+
+        {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!username || !password || submitting}
+          className="w-full bg-black text-white py-4 rounded-2xl font-bold hover:bg-black/80 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </motion.div>
+  );
+}
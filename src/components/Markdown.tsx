@@ -0,0 +1,28 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { cn } from '../lib/utils';
+
+/**
+ * Renders a notice body written in Markdown. Raw HTML is dropped rather
+ * than interpreted and the result is sanitized, so nothing an author writes
+ * can run script on a board or lobby display. Pictures belong in
+ * attachments, so Markdown images are left out.
+ */
+export function Markdown({ text, className }: { text: string, className?: string }) {
+  return (
+    <div className={cn('markdown', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize]}
+        disallowedElements={['img']}
+        components={{
+          a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />
+        }}
+      >
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+}
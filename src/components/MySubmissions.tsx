@@ -0,0 +1,91 @@
+import React from 'react';
+import { FileEdit, Pencil, Send, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Notice } from '../types';
+import { NoticeStatusBadge } from './NoticeStatusBadge';
+
+/**
+ * The signed-in user's notices that are not on the board yet, with where
+ * each stands in review. Drafts and rejected notices can be submitted again
+ * from here.
+ */
+export function MySubmissions({
+  submissions,
+  canPublish,
+  onSubmit,
+  onEdit,
+  onDelete
+}: {
+  submissions: Notice[],
+  canPublish: boolean,
+  onSubmit: (notice: Notice) => void,
+  onEdit: (notice: Notice) => void,
+  onDelete: (id: number) => void
+}) {
+  return (
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
+          <th className="px-6 py-4">Notice</th>
+          <th className="px-6 py-4">Status</th>
+          <th className="px-6 py-4 text-right">Actions</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-black/5">
+        {submissions.map(notice => (
+          <tr key={notice.id} className="hover:bg-black/[0.02] transition-colors align-top">
+            <td className="px-6 py-4">
+              <div className="font-bold text-sm">{notice.title}</div>
+              <div className="text-[10px] text-black/40">
+                {notice.category} · {notice.publishAt
+                  ? `Goes live ${format(new Date(notice.publishAt), 'MMM d, h:mm a')}`
+                  : 'Goes live on approval'}
+              </div>
+              {notice.status === 'rejected' && notice.rejectionReason && (
+                <p className="mt-2 px-3 py-2 bg-red-50 text-red-700 rounded-lg text-xs font-medium">
+                  {notice.rejectionReason}
+                </p>
+              )}
+            </td>
+            <td className="px-6 py-4">
+              <NoticeStatusBadge status={notice.status} />
+            </td>
+            <td className="px-6 py-4 text-right whitespace-nowrap">
+              {(notice.status === 'draft' || notice.status === 'rejected') && (
+                <button
+                  onClick={() => onSubmit(notice)}
+                  title={canPublish ? 'Publish' : 'Submit for review'}
+                  className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={() => onEdit(notice)}
+                title="Edit notice"
+                className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDelete(notice.id)}
+                title="Delete notice"
+                className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </td>
+          </tr>
+        ))}
+        {submissions.length === 0 && (
+          <tr>
+            <td colSpan={3} className="px-6 py-12 text-center text-black/40 text-sm italic">
+              <FileEdit className="w-6 h-6 mx-auto mb-2 text-black/20" />
+              You have no drafts or notices in review.
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
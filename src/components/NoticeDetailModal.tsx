@@ -0,0 +1,96 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Calendar, Clock, MapPin, User, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Notice, NoticePriority } from '../types';
+import { describeAudience } from '../lib/audience';
+import { formatEventTime, noticeTime } from '../lib/notices';
+import { AttachmentList } from './Attachments';
+import { Markdown } from './Markdown';
+import { NoticeStatusBadge } from './NoticeStatusBadge';
+
+/** A notice in full, opened from its card or from a `/notices/:id` link. */
+export function NoticeDetailModal({
+  notice,
+  priority,
+  onClose
+}: {
+  notice: Notice,
+  priority?: NoticePriority,
+  onClose: () => void
+}) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-2xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-6 max-h-[85vh] overflow-y-auto">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-1.5">
+                {notice.status !== 'approved' && <NoticeStatusBadge status={notice.status} />}
+                <span className="px-2 py-1 bg-black/5 text-black/60 text-[10px] font-bold uppercase tracking-wider rounded">
+                  {notice.category}
+                </span>
+                {notice.audience && (
+                  <span className="px-2 py-1 bg-black/5 text-black/60 text-[10px] font-bold uppercase tracking-wider rounded">
+                    {describeAudience(notice.audience)}
+                  </span>
+                )}
+                {priority?.ticker && (
+                  <span className="px-2 py-1 bg-red-100 text-red-600 text-[10px] font-bold uppercase tracking-wider rounded">Urgent</span>
+                )}
+              </div>
+              <h3 className="text-2xl font-bold leading-tight">{notice.title}</h3>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {(notice.eventStart || notice.location) && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm font-semibold text-black/60">
+              {notice.eventStart && (
+                <span className="flex items-center gap-1.5">
+                  <Calendar className="w-4 h-4" />
+                  {formatEventTime(notice)}
+                </span>
+              )}
+              {notice.location && (
+                <span className="flex items-center gap-1.5">
+                  <MapPin className="w-4 h-4" />
+                  {notice.location}
+                </span>
+              )}
+            </div>
+          )}
+
+          <Markdown text={notice.content} className="text-black/70 leading-relaxed" />
+
+          {notice.attachments && <AttachmentList attachments={notice.attachments} />}
+
+          <div className="pt-4 border-t border-black/5 flex items-center justify-between text-[11px] font-medium text-black/40 uppercase tracking-wider">
+            <div className="flex items-center gap-1.5">
+              <User className="w-3 h-3" />
+              {notice.author}
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Clock className="w-3 h-3" />
+              {format(new Date(noticeTime(notice)), 'MMM d, yyyy, h:mm a')}
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
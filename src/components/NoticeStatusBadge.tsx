@@ -0,0 +1,20 @@
+import React from 'react';
+import { Notice } from '../types';
+import { cn } from '../lib/utils';
+
+const STATUS_STYLES: Record<Notice['status'], { label: string, className: string }> = {
+  draft: { label: 'Draft', className: 'bg-black/5 text-black/60' },
+  pending: { label: 'In Review', className: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'Scheduled', className: 'bg-emerald-100 text-emerald-700' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-600' },
+};
+
+/** Where a notice that is not on the board yet stands; approved ones are waiting for their publish time. */
+export function NoticeStatusBadge({ status }: { status: Notice['status'] }) {
+  const { label, className } = STATUS_STYLES[status];
+  return (
+    <span className={cn("px-2 py-1 text-[10px] font-bold uppercase tracking-wider rounded whitespace-nowrap", className)}>
+      {label}
+    </span>
+  );
+}
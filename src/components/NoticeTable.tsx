@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Archive,
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  GripVertical,
+  History,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2
+} from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  Notice,
+  NoticeBulkAction,
+  NoticeCategory,
+  NoticePage,
+  NoticePriority,
+  NoticeSortField,
+  SortOrder,
+  User
+} from '../types';
+import { canDeleteNotice, canEditNotice, hasPermission } from '../permissions';
+import { api } from '../lib/api';
+import { noticeTime } from '../lib/notices';
+import { cn } from '../lib/utils';
+import { CATEGORY_COLOR_CLASSES } from './CategoryIcon';
+
+const PAGE_SIZE = 20;
+
+const COLUMNS: { field: NoticeSortField, label: string }[] = [
+  { field: 'title', label: 'Notice' },
+  { field: 'category', label: 'Category' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'date', label: 'Date' },
+];
+
+// The way each column sorts when first clicked: newest, most urgent or A–Z first
+const FIRST_ORDER: Record<NoticeSortField, SortOrder> = { date: 'desc', title: 'asc', category: 'asc', priority: 'desc' };
+
+type Sort = { field: NoticeSortField, order: SortOrder };
+
+/**
+ * The live notices, a page at a time, in board order or sorted by a column.
+ * Admins pick rows for bulk changes, pin notices and drag pinned ones into
+ * the order they lead the board in. `refreshKey` changes with every live
+ * update, which reloads the page shown.
+ */
+export function NoticeTable({
+  board,
+  user,
+  categories,
+  priorities,
+  refreshKey,
+  onEdit,
+  onShowHistory,
+  onDelete,
+  onPin,
+  onReorderPinned,
+  onBulkUpdate
+}: {
+  board: string | null,
+  user: User,
+  categories: NoticeCategory[],
+  priorities: NoticePriority[],
+  refreshKey: unknown,
+  onEdit: (notice: Notice) => void,
+  onShowHistory: (notice: Notice) => void,
+  onDelete: (id: number) => void,
+  onPin: (notice: Notice, pinned: boolean) => void,
+  onReorderPinned: (ids: number[]) => void,
+  onBulkUpdate: (ids: number[], action: NoticeBulkAction) => Promise<void>
+}) {
+  const [sort, setSort] = useState<Sort | null>(null);
+  // cursors[i] opens page i; the first page needs none
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [page, setPage] = useState<NoticePage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const canArrange = hasPermission(user, 'notice:arrange');
+  const cursor = cursors[pageIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    api.queryNotices({ board: board ?? undefined, sort: sort?.field, order: sort?.order, cursor, limit: PAGE_SIZE })
+      .then(result => {
+        if (cancelled) return;
+        setPage(result);
+        setError(null);
+        // Rows that left the page, e.g. deleted by someone else, drop out of the selection
+        setSelected(prev => new Set(result.notices.filter(n => prev.has(n.id)).map(n => n.id)));
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => { cancelled = true; };
+  }, [board, sort?.field, sort?.order, cursor, refreshKey]);
+
+  const rows = page?.notices ?? [];
+  const pageCount = Math.max(1, Math.ceil((page?.total ?? 0) / PAGE_SIZE));
+  const allSelected = rows.length > 0 && rows.every(n => selected.has(n.id));
+
+  // Pinned notices can be dragged into order while the table shows board order
+  const canReorder = canArrange && !sort;
+  const pinnedIds = rows.filter(n => n.pinOrder !== undefined).map(n => n.id);
+
+  const goToPage = (index: number) => {
+    if (index > pageIndex) {
+      setCursors(prev => [...prev.slice(0, index), page?.nextCursor ?? undefined]);
+    }
+    setPageIndex(index);
+    setSelected(new Set());
+  };
+
+  const applySort = (next: Sort | null) => {
+    setSort(next);
+    setCursors([undefined]);
+    setPageIndex(0);
+    setSelected(new Set());
+  };
+
+  // A column sorts one way, then the other, then the table returns to board order
+  const changeSort = (field: NoticeSortField) => {
+    applySort(sort?.field !== field ? { field, order: FIRST_ORDER[field] }
+      : sort.order === FIRST_ORDER[field] ? { field, order: sort.order === 'asc' ? 'desc' : 'asc' }
+      : null);
+  };
+
+  const toggle = (id: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const runBulk = (action: NoticeBulkAction) => {
+    setBusy(true);
+    onBulkUpdate([...selected], action)
+      .then(() => setSelected(new Set()))
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setBusy(false));
+  };
+
+  const deleteSelected = () => {
+    if (window.confirm(`Delete ${selected.size} ${selected.size === 1 ? 'notice' : 'notices'} for good?`)) {
+      runBulk({ kind: 'delete' });
+    }
+  };
+
+  // Dropping a pinned row on another puts it in that row's place. The page
+  // may show only some of the pinned notices, so the move is made in the
+  // board's whole pinned order.
+  const dropOn = (target: Notice) => {
+    if (dragging === null || dragging === target.id) return;
+    const moving = dragging;
+    api.listPinned(board)
+      .then(({ notices }) => {
+        const order = notices.map(n => n.id);
+        if (!order.includes(moving) || !order.includes(target.id)) return;
+        const ids = order.filter(id => id !== moving);
+        const movingDown = order.indexOf(moving) < order.indexOf(target.id);
+        ids.splice(ids.indexOf(target.id) + (movingDown ? 1 : 0), 0, moving);
+        onReorderPinned(ids);
+      })
+      .catch((err: Error) => setError(err.message));
+  };
+
+  return (
+    <div>
+      {selected.size > 0 && (
+        <div className="px-6 py-3 bg-black text-white flex flex-wrap items-center gap-3">
+          <span className="text-sm font-bold">{selected.size} selected</span>
+          <select
+            value=""
+            disabled={busy}
+            onChange={e => e.target.value && runBulk({ kind: 'category', category: e.target.value })}
+            className="px-3 py-1.5 bg-white/10 rounded-lg text-xs font-semibold outline-none appearance-none"
+          >
+            <option value="">Move to category…</option>
+            {categories.map(c => <option key={c.id} value={c.name} className="text-black">{c.name}</option>)}
+          </select>
+          <select
+            value=""
+            disabled={busy}
+            onChange={e => e.target.value && runBulk({ kind: 'priority', priority: e.target.value })}
+            className="px-3 py-1.5 bg-white/10 rounded-lg text-xs font-semibold outline-none appearance-none"
+          >
+            <option value="">Set priority…</option>
+            {priorities.map(p => <option key={p.id} value={p.name} className="text-black">{p.name}</option>)}
+          </select>
+          {hasPermission(user, 'notice:archive') && (
+            <button
+              onClick={() => runBulk({ kind: 'archive' })}
+              disabled={busy}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-white/10 hover:bg-white/20 flex items-center gap-1.5 transition-all disabled:opacity-50"
+            >
+              <Archive className="w-3.5 h-3.5" />
+              Archive
+            </button>
+          )}
+          <button
+            onClick={deleteSelected}
+            disabled={busy}
+            className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-red-500 hover:bg-red-600 flex items-center gap-1.5 transition-all disabled:opacity-50"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete
+          </button>
+          <button onClick={() => setSelected(new Set())} className="ml-auto text-xs font-bold text-white/60 hover:text-white">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {error && <p className="px-6 py-3 text-sm font-medium text-red-600">{error}</p>}
+
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
+            {canArrange && (
+              <th className="pl-6 py-4 w-8">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(rows.map(n => n.id)))}
+                  title="Select this page"
+                />
+              </th>
+            )}
+            {COLUMNS.map(({ field, label }) => (
+              <th key={field} className="px-6 py-4">
+                <button
+                  onClick={() => changeSort(field)}
+                  className={cn("flex items-center gap-1 uppercase tracking-widest hover:text-black", sort?.field === field && "text-black")}
+                >
+                  {label}
+                  {sort?.field === field && (sort.order === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                </button>
+              </th>
+            ))}
+            <th className="px-6 py-4 text-right">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-black/5">
+          {rows.map(notice => {
+            const pinned = notice.pinOrder !== undefined;
+            const priority = priorities.find(p => p.name === notice.priority);
+            const draggable = canReorder && pinned;
+            return (
+              <tr
+                key={notice.id}
+                draggable={draggable}
+                onDragStart={() => setDragging(notice.id)}
+                onDragEnd={() => setDragging(null)}
+                onDragOver={e => draggable && dragging !== null && e.preventDefault()}
+                onDrop={e => {
+                  e.preventDefault();
+                  dropOn(notice);
+                }}
+                className={cn(
+                  "hover:bg-black/[0.02] transition-colors",
+                  selected.has(notice.id) && "bg-black/[0.03]",
+                  dragging === notice.id && "opacity-40"
+                )}
+              >
+                {canArrange && (
+                  <td className="pl-6 py-4">
+                    <input type="checkbox" checked={selected.has(notice.id)} onChange={() => toggle(notice.id)} />
+                  </td>
+                )}
+                <td className="px-6 py-4">
+                  <div className="flex items-center gap-2">
+                    {draggable && <GripVertical className="w-4 h-4 text-black/20 cursor-grab shrink-0" />}
+                    {pinned && <Pin className="w-3.5 h-3.5 shrink-0" />}
+                    <div>
+                      <div className="font-bold text-sm">{notice.title}</div>
+                      <div className="text-[10px] text-black/40">By {notice.author}</div>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <span className="px-2 py-1 bg-black/5 rounded text-[10px] font-bold uppercase">{notice.category}</span>
+                </td>
+                <td className="px-6 py-4">
+                  <span className={cn(
+                    "text-[10px] font-bold uppercase",
+                    priority ? CATEGORY_COLOR_CLASSES[priority.color].icon : "text-black/40"
+                  )}>
+                    {notice.priority}
+                  </span>
+                </td>
+                <td className="px-6 py-4 text-[10px] text-black/40 font-medium">
+                  {format(new Date(noticeTime(notice)), 'MMM d, yyyy')}
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap">
+                  {canArrange && (
+                    <button
+                      onClick={() => onPin(notice, !pinned)}
+                      title={pinned ? 'Unpin' : 'Pin to the top of the board'}
+                      className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                    >
+                      {pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </button>
+                  )}
+                  {canEditNotice(user, notice) && (
+                    <>
+                      <button
+                        onClick={() => onShowHistory(notice)}
+                        title="Revision history"
+                        className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onEdit(notice)}
+                        title="Edit notice"
+                        className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  {canDeleteNotice(user, notice) && (
+                    <button
+                      onClick={() => onDelete(notice.id)}
+                      className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          {page && rows.length === 0 && (
+            <tr>
+              <td colSpan={canArrange ? 6 : 5} className="px-6 py-12 text-center text-black/40 text-sm italic">
+                No notices currently on the board.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="px-6 py-3 border-t border-black/5 flex items-center justify-between text-xs font-semibold text-black/40">
+        {sort ? (
+          <button onClick={() => applySort(null)} className="hover:text-black">Back to board order</button>
+        ) : (
+          <span>{canReorder && pinnedIds.length > 1 ? 'Drag pinned notices to change their order' : `${page?.total ?? 0} on the board`}</span>
+        )}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => goToPage(pageIndex - 1)}
+            disabled={pageIndex === 0}
+            title="Previous page"
+            className="p-1.5 rounded-lg hover:bg-black/5 hover:text-black disabled:opacity-30 transition-all"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {pageIndex + 1} of {pageCount}</span>
+          <button
+            onClick={() => goToPage(pageIndex + 1)}
+            disabled={!page?.nextCursor}
+            title="Next page"
+            className="p-1.5 rounded-lg hover:bg-black/5 hover:text-black disabled:opacity-30 transition-all"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CloudOff, RotateCcw, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { QueuedAction } from '../lib/offlineStore';
+import { cn } from '../lib/utils';
+
+function describe(action: QueuedAction): string {
+  return action.event.type === 'ADD_NOTICE'
+    ? `Add "${action.event.notice.title}"`
+    : `Delete "${action.notice?.title ?? `notice ${action.event.id}`}"`;
+}
+
+/**
+ * Changes made while offline. Waiting ones go out by themselves on
+ * reconnect; ones the server refused stay here until retried or discarded.
+ */
+export function OfflineQueue({
+  queued,
+  connected,
+  onRetry,
+  onDiscard
+}: {
+  queued: QueuedAction[],
+  connected: boolean,
+  onRetry: (id: number, force?: boolean) => Promise<void>,
+  onDiscard: (id: number) => Promise<void>
+}) {
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (queued.length === 0) return null;
+
+  const act = async (id: number, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="glass rounded-2xl p-6 mb-6 space-y-3">
+      <h3 className="font-bold text-sm uppercase tracking-widest text-black/40 flex items-center gap-2">
+        <CloudOff className="w-4 h-4" />
+        Offline Changes
+      </h3>
+      <ul className="divide-y divide-black/5">
+        {queued.map(action => (
+          <li key={action.id} className="py-3 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{describe(action)}</p>
+              <p className={cn("text-xs flex items-center gap-1", action.conflict ? "text-red-600 font-medium" : "text-black/40")}>
+                {action.conflict && <AlertTriangle className="w-3 h-3 shrink-0" />}
+                {action.conflict ?? `Made ${format(new Date(action.queuedAt), 'MMM d, h:mm a')}; waiting for the connection`}
+              </p>
+            </div>
+            {action.conflict && (
+              <button
+                onClick={() => act(action.id, () => onRetry(action.id, action.event.type === 'DELETE_NOTICE'))}
+                disabled={!connected || busyId !== null}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50",
+                  action.event.type === 'DELETE_NOTICE' ? "bg-red-600 text-white" : "bg-black text-white"
+                )}
+              >
+                {action.event.type === 'DELETE_NOTICE' ? <Trash2 className="w-3 h-3" /> : <RotateCcw className="w-3 h-3" />}
+                {action.event.type === 'DELETE_NOTICE' ? 'Delete Anyway' : 'Try Again'}
+              </button>
+            )}
+            <button
+              onClick={() => act(action.id, () => onDiscard(action.id))}
+              disabled={busyId !== null}
+              title={action.event.type === 'DELETE_NOTICE' ? 'Keep the notice' : 'Discard this notice'}
+              className="p-1.5 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all disabled:opacity-50"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Check, Eye, Inbox, Pencil, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Notice, NOTICE_LIMITS } from '../types';
+
+function RejectForm({ onReject, onCancel }: { onReject: (reason: string) => void, onCancel: () => void }) {
+  const [reason, setReason] = useState('');
+
+  return (
+    <div className="flex items-start gap-2">
+      <textarea
+        autoFocus
+        rows={2}
+        value={reason}
+        maxLength={NOTICE_LIMITS.rejectionReason}
+        onChange={e => setReason(e.target.value)}
+        placeholder="What needs to change? The poster sees this."
+        className="flex-1 px-3 py-2 bg-black/5 rounded-lg text-sm font-medium outline-none resize-none"
+      />
+      <button
+        onClick={() => onReject(reason.trim())}
+        disabled={!reason.trim()}
+        className="px-3 py-2 rounded-lg bg-red-600 text-white text-xs font-bold hover:bg-red-700 transition-all disabled:opacity-50"
+      >
+        Reject
+      </button>
+      <button
+        onClick={onCancel}
+        className="px-3 py-2 rounded-lg text-xs font-bold text-black/60 hover:bg-black/5 transition-all"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+/** Notices submitted by posters who cannot publish, soonest to go live first, for a reviewer to approve or send back. */
+export function ReviewQueue({
+  pending,
+  onOpen,
+  onEdit,
+  onApprove,
+  onReject
+}: {
+  pending: Notice[],
+  onOpen: (notice: Notice) => void,
+  onEdit: (notice: Notice) => void,
+  onApprove: (notice: Notice) => void,
+  onReject: (notice: Notice, reason: string) => void
+}) {
+  const [rejecting, setRejecting] = useState<number | null>(null);
+
+  return (
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
+          <th className="px-6 py-4">Notice</th>
+          <th className="px-6 py-4">Goes Live</th>
+          <th className="px-6 py-4 text-right">Actions</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-black/5">
+        {pending.map(notice => (
+          <React.Fragment key={notice.id}>
+            <tr className="hover:bg-black/[0.02] transition-colors">
+              <td className="px-6 py-4">
+                <div className="font-bold text-sm">{notice.title}</div>
+                <div className="text-[10px] text-black/40">
+                  {notice.category} · By {notice.author} · Submitted {format(new Date(notice.createdAt), 'MMM d, h:mm a')}
+                </div>
+              </td>
+              <td className="px-6 py-4 text-xs font-medium">
+                {notice.publishAt && new Date(notice.publishAt) > new Date()
+                  ? format(new Date(notice.publishAt), 'MMM d, h:mm a')
+                  : 'On approval'}
+              </td>
+              <td className="px-6 py-4 text-right whitespace-nowrap">
+                <button
+                  onClick={() => onOpen(notice)}
+                  title="Read notice"
+                  className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                >
+                  <Eye className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onEdit(notice)}
+                  title="Edit before approving"
+                  className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onApprove(notice)}
+                  title="Approve"
+                  className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setRejecting(notice.id)}
+                  title="Reject"
+                  className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+            {rejecting === notice.id && (
+              <tr>
+                <td colSpan={3} className="px-6 pb-4">
+                  <RejectForm
+                    onReject={(reason) => {
+                      onReject(notice, reason);
+                      setRejecting(null);
+                    }}
+                    onCancel={() => setRejecting(null)}
+                  />
+                </td>
+              </tr>
+            )}
+          </React.Fragment>
+        ))}
+        {pending.length === 0 && (
+          <tr>
+            <td colSpan={3} className="px-6 py-12 text-center text-black/40 text-sm italic">
+              <Inbox className="w-6 h-6 mx-auto mb-2 text-black/20" />
+              Nothing is waiting for review.
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
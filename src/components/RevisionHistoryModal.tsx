@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Notice, NoticeInput, NoticeRevision } from '../types';
+import { diffWords } from '../lib/diff';
+import { cn } from '../lib/utils';
+import { api } from '../lib/api';
+import { describeAudience } from '../lib/audience';
+
+// The text fields of a revision, compared word by word; the audience is described separately
+type TextField = { [K in keyof NoticeInput]-?: NoticeInput[K] extends string | undefined ? K : never }[keyof NoticeInput];
+
+const FIELDS: { key: TextField; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'content', label: 'Content' },
+  { key: 'category', label: 'Category' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'author', label: 'Author' },
+  { key: 'expiresAt', label: 'Expires' },
+  { key: 'eventStart', label: 'Event Starts' },
+  { key: 'eventEnd', label: 'Event Ends' },
+  { key: 'location', label: 'Location' },
+];
+
+function FieldDiff({ before, after }: { before: string, after: string }) {
+  return (
+    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+      {diffWords(before, after).map((segment, i) => (
+        <span
+          key={i}
+          className={cn(
+            segment.type === 'added' && 'bg-emerald-100 text-emerald-800',
+            segment.type === 'removed' && 'bg-red-100 text-red-700 line-through'
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function RevisionHistoryModal({
+  notice,
+  onClose,
+  onRestore
+}: {
+  notice: Notice,
+  onClose: () => void,
+  onRestore: (revision: NoticeRevision) => void
+}) {
+  const [revisions, setRevisions] = useState<NoticeRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the notice changes, so a restore shows up as a new revision.
+  useEffect(() => {
+    api.listRevisions(notice.id)
+      .then(({ revisions }) => {
+        setRevisions(revisions);
+        setSelectedId(revisions[0]?.id ?? null);
+      })
+      .catch(err => setError(err.message));
+  }, [notice]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-4xl bg-white rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <History className="w-6 h-6" />
+              <div>
+                <h3 className="text-2xl font-bold">Revision History</h3>
+                <p className="text-sm text-black/60">{notice.title}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-all">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+          <div className="grid grid-cols-3 gap-6">
+            <ul className="col-span-1 space-y-1 max-h-[60vh] overflow-y-auto">
+              {revisions.map((revision, i) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      "w-full text-left px-4 py-3 rounded-xl transition-all",
+                      revision.id === selectedId ? "bg-black text-white" : "hover:bg-black/5"
+                    )}
+                  >
+                    <div className="text-sm font-bold">
+                      Revision {revision.revision}{i === 0 && ' (current)'}
+                    </div>
+                    <div className={cn("text-[10px] uppercase font-bold", revision.id === selectedId ? "text-white/60" : "text-black/40")}>
+                      {format(new Date(revision.editedAt), 'MMM d, h:mm a')}
+                      {revision.editedByName && ` · ${revision.editedByName}`}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="col-span-2 space-y-4 max-h-[60vh] overflow-y-auto">
+              {selected && (
+                <>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-black/40">
+                    {previous ? `Changes from revision ${previous.revision}` : 'Original version'}
+                  </p>
+                  {FIELDS.map(({ key, label }) => {
+                    const after = selected[key] ?? '';
+                    const before = previous ? previous[key] ?? '' : after;
+                    return (
+                      <div key={key} className="space-y-1">
+                        <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">{label}</label>
+                        <FieldDiff before={before} after={after} />
+                      </div>
+                    );
+                  })}
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold uppercase tracking-widest text-black/40">Audience</label>
+                    <FieldDiff
+                      before={describeAudience(previous ? previous.audience : selected.audience)}
+                      after={describeAudience(selected.audience)}
+                    />
+                  </div>
+                  {selectedIndex > 0 && (
+                    <button
+                      onClick={() => onRestore(selected)}
+                      className="px-4 py-2 rounded-xl bg-black text-white text-sm font-bold flex items-center gap-2"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Restore this revision
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
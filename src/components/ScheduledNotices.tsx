@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { CalendarClock, Check, Pencil, Send, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Notice, User } from '../types';
+import { canDeleteNotice, canEditNotice } from '../permissions';
+import { fromDateTimeLocal, toDateTimeLocal } from '../lib/utils';
+
+function RescheduleControl({ notice, onReschedule }: { notice: Notice, onReschedule: (publishAt: string) => void, key?: React.Key }) {
+  const [value, setValue] = useState(toDateTimeLocal(notice.publishAt));
+  const changed = value !== toDateTimeLocal(notice.publishAt);
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="datetime-local"
+        value={value}
+        min={toDateTimeLocal(new Date().toISOString())}
+        onChange={e => setValue(e.target.value)}
+        className="px-2 py-1 bg-black/5 rounded-lg text-xs font-medium outline-none"
+      />
+      {changed && value && (
+        <button
+          onClick={() => onReschedule(fromDateTimeLocal(value)!)}
+          title="Save new time"
+          className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all"
+        >
+          <Check className="w-4 h-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function ScheduledNotices({
+  scheduled,
+  user,
+  onReschedule,
+  onPublishNow,
+  onEdit,
+  onCancel
+}: {
+  scheduled: Notice[],
+  user: User,
+  onReschedule: (notice: Notice, publishAt: string) => void,
+  onPublishNow: (notice: Notice) => void,
+  onEdit: (notice: Notice) => void,
+  onCancel: (id: number) => void
+}) {
+  return (
+    <table className="w-full text-left border-collapse">
+      <thead>
+        <tr className="bg-black/5 text-[10px] font-bold uppercase tracking-widest text-black/40">
+          <th className="px-6 py-4">Notice</th>
+          <th className="px-6 py-4">Goes Live</th>
+          <th className="px-6 py-4 text-right">Actions</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-black/5">
+        {scheduled.map(notice => (
+          <tr key={notice.id} className="hover:bg-black/[0.02] transition-colors">
+            <td className="px-6 py-4">
+              <div className="font-bold text-sm">{notice.title}</div>
+              <div className="text-[10px] text-black/40">
+                {notice.category} · By {notice.author}
+              </div>
+            </td>
+            <td className="px-6 py-4">
+              {canEditNotice(user, notice) ? (
+                <RescheduleControl
+                  key={notice.publishAt}
+                  notice={notice}
+                  onReschedule={(publishAt) => onReschedule(notice, publishAt)}
+                />
+              ) : (
+                <span className="text-xs font-medium">
+                  {notice.publishAt && format(new Date(notice.publishAt), 'MMM d, h:mm a')}
+                </span>
+              )}
+            </td>
+            <td className="px-6 py-4 text-right whitespace-nowrap">
+              {canEditNotice(user, notice) && (
+                <>
+                  <button
+                    onClick={() => onPublishNow(notice)}
+                    title="Publish now"
+                    className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onEdit(notice)}
+                    title="Edit notice"
+                    className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-all"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              {canDeleteNotice(user, notice) && (
+                <button
+                  onClick={() => onCancel(notice.id)}
+                  title="Cancel scheduled notice"
+                  className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </td>
+          </tr>
+        ))}
+        {scheduled.length === 0 && (
+          <tr>
+            <td colSpan={3} className="px-6 py-12 text-center text-black/40 text-sm italic">
+              <CalendarClock className="w-6 h-6 mx-auto mb-2 text-black/20" />
+              No notices are scheduled.
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
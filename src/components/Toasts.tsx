@@ -0,0 +1,40 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { AlertCircle, CheckCircle2, X } from 'lucide-react';
+import { cn } from '../lib/utils';
+
+export interface Toast {
+  id: number;
+  kind: 'success' | 'error';
+  message: string;
+}
+
+export function Toasts({ toasts, onDismiss }: { toasts: Toast[], onDismiss: (id: number) => void }) {
+  return (
+    <div className="fixed bottom-6 right-6 z-[60] flex flex-col gap-2 w-80">
+      <AnimatePresence>
+        {toasts.map(toast => (
+          <motion.div
+            key={toast.id}
+            layout
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, x: 40 }}
+            className={cn(
+              "rounded-2xl px-4 py-3 shadow-xl flex items-start gap-3 text-sm font-medium",
+              toast.kind === 'success' ? "bg-black text-white" : "bg-red-600 text-white"
+            )}
+          >
+            {toast.kind === 'success'
+              ? <CheckCircle2 className="w-5 h-5 shrink-0" />
+              : <AlertCircle className="w-5 h-5 shrink-0" />}
+            <span className="flex-1">{toast.message}</span>
+            <button onClick={() => onDismiss(toast.id)} className="opacity-60 hover:opacity-100">
+              <X className="w-4 h-4" />
+            </button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
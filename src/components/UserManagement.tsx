@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2, UserPlus } from 'lucide-react';
+import { Board, Role, User, UserInput } from '../types';
+import { ROLE_LABELS } from '../permissions';
+import { api } from '../lib/api';
+import { cn } from '../lib/utils';
+
+const EMPTY_FORM: UserInput = { username: '', password: '', role: 'poster', department: '' };
+
+export function UserManagement({ currentUser }: { currentUser: User }) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [form, setForm] = useState<UserInput>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    api.listUsers()
+      .then(({ users }) => setUsers(users))
+      .catch(err => setError(err.message));
+  };
+
+  useEffect(refresh, []);
+
+  useEffect(() => {
+    api.listBoards()
+      .then(({ boards }) => setBoards(boards))
+      .catch(err => setError(err.message));
+  }, []);
+
+  // Admins run every board and viewers work on none, so only other staff pick boards.
+  // Until one is picked, new staff join the default board, which is listed first.
+  const picksBoards = boards.length > 1 && (form.role === 'poster' || form.role === 'board_admin');
+  const chosenBoards = form.boardIds ?? boards.slice(0, 1).map(b => b.id);
+
+  const toggleBoard = (id: number) => {
+    setForm(prev => ({
+      ...prev,
+      boardIds: chosenBoards.includes(id) ? chosenBoards.filter(other => other !== id) : [...chosenBoards, id]
+    }));
+  };
+
+  const addUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await api.createUser(picksBoards ? form : { ...form, boardIds: undefined });
+      setForm(EMPTY_FORM);
+      refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const removeUser = async (id: number) => {
+    setError(null);
+    try {
+      await api.deleteUser(id);
+      refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6 space-y-4">
+      <h3 className="font-bold text-sm uppercase tracking-widest text-black/40">Accounts</h3>
+
+      <ul className="divide-y divide-black/5">
+        {users.map(u => (
+          <li key={u.id} className="py-2 flex items-center justify-between">
+            <div>
+              <div className="text-sm font-bold">{u.username}</div>
+              <div className="text-[10px] text-black/40 uppercase font-bold">
+                {ROLE_LABELS[u.role]}{u.department ? ` · ${u.department}` : ''}
+                {boards.length > 1 && u.role !== 'admin' && u.boardIds.length > 0 &&
+                  ` · ${boards.filter(b => u.boardIds.includes(b.id)).map(b => b.name).join(', ')}`}
+              </div>
+            </div>
+            {u.id !== currentUser.id && (
+              <button
+                onClick={() => removeUser(u.id)}
+                className="p-2 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={addUser} className="space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            placeholder="Username"
+            value={form.username}
+            onChange={e => setForm(prev => ({ ...prev, username: e.target.value }))}
+            className="px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            value={form.password}
+            onChange={e => setForm(prev => ({ ...prev, password: e.target.value }))}
+            className="px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+          />
+          <select
+            value={form.role}
+            onChange={e => setForm(prev => ({ ...prev, role: e.target.value as Role }))}
+            className="px-3 py-2 bg-black/5 rounded-lg text-sm outline-none appearance-none"
+          >
+            {(Object.keys(ROLE_LABELS) as Role[]).map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Department"
+            value={form.department}
+            onChange={e => setForm(prev => ({ ...prev, department: e.target.value }))}
+            className="px-3 py-2 bg-black/5 rounded-lg text-sm outline-none"
+          />
+        </div>
+        {picksBoards && (
+          <div className="flex flex-wrap gap-2">
+            {boards.map(board => (
+              <button
+                key={board.id}
+                type="button"
+                onClick={() => toggleBoard(board.id)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-semibold transition-all",
+                  chosenBoards.includes(board.id) ? "bg-black text-white" : "bg-black/5 text-black/60 hover:text-black"
+                )}
+              >
+                {board.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {error && <p className="text-xs font-medium text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!form.username || !form.password}
+          className="w-full px-4 py-2 rounded-xl bg-black text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <UserPlus className="w-4 h-4" />
+          Add Account
+        </button>
+      </form>
+    </div>
+  );
+}
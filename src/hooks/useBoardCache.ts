@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import { Notice, NoticeCategory, NoticePriority } from '../types';
+import { BoardSnapshot, offlineStore } from '../lib/offlineStore';
+import { ConnectionStatus } from './useBoardSocket';
+
+/**
+ * Keeps a copy of a screen's notices in the browser, so that a reload
+ * without a connection still shows the last ones it had. Until `live` is set
+ * by the server's INITIAL_STATE, a saved copy is handed to `onRestore`.
+ *
+ * Returns when the notices on screen were last known to match the server.
+ */
+export function useBoardCache(
+  key: string,
+  { notices, categories, priorities, live, status }: {
+    notices: Notice[],
+    categories: NoticeCategory[],
+    priorities: NoticePriority[],
+    live: boolean,
+    status: ConnectionStatus
+  },
+  onRestore: (snapshot: BoardSnapshot) => void
+): number | null {
+  const [syncedAt, setSyncedAt] = useState<number | null>(null);
+  const liveRef = useRef(live);
+  liveRef.current = live;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    let cancelled = false;
+    offlineStore.load<BoardSnapshot>(key)
+      .then(snapshot => {
+        if (cancelled || !snapshot || liveRef.current) return;
+        onRestoreRef.current(snapshot);
+        setSyncedAt(snapshot.savedAt);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  // Saved on every change while connected, and once more when the
+  // connection drops, since the copy was current up to that moment
+  useEffect(() => {
+    if (!live) return;
+    const savedAt = Date.now();
+    setSyncedAt(savedAt);
+    const snapshot: BoardSnapshot = { notices, categories, priorities, savedAt };
+    offlineStore.save(key, snapshot).catch(() => undefined);
+  }, [key, live, notices, categories, priorities, status]);
+
+  return syncedAt;
+}
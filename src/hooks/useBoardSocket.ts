@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ClientEvent, ErrorCode, Notice, NoticeAudience, ServerMessage } from '../types';
+import { getDisplayId } from '../lib/display';
+import { audienceToParams } from '../lib/audience';
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting';
+
+const REQUEST_TIMEOUT_MS = 10000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/** The server's ERROR reply to a request, as opposed to the request never reaching it. */
+export class RequestError extends Error {
+  constructor(public code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (notice?: Notice) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Keeps a WebSocket to the board server open. After a drop it reconnects with
+ * exponential backoff and asks to resume from the last sequence number it
+ * saw, so the server only replays the events that were missed.
+ *
+ * Changing `identity` (e.g. logging in) opens a fresh connection with a full
+ * INITIAL_STATE, since what the server sends depends on who is signed in.
+ * So does changing `board`, the slug of the board to follow (the default
+ * board when null); the server only sends that board's notices.
+ *
+ * Public screens pass a `displayLabel` so the server can list them when
+ * tracking who has confirmed an emergency alert, and `following` to only
+ * receive notices meant for those audiences. Changing either reconnects.
+ */
+export function useBoardSocket({
+  enabled,
+  identity,
+  board,
+  displayLabel,
+  following,
+  onEvent
+}: {
+  enabled: boolean,
+  identity: unknown,
+  board: string | null,
+  displayLabel?: string,
+  following?: NoticeAudience,
+  onEvent: (event: ServerMessage) => void
+}) {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const pendingRef = useRef(new Map<string, PendingRequest>());
+  const nextRequestIdRef = useRef(0);
+  const reconnectNowRef = useRef<() => void>(() => undefined);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const followingQuery = audienceToParams(following).toString();
+
+  const settleRequest = (requestId: string, error: Error | null, notice?: Notice) => {
+    const pending = pendingRef.current.get(requestId);
+    if (!pending) return false;
+    clearTimeout(pending.timer);
+    pendingRef.current.delete(requestId);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(notice);
+    }
+    return true;
+  };
+
+  const rejectAllPending = (message: string) => {
+    for (const requestId of [...pendingRef.current.keys()]) {
+      settleRequest(requestId, new Error(message));
+    }
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let disposed = false;
+    let attempt = 0;
+    let lastSeq: number | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      clearTimeout(reconnectTimer);
+      setRetryAt(null);
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const params = new URLSearchParams(followingQuery);
+      if (board) params.set('board', board);
+      if (lastSeq !== null) params.set('since', String(lastSeq));
+      if (displayLabel) {
+        params.set('display', getDisplayId());
+        params.set('label', displayLabel);
+      }
+      const query = params.toString() ? `?${params}` : '';
+      const socket = new WebSocket(`${protocol}//${window.location.host}/${query}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        setStatus('open');
+      };
+
+      socket.onmessage = (event) => {
+        const data = JSON.parse(event.data) as ServerMessage;
+        if (data.type === 'ACK') {
+          settleRequest(data.requestId, null, data.notice);
+          return;
+        }
+        if (data.type === 'ERROR' && data.requestId && settleRequest(data.requestId, new RequestError(data.code, data.message))) {
+          return;
+        }
+        if (data.seq !== undefined) {
+          const isSnapshot = data.type === 'INITIAL_STATE' || data.type === 'RESUMED';
+          // A replayed event can overlap one that already arrived live
+          if (!isSnapshot && lastSeq !== null && data.seq <= lastSeq) return;
+          lastSeq = data.seq;
+        }
+        onEventRef.current(data);
+      };
+
+      socket.onclose = () => {
+        rejectAllPending('Connection to the board server was lost');
+        if (disposed) return;
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+        attempt++;
+        setStatus('reconnecting');
+        setRetryAt(Date.now() + delay);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    const reconnectNow = () => {
+      if (socketRef.current?.readyState === WebSocket.CLOSED) connect();
+    };
+    reconnectNowRef.current = reconnectNow;
+    window.addEventListener('online', reconnectNow);
+
+    setStatus('connecting');
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      window.removeEventListener('online', reconnectNow);
+      socketRef.current?.close();
+      socketRef.current = null;
+      rejectAllPending('Connection to the board server was closed');
+    };
+  }, [enabled, identity, board, displayLabel, followingQuery]);
+
+  /** Sends a ClientEvent and resolves once the server ACKs it, or rejects with a RequestError for its ERROR reply. */
+  const sendEvent = useCallback((event: ClientEvent) => new Promise<Notice | undefined>((resolve, reject) => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      reject(new Error('Not connected to the board server'));
+      return;
+    }
+    const requestId = `req-${++nextRequestIdRef.current}`;
+    const timer = setTimeout(
+      () => settleRequest(requestId, new Error('The server did not respond in time')),
+      REQUEST_TIMEOUT_MS
+    );
+    pendingRef.current.set(requestId, { resolve, reject, timer });
+    socket.send(JSON.stringify({ ...event, requestId }));
+  }), []);
+
+  const reconnectNow = useCallback(() => reconnectNowRef.current(), []);
+
+  return { status, retryAt, sendEvent, reconnectNow };
+}
@@ -0,0 +1,138 @@
+import { RefObject, useEffect, useMemo, useRef } from 'react';
+import { ClientEvent, Notice, NoticeImpressions } from '../types';
+
+const FLUSH_INTERVAL_MS = 30 * 1000;
+// A card counts as seen once at least half of it is on screen
+const VISIBLE_THRESHOLD = 0.5;
+
+export interface ImpressionTracker {
+  shown: (noticeId: number) => void;
+  hidden: (noticeId: number) => void;
+  expanded: (noticeId: number) => void;
+}
+
+const IGNORE: ImpressionTracker = { shown: () => undefined, hidden: () => undefined, expanded: () => undefined };
+
+/**
+ * Counts what this screen shows: each time a notice comes into view, each
+ * time a reader opens it in full, and how long it stays on screen. Counts are
+ * sent to the server in batches every half minute and when the page is
+ * hidden. Time while the page is in the background is not counted.
+ *
+ * Only public screens report, so a disabled tracker ignores everything.
+ */
+export function useImpressions(
+  sendEvent: (event: ClientEvent) => Promise<Notice | undefined>,
+  enabled: boolean
+): ImpressionTracker {
+  const countsRef = useRef(new Map<number, NoticeImpressions>());
+  const visibleSinceRef = useRef(new Map<number, number>());
+  const sendEventRef = useRef(sendEvent);
+  sendEventRef.current = sendEvent;
+
+  const tracker = useMemo<ImpressionTracker>(() => {
+    const counts = countsRef.current;
+    const visibleSince = visibleSinceRef.current;
+    const entry = (noticeId: number) => {
+      let counted = counts.get(noticeId);
+      if (!counted) {
+        counted = { noticeId, views: 0, expands: 0, dwellSeconds: 0 };
+        counts.set(noticeId, counted);
+      }
+      return counted;
+    };
+
+    return {
+      shown: (noticeId) => {
+        if (visibleSince.has(noticeId)) return;
+        entry(noticeId).views++;
+        visibleSince.set(noticeId, Date.now());
+      },
+      hidden: (noticeId) => {
+        const since = visibleSince.get(noticeId);
+        if (since === undefined) return;
+        visibleSince.delete(noticeId);
+        if (!document.hidden) entry(noticeId).dwellSeconds += (Date.now() - since) / 1000;
+      },
+      expanded: (noticeId) => {
+        entry(noticeId).expands++;
+      },
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const counts = countsRef.current;
+    const visibleSince = visibleSinceRef.current;
+
+    // Adds the time notices have been on screen so far and starts the clock again
+    const settleDwell = () => {
+      const now = Date.now();
+      for (const [noticeId, since] of visibleSince) {
+        const counted = counts.get(noticeId) ?? { noticeId, views: 0, expands: 0, dwellSeconds: 0 };
+        counted.dwellSeconds += (now - since) / 1000;
+        counts.set(noticeId, counted);
+        visibleSince.set(noticeId, now);
+      }
+    };
+
+    const flush = () => {
+      if (!document.hidden) settleDwell();
+      const impressions = [...counts.values()];
+      if (impressions.length === 0) return;
+      counts.clear();
+      sendEventRef.current({ type: 'RECORD_IMPRESSIONS', impressions }).catch(() => {
+        // Keep the counts for the next attempt, e.g. after a reconnect
+        for (const failed of impressions) {
+          const counted = counts.get(failed.noticeId);
+          counts.set(failed.noticeId, counted ? {
+            noticeId: failed.noticeId,
+            views: counted.views + failed.views,
+            expands: counted.expands + failed.expands,
+            dwellSeconds: counted.dwellSeconds + failed.dwellSeconds,
+          } : failed);
+        }
+      });
+    };
+
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        settleDwell();
+        flush();
+      } else {
+        const now = Date.now();
+        for (const noticeId of visibleSince.keys()) visibleSince.set(noticeId, now);
+      }
+    };
+
+    const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      flush();
+    };
+  }, [enabled]);
+
+  return enabled ? tracker : IGNORE;
+}
+
+/** Reports `noticeId` to `tracker` while the element behind `ref` is on screen. */
+export function useTrackImpression(ref: RefObject<HTMLElement | null>, noticeId: number, tracker?: ImpressionTracker) {
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !tracker) return;
+    const observer = new IntersectionObserver(([observed]) => {
+      if (observed.isIntersecting) {
+        tracker.shown(noticeId);
+      } else {
+        tracker.hidden(noticeId);
+      }
+    }, { threshold: VISIBLE_THRESHOLD });
+    observer.observe(element);
+    return () => {
+      observer.disconnect();
+      tracker.hidden(noticeId);
+    };
+  }, [noticeId, tracker]);
+}
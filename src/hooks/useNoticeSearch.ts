@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react';
+import { NoticePage, NoticeQuery } from '../types';
+import { api } from '../lib/api';
+
+const DEBOUNCE_MS = 250;
+const PAGE_SIZE = 24;
+
+/**
+ * Runs `query` against the server's notice search, waiting for typing to
+ * pause first. Results are paginated; `loadMore` appends the next page.
+ * Pass null to skip searching. Changing `refreshKey` re-runs the search.
+ */
+export function useNoticeSearch(query: NoticeQuery | null, refreshKey?: unknown) {
+  const [results, setResults] = useState<NoticePage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const generationRef = useRef(0);
+  const queryKey = query ? JSON.stringify(query) : null;
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    if (!query) {
+      setResults(null);
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const timer = setTimeout(() => {
+      api.queryNotices({ ...query, limit: PAGE_SIZE })
+        .then(page => {
+          if (generation !== generationRef.current) return;
+          setResults(page);
+          setError(null);
+        })
+        .catch(err => generation === generationRef.current && setError(err.message))
+        .finally(() => generation === generationRef.current && setLoading(false));
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [queryKey, refreshKey]);
+
+  const loadMore = () => {
+    if (!query || !results?.nextCursor || loading) return;
+    const generation = generationRef.current;
+    setLoading(true);
+    api.queryNotices({ ...query, limit: PAGE_SIZE, cursor: results.nextCursor })
+      .then(page => {
+        if (generation !== generationRef.current) return;
+        setResults(prev => prev && { ...page, notices: [...prev.notices, ...page.notices] });
+      })
+      .catch(err => generation === generationRef.current && setError(err.message))
+      .finally(() => generation === generationRef.current && setLoading(false));
+  };
+
+  return { results, loading, error, loadMore };
+}
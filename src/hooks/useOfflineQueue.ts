@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ClientEvent, Notice } from '../types';
+import { api } from '../lib/api';
+import { toNoticeInput } from '../lib/notices';
+import { offlineStore, QueuedAction, QueuedEvent } from '../lib/offlineStore';
+import { RequestError } from './useBoardSocket';
+
+type Outcome = 'sent' | 'conflict' | 'offline';
+
+const sameNotice = (a: Notice, b: Notice) =>
+  a.status === b.status && JSON.stringify(toNoticeInput(a)) === JSON.stringify(toNoticeInput(b));
+
+/**
+ * Holds notices added or deleted while the board server is out of reach and
+ * sends them, in the order they were made, once `connected` is set again.
+ * The queue lives in IndexedDB, so it survives a reload. Changes wait for
+ * the board they were made on, since the socket acts on one board.
+ *
+ * A change the server refuses on replay stays queued with the reason as its
+ * `conflict`, for the user to retry or discard. So does a delete of a notice
+ * that someone edited in the meantime, until the user confirms it with
+ * `retry(id, true)`.
+ */
+export function useOfflineQueue({
+  userId,
+  board,
+  connected,
+  sendEvent,
+  onReplayed
+}: {
+  userId: number | undefined,
+  board: string | null,
+  connected: boolean,
+  sendEvent: (event: ClientEvent) => Promise<Notice | undefined>,
+  onReplayed: (sent: number, conflicts: number) => void
+}) {
+  const [queued, setQueued] = useState<QueuedAction[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const flushingRef = useRef(false);
+  const sendEventRef = useRef(sendEvent);
+  sendEventRef.current = sendEvent;
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+
+  useEffect(() => {
+    setQueued([]);
+    setLoaded(false);
+    if (userId === undefined) return;
+    let cancelled = false;
+    offlineStore.listQueued()
+      .then(actions => {
+        if (cancelled) return;
+        setQueued(actions.filter(action => action.userId === userId && (action.board ?? null) === board));
+        setLoaded(true);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, board]);
+
+  const settle = async (action: QueuedAction, conflict?: string) => {
+    if (conflict === undefined) {
+      await offlineStore.removeQueued(action.id);
+      setQueued(prev => prev.filter(a => a.id !== action.id));
+    } else {
+      const updated = { ...action, conflict };
+      await offlineStore.updateQueued(updated);
+      setQueued(prev => prev.map(a => a.id === action.id ? updated : a));
+    }
+  };
+
+  const replay = async (action: QueuedAction, force = false): Promise<Outcome> => {
+    const { event } = action;
+    if (event.type === 'DELETE_NOTICE' && action.notice && !force) {
+      // If the notice cannot be fetched, the server has the final say below
+      const current = await api.getNotice(event.id).then(({ notice }) => notice, () => undefined);
+      if (current && !sameNotice(current, action.notice)) {
+        await settle(action, `"${current.title}" was changed while you were offline`);
+        return 'conflict';
+      }
+    }
+    try {
+      await sendEventRef.current(event);
+    } catch (err) {
+      if (!(err instanceof RequestError)) return 'offline';
+      // Someone else got there first, which is what the user wanted anyway
+      if (event.type === 'DELETE_NOTICE' && err.code === 'not_found') {
+        await settle(action);
+        return 'sent';
+      }
+      await settle(action, err.message);
+      return 'conflict';
+    }
+    await settle(action);
+    return 'sent';
+  };
+
+  const flush = async (actions: QueuedAction[]) => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    let sent = 0;
+    let conflicts = 0;
+    try {
+      for (const action of actions) {
+        const outcome = await replay(action);
+        if (outcome === 'offline') break;
+        if (outcome === 'sent') sent++;
+        if (outcome === 'conflict') conflicts++;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+    if (sent || conflicts) onReplayedRef.current(sent, conflicts);
+  };
+
+  useEffect(() => {
+    if (!connected || !loaded) return;
+    const waiting = queued.filter(action => action.conflict === undefined);
+    if (waiting.length) flush(waiting).catch(() => undefined);
+  }, [connected, loaded]);
+
+  const enqueue = useCallback(async (event: QueuedEvent, notice?: Notice) => {
+    if (userId === undefined) throw new Error('Sign in to make changes while offline');
+    const action = await offlineStore.queue({ userId, board: board ?? undefined, event, notice, queuedAt: new Date().toISOString() });
+    setQueued(prev => [...prev, action]);
+  }, [userId, board]);
+
+  /** Sends a change again; `force` deletes a notice even though it was edited meanwhile. */
+  const retry = async (id: number, force = false) => {
+    const action = queued.find(a => a.id === id);
+    if (!action) return;
+    if (!connected) throw new Error('Not connected to the board server');
+    const outcome = await replay({ ...action, conflict: undefined }, force);
+    if (outcome === 'offline') throw new Error('Not connected to the board server');
+  };
+
+  const discard = async (id: number) => {
+    await offlineStore.removeQueued(id);
+    setQueued(prev => prev.filter(a => a.id !== id));
+  };
+
+  return { queued, enqueue, retry, discard };
+}
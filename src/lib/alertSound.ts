@@ -0,0 +1,32 @@
+const BEEP_INTERVAL_MS = 1200;
+
+/**
+ * Plays a repeating two-tone siren until the returned function is called.
+ * Browsers may block audio until the page has had a user gesture; in that
+ * case this stays silent rather than failing.
+ */
+export function startAlertSound(): () => void {
+  const AudioContextClass = window.AudioContext ?? window.webkitAudioContext;
+  if (!AudioContextClass) return () => undefined;
+
+  const context: AudioContext = new AudioContextClass();
+  const beep = () => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.setValueAtTime(880, context.currentTime);
+    oscillator.frequency.setValueAtTime(660, context.currentTime + 0.3);
+    gain.gain.setValueAtTime(0.2, context.currentTime);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.6);
+  };
+
+  context.resume().catch(() => undefined);
+  beep();
+  const timer = setInterval(beep, BEEP_INTERVAL_MS);
+  return () => {
+    clearInterval(timer);
+    context.close().catch(() => undefined);
+  };
+}
@@ -0,0 +1,182 @@
+import {
+  AnalyticsQuery,
+  AnalyticsReport,
+  ArchivedNotice,
+  Attachment,
+  AuditPage,
+  AuditQuery,
+  BackupFilter,
+  Board,
+  BoardInput,
+  DisplayProfile,
+  DisplayProfileInput,
+  EventQuery,
+  ExportFormat,
+  ImportConflictMode,
+  ImportReport,
+  ImportResult,
+  Notice,
+  NoticeAudience,
+  NoticeCategory,
+  NoticeCategoryInput,
+  NoticePage,
+  NoticePriority,
+  NoticePriorityInput,
+  NoticeQuery,
+  NoticeRevision,
+  User,
+  UserInput
+} from '../types';
+import { audienceToParams } from './audience';
+
+function toSearchParams(query: NoticeQuery): URLSearchParams {
+  const params = audienceToParams(query.audience);
+  if (query.board) params.set('board', query.board);
+  if (query.q) params.set('q', query.q);
+  if (query.category?.length) params.set('category', query.category.join(','));
+  if (query.priority?.length) params.set('priority', query.priority.join(','));
+  if (query.author) params.set('author', query.author);
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.order) params.set('order', query.order);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  return params;
+}
+
+function toExportParams(format: ExportFormat, filter: BackupFilter): URLSearchParams {
+  const params = new URLSearchParams({ format });
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  if (filter.category?.length) params.set('category', filter.category.join(','));
+  if (filter.includeArchived) params.set('archived', '1');
+  if (filter.includeRevisions) params.set('revisions', '1');
+  return params;
+}
+
+function toAuditParams(query: AuditQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.action?.length) params.set('action', query.action.join(','));
+  if (query.actor) params.set('actor', query.actor);
+  if (query.noticeId) params.set('noticeId', String(query.noticeId));
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  return params;
+}
+
+/** Fetches a file the server sends as an attachment, along with the name it suggests. */
+async function download(url: string): Promise<{ blob: Blob, filename: string }> {
+  const res = await fetch(url, { credentials: 'same-origin' });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || `Request failed with status ${res.status}`);
+  }
+  const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ?? 'uniboard-export';
+  return { blob: await res.blob(), filename };
+}
+
+/** Where an attachment is served; `download` asks the browser to save it rather than open it. */
+export function attachmentUrl(attachment: Attachment, download = false): string {
+  return `/api/attachments/${attachment.id}${download ? '?download=1' : ''}`;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    credentials: 'same-origin',
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || `Request failed with status ${res.status}`);
+  }
+  return body as T;
+}
+
+export const api = {
+  me: () => request<{ user: User | null }>('/api/auth/me'),
+  login: (username: string, password: string) =>
+    request<{ user: User }>('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password }),
+    }),
+  logout: () => request<{ ok: boolean }>('/api/auth/logout', { method: 'POST' }),
+  listUsers: () => request<{ users: User[] }>('/api/users'),
+  createUser: (input: UserInput) =>
+    request<{ user: User }>('/api/users', { method: 'POST', body: JSON.stringify(input) }),
+  deleteUser: (id: number) => request<{ ok: boolean }>(`/api/users/${id}`, { method: 'DELETE' }),
+  listRevisions: (noticeId: number) =>
+    request<{ revisions: NoticeRevision[] }>(`/api/notices/${noticeId}/revisions`),
+  getNotice: (id: number) => request<{ notice: Notice }>(`/api/notices/${id}`),
+  queryNotices: (query: NoticeQuery) => request<NoticePage>(`/api/notices?${toSearchParams(query)}`),
+  listEvents: (query: EventQuery) => {
+    const params = audienceToParams(query.audience);
+    if (query.board) params.set('board', query.board);
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.category?.length) params.set('category', query.category.join(','));
+    return request<{ notices: Notice[] }>(`/api/events?${params}`);
+  },
+  // `board` is a board's slug; without one these are the default board's
+  listAudiences: (board?: string | null) =>
+    request<{ audiences: Required<NoticeAudience> }>(`/api/audiences${board ? `?board=${encodeURIComponent(board)}` : ''}`),
+  listPinned: (board?: string | null) =>
+    request<{ notices: Notice[] }>(`/api/pinned${board ? `?board=${encodeURIComponent(board)}` : ''}`),
+  listArchived: (board?: string | null) =>
+    request<{ notices: ArchivedNotice[] }>(`/api/archive${board ? `?board=${encodeURIComponent(board)}` : ''}`),
+  exportBoard: (format: ExportFormat, filter: BackupFilter) => download(`/api/export?${toExportParams(format, filter)}`),
+  // Backups are sent as the file's text; the server validates it.
+  checkImport: (backup: string) =>
+    request<{ report: ImportReport }>('/api/import/check', { method: 'POST', body: backup }),
+  importBackup: (backup: string, onConflict?: ImportConflictMode) =>
+    request<{ result: ImportResult }>(`/api/import${onConflict ? `?onConflict=${onConflict}` : ''}`, { method: 'POST', body: backup }),
+  // The file itself is the request body; the server works out its type from the contents.
+  uploadAttachment: (file: File) =>
+    request<{ attachment: Attachment }>(`/api/attachments?name=${encodeURIComponent(file.name)}`, {
+      method: 'POST',
+      body: file,
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    }),
+  queryAudit: (query: AuditQuery) => request<AuditPage>(`/api/audit?${toAuditParams(query)}`),
+  exportAudit: (query: AuditQuery) => download(`/api/audit/export?${toAuditParams(query)}`),
+  getAnalytics: (query: AnalyticsQuery) => {
+    const params = new URLSearchParams();
+    if (query.board) params.set('board', query.board);
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    if (query.category?.length) params.set('category', query.category.join(','));
+    if (query.interval) params.set('interval', query.interval);
+    return request<{ report: AnalyticsReport }>(`/api/analytics?${params}`);
+  },
+  createCategory: (input: NoticeCategoryInput) =>
+    request<{ category: NoticeCategory }>('/api/categories', { method: 'POST', body: JSON.stringify(input) }),
+  updateCategory: (id: number, input: NoticeCategoryInput) =>
+    request<{ category: NoticeCategory }>(`/api/categories/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+  deleteCategory: (id: number, moveTo?: number) =>
+    request<{}>(`/api/categories/${id}${moveTo ? `?moveTo=${moveTo}` : ''}`, { method: 'DELETE' }),
+  createPriority: (input: NoticePriorityInput) =>
+    request<{ priority: NoticePriority }>('/api/priorities', { method: 'POST', body: JSON.stringify(input) }),
+  updatePriority: (id: number, input: NoticePriorityInput) =>
+    request<{ priority: NoticePriority }>(`/api/priorities/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+  deletePriority: (id: number, moveTo?: number) =>
+    request<{}>(`/api/priorities/${id}${moveTo ? `?moveTo=${moveTo}` : ''}`, { method: 'DELETE' }),
+  listDisplayProfiles: () => request<{ profiles: DisplayProfile[] }>('/api/display-profiles'),
+  getDisplayProfile: (name: string) =>
+    request<{ profile: DisplayProfile }>(`/api/display-profiles/${encodeURIComponent(name)}`),
+  createDisplayProfile: (input: DisplayProfileInput) =>
+    request<{ profile: DisplayProfile }>('/api/display-profiles', { method: 'POST', body: JSON.stringify(input) }),
+  updateDisplayProfile: (id: number, input: DisplayProfileInput) =>
+    request<{ profile: DisplayProfile }>(`/api/display-profiles/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+  deleteDisplayProfile: (id: number) => request<{}>(`/api/display-profiles/${id}`, { method: 'DELETE' }),
+  listBoards: () => request<{ boards: Board[] }>('/api/boards'),
+  createBoard: (input: BoardInput) =>
+    request<{ board: Board }>('/api/boards', { method: 'POST', body: JSON.stringify(input) }),
+  updateBoard: (id: number, input: BoardInput) =>
+    request<{ board: Board }>(`/api/boards/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+  deleteBoard: (id: number) => request<{}>(`/api/boards/${id}`, { method: 'DELETE' }),
+  setBoardStaff: (id: number, userIds: number[]) =>
+    request<{ userIds: number[] }>(`/api/boards/${id}/staff`, { method: 'PUT', body: JSON.stringify({ userIds }) }),
+};
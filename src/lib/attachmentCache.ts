@@ -0,0 +1,21 @@
+import { Notice } from '../types';
+import { attachmentUrl } from './api';
+
+// Where the service worker keeps offline copies of public attachments; see public/sw.js
+const ATTACHMENTS = 'uniboard-attachments-v1';
+
+const available = () => typeof caches !== 'undefined';
+
+/** Drops the offline copies of the notices' files, e.g. once the notices are deleted. */
+export async function forgetAttachments(notices: Notice[]): Promise<void> {
+  const files = notices.flatMap(notice => notice.attachments ?? []);
+  if (!available() || files.length === 0) return;
+  const cache = await caches.open(ATTACHMENTS);
+  // ignoreSearch also matches the `?download=1` copy
+  await Promise.all(files.map(file => cache.delete(attachmentUrl(file), { ignoreSearch: true })));
+}
+
+/** Drops every offline copy of an attachment, e.g. when signing out. */
+export async function clearAttachmentCache(): Promise<void> {
+  if (available()) await caches.delete(ATTACHMENTS);
+}
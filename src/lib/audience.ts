@@ -0,0 +1,67 @@
+import { NoticeAudience } from '../types';
+
+export type AudienceField = keyof NoticeAudience;
+
+export const AUDIENCE_FIELDS: { field: AudienceField, label: string, param: string }[] = [
+  { field: 'faculties', label: 'Faculty', param: 'faculty' },
+  { field: 'departments', label: 'Department', param: 'department' },
+  { field: 'years', label: 'Year of Study', param: 'year' },
+  { field: 'campuses', label: 'Campus', param: 'campus' },
+];
+
+/**
+ * Drops empty fields and sorts and de-duplicates the rest, so two audiences
+ * that mean the same thing compare equal. Returns undefined for "everyone".
+ */
+export function normalizeAudience(audience: NoticeAudience | undefined): NoticeAudience | undefined {
+  if (!audience) return undefined;
+  const normalized: NoticeAudience = {};
+  for (const { field } of AUDIENCE_FIELDS) {
+    const values = audience[field] as (string | number)[] | undefined;
+    if (values?.length) {
+      (normalized as Record<string, unknown>)[field] = [...new Set(values)].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+    }
+  }
+  return Object.keys(normalized).length ? normalized : undefined;
+}
+
+/**
+ * Whether a notice targeted at `audience` should reach someone following
+ * `following`. For each field the notice sets, the follower must either not
+ * filter on that field or share at least one value with it.
+ */
+export function matchesAudience(audience: NoticeAudience | undefined, following: NoticeAudience | undefined): boolean {
+  if (!audience || !following) return true;
+  return AUDIENCE_FIELDS.every(({ field }) => {
+    const targeted = audience[field] as (string | number)[] | undefined;
+    const followed = following[field] as (string | number)[] | undefined;
+    if (!targeted?.length || !followed?.length) return true;
+    return targeted.some(value => followed.includes(value));
+  });
+}
+
+/** `faculty=Engineering,Science&year=2` style parameters, as accepted by the WebSocket and REST API. */
+export function audienceToParams(audience: NoticeAudience | undefined, params = new URLSearchParams()): URLSearchParams {
+  for (const { field, param } of AUDIENCE_FIELDS) {
+    const values = audience?.[field];
+    if (values?.length) params.set(param, values.join(','));
+  }
+  return params;
+}
+
+export function audienceFromParams(params: URLSearchParams): NoticeAudience | undefined {
+  const audience: NoticeAudience = {};
+  for (const { field, param } of AUDIENCE_FIELDS) {
+    const values = (params.get(param) ?? '').split(',').map(v => v.trim()).filter(Boolean);
+    (audience as Record<string, unknown>)[field] = field === 'years' ? values.map(Number) : values;
+  }
+  return normalizeAudience(audience);
+}
+
+export function describeAudience(audience: NoticeAudience | undefined): string {
+  if (!audience) return 'Everyone';
+  return AUDIENCE_FIELDS
+    .filter(({ field }) => audience[field]?.length)
+    .map(({ field }) => field === 'years' ? `Year ${audience.years!.join('/')}` : audience[field]!.join(', '))
+    .join(' · ');
+}
@@ -0,0 +1,16 @@
+/**
+ * Where a board lives in the app: `/b/<slug>`, or the site root for the
+ * default board. Screens, kiosks and notice links sit below that, e.g.
+ * `/b/engineering/kiosk/lobby`.
+ */
+export function boardPath(slug: string | null | undefined, path = ''): string {
+  return `${slug ? `/b/${encodeURIComponent(slug)}` : ''}${path}` || '/';
+}
+
+/** Splits a location into the board it is on (null for the default board) and the path within it. */
+export function parseBoardLocation(pathname: string): { slug: string | null, path: string } {
+  const match = pathname.match(/^\/b\/([^/]+)(\/.*)?$/);
+  return match
+    ? { slug: decodeURIComponent(match[1]), path: match[2] ?? '/' }
+    : { slug: null, path: pathname };
+}
@@ -0,0 +1,11 @@
+const DISPLAY_ID_KEY = 'uniboard-display-id';
+
+/** A random id for this browser, kept so a screen is recognised across reloads. */
+export function getDisplayId(): string {
+  let id = localStorage.getItem(DISPLAY_ID_KEY);
+  if (!id) {
+    id = Math.random().toString(36).slice(2, 10);
+    localStorage.setItem(DISPLAY_ID_KEY, id);
+  }
+  return id;
+}
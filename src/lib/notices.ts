@@ -0,0 +1,73 @@
+import { format, isSameDay } from 'date-fns';
+import { Notice, NoticeBulkAction, NoticeInput } from '../types';
+
+/** When a notice went (or goes) live: its publish time if scheduled, else its creation time. */
+export function noticeTime(notice: Pick<Notice, 'createdAt' | 'publishAt'>): string {
+  return notice.publishAt ?? notice.createdAt;
+}
+
+export function sortBySchedule<T extends Pick<Notice, 'createdAt' | 'publishAt'>>(items: T[]): T[] {
+  return [...items].sort((a, b) => new Date(noticeTime(a)).getTime() - new Date(noticeTime(b)).getTime());
+}
+
+/** Board order: pinned notices first, in the order staff arranged them, then the newest. */
+export function sortForBoard<T extends Pick<Notice, 'createdAt' | 'publishAt' | 'pinOrder'>>(items: T[]): T[] {
+  return [...items].sort((a, b) =>
+    (a.pinOrder ?? Infinity) - (b.pinOrder ?? Infinity) ||
+    new Date(noticeTime(b)).getTime() - new Date(noticeTime(a)).getTime());
+}
+
+/** Replaces `notice` if it is listed, otherwise adds it, keeping board order. */
+export function upsertNotice(notices: Notice[], notice: Notice): Notice[] {
+  return sortForBoard([notice, ...notices.filter(n => n.id !== notice.id)]);
+}
+
+/** Applies a NOTICES_CHANGED batch to a list in board order. */
+export function applyNoticeChanges(notices: Notice[], updated: Notice[], removed: number[]): Notice[] {
+  const changed = new Set([...updated.map(n => n.id), ...removed]);
+  return sortForBoard([...updated, ...notices.filter(n => !changed.has(n.id))]);
+}
+
+export function toNoticeInput(notice: NoticeInput): NoticeInput {
+  const { title, content, category, priority, author, expiresAt, publishAt, audience, eventStart, eventEnd, location } = notice;
+  return { title, content, category, priority, author, expiresAt, publishAt, audience, eventStart, eventEnd, location };
+}
+
+/** What to tell someone who just saved `notice`, going by where it ended up. */
+export function savedMessage(notice: Notice): string {
+  switch (notice.status) {
+    case 'draft':
+      return 'Draft saved';
+    case 'pending':
+      return 'Submitted for review';
+    case 'rejected':
+      return 'Notice saved';
+    default:
+      return notice.publishAt && new Date(notice.publishAt) > new Date() ? 'Notice scheduled' : 'Notice published';
+  }
+}
+
+/** What to tell someone who just changed `count` notices at once. */
+export function bulkMessage(count: number, action: NoticeBulkAction): string {
+  const notices = count === 1 ? '1 notice' : `${count} notices`;
+  switch (action.kind) {
+    case 'delete':
+      return `Deleted ${notices}`;
+    case 'archive':
+      return `Archived ${notices}`;
+    case 'category':
+      return `Moved ${notices} to ${action.category}`;
+    case 'priority':
+      return `Set ${notices} to ${action.priority} priority`;
+  }
+}
+
+/** e.g. "Oct 20, 9:00 AM – 11:00 AM", with both dates when the event spans several days. */
+export function formatEventTime({ eventStart, eventEnd }: Pick<Notice, 'eventStart' | 'eventEnd'>): string | null {
+  if (!eventStart) return null;
+  const start = new Date(eventStart);
+  const startText = format(start, 'MMM d, h:mm a');
+  if (!eventEnd) return startText;
+  const end = new Date(eventEnd);
+  return `${startText} – ${format(end, isSameDay(start, end) ? 'h:mm a' : 'MMM d, h:mm a')}`;
+}
@@ -0,0 +1,81 @@
+import { ClientEvent, Notice, NoticeCategory, NoticePriority } from '../types';
+
+const DB_NAME = 'uniboard';
+const DB_VERSION = 1;
+// Key-value copies of what the screen last showed, e.g. 'board' or 'profile:lobby'
+const SNAPSHOTS = 'snapshots';
+// Changes made while offline, replayed in order on reconnect
+const OUTBOX = 'outbox';
+
+/** The last notices a screen received, so it can render them before, or without, a connection. */
+export interface BoardSnapshot {
+  notices: Notice[];
+  categories: NoticeCategory[];
+  priorities: NoticePriority[];
+  /** When the copy was last known to match the server, in epoch milliseconds. */
+  savedAt: number;
+}
+
+export type QueuedEvent = Extract<ClientEvent, { type: 'ADD_NOTICE' | 'DELETE_NOTICE' }>;
+
+/** A change made while offline, waiting to be sent as `event`. */
+export interface QueuedAction {
+  id: number;
+  /** Who made the change; it is only replayed while they are signed in. */
+  userId: number;
+  /** The slug of the board it was made on, which is the only one it is replayed on; unset for the default board. */
+  board?: string;
+  event: QueuedEvent;
+  /** For a delete, the notice as it was then, so an edit made meanwhile is not thrown away. */
+  notice?: Notice;
+  queuedAt: string;
+  /** Why the change could not be applied on reconnect; it waits for the user to retry or discard it. */
+  conflict?: string;
+}
+
+let opening: Promise<IDBDatabase> | undefined;
+
+function open(): Promise<IDBDatabase> {
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOTS);
+      request.result.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(err => {
+    // Private browsing and some kiosk browsers refuse IndexedDB; let a later call try again
+    opening = undefined;
+    throw err;
+  });
+  return opening;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await open();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * What the browser keeps between visits for working offline: the last known
+ * state of each screen, and the changes still to be sent to the server.
+ */
+export const offlineStore = {
+  load: <T>(key: string) => run<T | undefined>(SNAPSHOTS, 'readonly', store => store.get(key)),
+  save: (key: string, value: unknown) => run<void>(SNAPSHOTS, 'readwrite', store => store.put(value, key)),
+  forget: (key: string) => run<void>(SNAPSHOTS, 'readwrite', store => store.delete(key)),
+  listQueued: () => run<QueuedAction[]>(OUTBOX, 'readonly', store => store.getAll()),
+  queue: async (action: Omit<QueuedAction, 'id'>): Promise<QueuedAction> => {
+    const id = await run<number>(OUTBOX, 'readwrite', store => store.add(action));
+    return { ...action, id };
+  },
+  updateQueued: (action: QueuedAction) => run<void>(OUTBOX, 'readwrite', store => store.put(action)),
+  removeQueued: (id: number) => run<void>(OUTBOX, 'readwrite', store => store.delete(id)),
+};
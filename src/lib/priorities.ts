@@ -0,0 +1,11 @@
+import { NoticePriority } from '../types';
+
+/** The class that edges a notice card in its priority's colour; none for a priority the board no longer has. */
+export function priorityCardClass(priority?: NoticePriority): string | undefined {
+  return priority && `priority-${priority.color}`;
+}
+
+/** What new notices start out as: the middle rank, as Medium was of High, Medium and Low. */
+export function defaultPriority(priorities: NoticePriority[]): string {
+  return priorities[Math.floor((priorities.length - 1) / 2)]?.name ?? '';
+}
@@ -0,0 +1,33 @@
+import { format } from 'date-fns';
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+
+/** Formats an ISO timestamp for a `datetime-local` input, in local time. */
+export function toDateTimeLocal(iso?: string): string {
+  if (!iso) return '';
+  return format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+}
+
+/** Converts a `datetime-local` input value back into an ISO timestamp. */
+export function fromDateTimeLocal(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/** Date inputs give a local calendar day; the range covers all of it. */
+export function dayBoundary(day: string, end: boolean): string | undefined {
+  return day ? new Date(`${day}T${end ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+}
+
+/** Hands a downloaded file to the browser to save. */
+export function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,10 +1,24 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import { KioskBoard } from './components/KioskBoard';
+import { parseBoardLocation } from './lib/boards';
 import './index.css';
 
+// The service worker keeps the app loadable offline; in development Vite
+// serves unbundled modules that it could not sensibly cache.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Service worker not registered:', err));
+  });
+}
+
+// Lobby screens open /kiosk or /kiosk/<profile-name>, below /b/<slug> for other boards
+const { slug, path } = parseBoardLocation(window.location.pathname);
+const kioskMatch = path.match(/^\/kiosk(?:\/([^/]+))?\/?$/);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {kioskMatch ? <KioskBoard board={slug} profileName={kioskMatch[1] ? decodeURIComponent(kioskMatch[1]) : null} /> : <App />}
   </StrictMode>,
 );
@@ -0,0 +1,69 @@
+import { Notice, Role, User } from './types';
+
+export type Permission =
+  | 'notice:create'
+  | 'notice:update:own'
+  | 'notice:update:any'
+  | 'notice:delete:own'
+  | 'notice:delete:any'
+  | 'notice:archive'
+  | 'notice:publish'
+  | 'notice:review'
+  | 'notice:arrange'
+  | 'board:settings'
+  | 'board:manage'
+  | 'notice:crosspost'
+  | 'board:backup'
+  | 'audit:view'
+  | 'analytics:view'
+  | 'emergency:broadcast'
+  | 'user:manage';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  // Posters' notices wait in the review queue; admins publish directly and review.
+  // Posters see engagement so departments know whether their notices are read.
+  // Pinning, ordering and bulk changes shape the whole board, so only admins arrange it.
+  poster: ['notice:create', 'notice:update:own', 'notice:delete:own', 'analytics:view'],
+  // Board admins run the notices of their own boards; what every board
+  // shares (categories, accounts, backups, alerts) is left to admins.
+  board_admin: ['notice:create', 'notice:update:any', 'notice:delete:any', 'notice:archive', 'notice:publish', 'notice:review', 'notice:arrange', 'analytics:view'],
+  admin: ['notice:create', 'notice:update:any', 'notice:delete:any', 'notice:archive', 'notice:publish', 'notice:review', 'notice:arrange', 'notice:crosspost', 'board:settings', 'board:manage', 'board:backup', 'audit:view', 'analytics:view', 'emergency:broadcast', 'user:manage'],
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  poster: 'Department Poster',
+  board_admin: 'Board Admin',
+  admin: 'Central Admin',
+};
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export function canManageNotices(user: User | null | undefined): boolean {
+  return hasPermission(user, 'notice:create');
+}
+
+/** Whether `user` works on the board: admins on every board, other staff on the ones they belong to. */
+export function canAccessBoard(user: User | null | undefined, boardId: number): boolean {
+  if (!user) return false;
+  return hasPermission(user, 'board:manage') || user.boardIds.includes(boardId);
+}
+
+/** Staff of this board, who see its whole notice set rather than the public board. */
+export function canManageBoard(user: User | null | undefined, boardId: number): boolean {
+  return canManageNotices(user) && canAccessBoard(user, boardId);
+}
+
+export function canEditNotice(user: User | null | undefined, notice: Pick<Notice, 'createdBy'>): boolean {
+  if (hasPermission(user, 'notice:update:any')) return true;
+  return hasPermission(user, 'notice:update:own') && notice.createdBy === user!.id;
+}
+
+export function canDeleteNotice(user: User | null | undefined, notice: Pick<Notice, 'createdBy'>): boolean {
+  if (hasPermission(user, 'notice:delete:any')) return true;
+  return hasPermission(user, 'notice:delete:own') && notice.createdBy === user!.id;
+}
@@ -1,21 +1,565 @@
+/**
+ * Who a notice is meant for. Each dimension that is set narrows the
+ * audience; a notice with no audience is for everyone. The same shape
+ * describes what a client follows.
+ */
+export interface NoticeAudience {
+  faculties?: string[];
+  departments?: string[];
+  years?: number[];
+  campuses?: string[];
+}
+
 export interface Notice {
   id: number;
+  /** The board the notice is on; a notice cross-posted to several boards is a separate copy on each. */
+  boardId: number;
   title: string;
   content: string;
-  category: 'Academic' | 'Event' | 'Exam' | 'General' | 'Emergency';
-  priority: 'Low' | 'Medium' | 'High';
+  /** The name of one of the board's categories; see NoticeCategory. */
+  category: string;
+  /** The name of one of the board's priorities; see NoticePriority. */
+  priority: string;
   author: string;
   createdAt: string;
   expiresAt?: string;
+  publishAt?: string;
+  audience?: NoticeAudience;
+  /** When the exam or event the notice announces takes place, if it names a time. */
+  eventStart?: string;
+  eventEnd?: string;
+  location?: string;
+  attachments?: Attachment[];
+  createdBy?: number;
+  /** Where the notice is in review; only approved notices reach the public board. */
+  status: NoticeStatus;
+  /** Why a reviewer sent the notice back, while it is rejected. */
+  rejectionReason?: string;
+  reviewedBy?: number;
+  reviewedAt?: string;
+  /** Position among pinned notices, which lead the board in this order; unset when not pinned. */
+  pinOrder?: number;
+}
+
+/**
+ * A notice is written as a draft or submitted straight away. Staff who may
+ * publish have their notices approved on submission; anyone else's wait as
+ * pending until a reviewer approves or rejects them.
+ */
+export type NoticeStatus = 'draft' | 'pending' | 'approved' | 'rejected';
+
+export const NOTICE_STATUSES: NoticeStatus[] = ['draft', 'pending', 'approved', 'rejected'];
+
+export type ReviewDecision = 'approve' | 'reject';
+
+/** A file uploaded with a notice, served from `/api/attachments/:id`. */
+export interface Attachment {
+  id: number;
+  filename: string;
+  mimeType: AttachmentType;
+  size: number;
+  createdAt: string;
+}
+
+export const ATTACHMENT_TYPES = {
+  'application/pdf': 'pdf',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+} as const;
+
+export type AttachmentType = keyof typeof ATTACHMENT_TYPES;
+
+export const ATTACHMENT_LIMITS = {
+  bytes: 10 * 1024 * 1024,
+  perNotice: 10,
+  filename: 200,
+};
+
+export const NOTICE_LIMITS = {
+  title: 200,
+  content: 10000,
+  author: 100,
+  location: 200,
+  rejectionReason: 500,
+};
+
+export const CATEGORY_COLORS = ['slate', 'red', 'amber', 'emerald', 'blue', 'violet', 'pink', 'cyan'] as const;
+export type CategoryColor = typeof CATEGORY_COLORS[number];
+
+export const CATEGORY_ICONS = [
+  'bell', 'alert', 'book', 'file', 'trophy', 'calendar', 'graduation', 'library',
+  'flask', 'dumbbell', 'music', 'megaphone', 'briefcase', 'utensils', 'bus', 'heart',
+] as const;
+export type CategoryIconName = typeof CATEGORY_ICONS[number];
+
+/**
+ * A category notices are filed under, managed by admins in Board Settings.
+ * Notices refer to their category by name, so renaming one renames it on
+ * every notice too.
+ */
+export interface NoticeCategory {
+  id: number;
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIconName;
+  /** Position in filters and pickers, lowest first. */
+  sortOrder: number;
+}
+
+export type NoticeCategoryInput = Omit<NoticeCategory, 'id'>;
+
+export const CATEGORY_LIMITS = {
+  name: 30,
+};
+
+/**
+ * How pressing a notice is, managed by admins in Board Settings like the
+ * categories and likewise referred to by name. Notices of a priority marked
+ * `ticker` are flagged as urgent and scroll along the foot of kiosk screens.
+ */
+export interface NoticePriority {
+  id: number;
+  name: string;
+  color: CategoryColor;
+  /** Higher ranks sort first and come first in pickers. */
+  rank: number;
+  ticker: boolean;
+}
+
+export type NoticePriorityInput = Omit<NoticePriority, 'id'>;
+
+export const PRIORITY_LIMITS = {
+  name: 30,
+};
+
+/**
+ * A board of its own, e.g. for a faculty or a campus, with its own notices
+ * and staff. Each is served at `/b/<slug>`; the first board, which holds
+ * everything from before there were several, also at `/`.
+ * Categories, priorities, display profiles and emergency alerts are shared by every board.
+ */
+export interface Board {
+  id: number;
+  slug: string;
+  name: string;
+  /** Shown under the name in the header, e.g. "Faculty of Engineering". */
+  tagline: string;
+  color: CategoryColor;
+  createdAt: string;
+}
+
+export type BoardInput = Omit<Board, 'id' | 'createdAt'>;
+
+export const BOARD_LIMITS = {
+  slug: 40,
+  name: 60,
+  tagline: 120,
+};
+
+export const YEARS_OF_STUDY = [1, 2, 3, 4, 5, 6];
+
+export const AUDIENCE_LIMITS = {
+  value: 100,
+  valuesPerField: 20,
+};
+
+// `attachmentIds` sets exactly which uploads a notice carries; leaving it out
+// keeps the ones it has.
+// Review fields only change through the workflow, never by editing.
+export type NoticeInput = Omit<
+  Notice,
+  'id' | 'boardId' | 'createdAt' | 'createdBy' | 'attachments' | 'status' | 'rejectionReason' | 'reviewedBy' | 'reviewedAt' | 'pinOrder'
+> & { attachmentIds?: number[] };
+
+export interface NoticeQuery {
+  /** The slug of the board to read; the default board when left out. */
+  board?: string;
+  /** Full-text search over title, content and author; words match as prefixes. */
+  q?: string;
+  category?: Notice['category'][];
+  priority?: Notice['priority'][];
+  author?: string;
+  from?: string;
+  to?: string;
+  audience?: NoticeAudience;
+  /** Sorts by a column instead of board order (pinned notices first, then the newest) or, when searching, relevance. */
+  sort?: NoticeSortField;
+  /** Defaults to the newest, highest-priority or alphabetically first notices first, depending on `sort`. */
+  order?: SortOrder;
+  cursor?: string;
+  limit?: number;
+}
+
+export const NOTICE_SORT_FIELDS = ['date', 'title', 'category', 'priority'] as const;
+export type NoticeSortField = typeof NOTICE_SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+/** One change applied to several live notices at once from the admin table. */
+export type NoticeBulkAction =
+  | { kind: 'delete' }
+  | { kind: 'archive' }
+  | { kind: 'category'; category: Notice['category'] }
+  | { kind: 'priority'; priority: Notice['priority'] };
+
+/** Most notices a single bulk change or reordering may name. */
+export const BULK_LIMIT = 100;
+
+/** Notices whose event overlaps `from`–`to`, for the calendar view and ICS feed. */
+export interface EventQuery {
+  board?: string;
+  from?: string;
+  to?: string;
+  category?: Notice['category'][];
+  audience?: NoticeAudience;
+}
+
+// Search matches are wrapped in these private-use characters rather than
+// HTML tags, so highlighted text can be rendered without trusting markup.
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
+export interface NoticeHighlight {
+  title: string;
+  snippet: string;
+}
+
+export interface NoticePage {
+  notices: (Notice & { highlight?: NoticeHighlight })[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export type DisplayOrientation = 'landscape' | 'portrait';
+
+/** Settings a kiosk screen loads by name, e.g. `/kiosk/main-lobby`. */
+export interface DisplayProfile {
+  id: number;
+  name: string;
+  categories: Notice['category'][];
+  rotationSeconds: number;
+  orientation: DisplayOrientation;
+  updatedAt: string;
 }
 
-export type NoticeInput = Omit<Notice, 'id' | 'createdAt'>;
+export type DisplayProfileInput = Omit<DisplayProfile, 'id' | 'updatedAt'>;
+
+export const DEFAULT_DISPLAY_PROFILE: DisplayProfileInput = {
+  name: 'default',
+  categories: [],
+  rotationSeconds: 12,
+  orientation: 'landscape',
+};
+
+// Admins run every board; board admins and posters work on the boards they belong to.
+export type Role = 'viewer' | 'poster' | 'board_admin' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  role: Role;
+  department?: string;
+  /** The boards the user is on the staff of. */
+  boardIds: number[];
+  createdAt: string;
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  role: Role;
+  department?: string;
+  boardIds?: number[];
+}
+
+export type ArchiveReason = 'expired' | 'manual';
+
+export interface ArchivedNotice extends Notice {
+  archivedAt: string;
+  archivedBy?: number;
+  archiveReason: ArchiveReason;
+}
+
+export interface NoticeRevision extends NoticeInput {
+  id: number;
+  noticeId: number;
+  revision: number;
+  editedBy?: number;
+  editedByName?: string;
+  editedAt: string;
+}
+
+export type NoticePlacement = 'live' | 'scheduled' | 'archived';
+
+export type ExportFormat = 'csv' | 'json';
+
+/** Which notices an export covers. Dates compare against when a notice went (or goes) live. */
+export interface BackupFilter {
+  from?: string;
+  to?: string;
+  category?: Notice['category'][];
+  includeArchived?: boolean;
+  includeRevisions?: boolean;
+}
+
+export const BACKUP_FORMAT = 'uniboard-backup';
+// Version 1 marked each notice "live" or "scheduled" in `status`, before
+// notices went through review; those notices are restored as approved.
+export const BACKUP_VERSION = 2;
+
+/** The JSON export. Restoring it puts every notice back under its original id. */
+export interface BoardBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  filter: BackupFilter;
+  notices: Notice[];
+  archived?: ArchivedNotice[];
+  revisions?: NoticeRevision[];
+}
+
+/** A notice in a backup whose id is already taken on this board. */
+export interface ImportConflict {
+  id: number;
+  title: string;
+  existing: NoticePlacement;
+  existingTitle: string;
+}
+
+export interface ImportReport {
+  notices: number;
+  archived: number;
+  revisions: number;
+  conflicts: ImportConflict[];
+}
+
+export type ImportConflictMode = 'skip' | 'replace';
+
+export interface ImportResult {
+  imported: number;
+  replaced: number;
+  skipped: number;
+  revisions: number;
+}
+
+export const AUDIT_ACTIONS = [
+  'notice.create',
+  'notice.update',
+  'notice.review',
+  'notice.delete',
+  'notice.archive',
+  'notice.restore',
+  'notice.pin',
+  'notice.unpin',
+  'notice.reorder',
+  'emergency.issue',
+  'emergency.clear',
+  'user.create',
+  'user.delete',
+  'display_profile.create',
+  'display_profile.update',
+  'display_profile.delete',
+  'category.create',
+  'category.update',
+  'category.delete',
+  'priority.create',
+  'priority.update',
+  'priority.delete',
+  'board.create',
+  'board.update',
+  'board.delete',
+  'backup.import',
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+/**
+ * One entry of the append-only audit log. `before` and `after` are snapshots
+ * of what the action changed, e.g. the notice as it was and as it became.
+ */
+export interface AuditEntry {
+  id: number;
+  at: string;
+  actorId?: number;
+  /** The actor's username at the time, kept even after the account is deleted. */
+  actorName?: string;
+  ip?: string;
+  action: AuditAction;
+  noticeId?: number;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditQuery {
+  action?: AuditAction[];
+  actor?: string;
+  noticeId?: number;
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  nextCursor: string | null;
+}
+
+/**
+ * What a public screen saw of one notice since its last report: how often the
+ * notice came into view, how often a reader opened it in full, and how many
+ * seconds it was on screen.
+ */
+export interface NoticeImpressions {
+  noticeId: number;
+  views: number;
+  expands: number;
+  dwellSeconds: number;
+}
+
+export const IMPRESSION_LIMITS = {
+  noticesPerReport: 200,
+  countPerReport: 10000,
+  dwellSecondsPerReport: 24 * 60 * 60,
+};
+
+export type AnalyticsInterval = 'hour' | 'day';
+
+export interface AnalyticsQuery {
+  /** The slug of the board to report on; the default board when left out. */
+  board?: string;
+  from?: string;
+  to?: string;
+  category?: Notice['category'][];
+  /** Defaults to hours for ranges of up to two days and days beyond that. */
+  interval?: AnalyticsInterval;
+}
+
+export interface EngagementMetrics {
+  views: number;
+  expands: number;
+  dwellSeconds: number;
+}
+
+/**
+ * Engagement over a time range, broken down by notice, category and screen.
+ * `series` has a bucket for every hour or (UTC) day in the range, including
+ * empty ones, so it can be charted as is.
+ */
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  interval: AnalyticsInterval;
+  totals: EngagementMetrics;
+  series: (EngagementMetrics & { bucket: string })[];
+  notices: (EngagementMetrics & { noticeId: number, title?: string, category: Notice['category'] })[];
+  categories: (EngagementMetrics & { category: Notice['category'] })[];
+  displays: (EngagementMetrics & { displayId: string, label: string })[];
+}
+
+export interface EmergencyAlertInput {
+  title: string;
+  message: string;
+  sound: boolean;
+}
+
+/** A board-wide takeover that stays up on every screen until an all clear. */
+export interface EmergencyAlert extends EmergencyAlertInput {
+  id: number;
+  issuedBy?: number;
+  issuedAt: string;
+}
+
+/** A public screen or kiosk, and whether it has confirmed the current alert. */
+export interface DisplayReceipt {
+  displayId: string;
+  label: string;
+  connected: boolean;
+  receivedAt?: string;
+}
+
+export const EMERGENCY_LIMITS = {
+  title: 200,
+  message: 2000,
+};
+
+export type ErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'internal';
 
 export type ServerEvent = 
-  | { type: 'INITIAL_STATE'; notices: Notice[] }
+  | {
+      type: 'INITIAL_STATE';
+      seq: number;
+      /** The board this connection is scoped to. */
+      board: Board;
+      /** The newest page of the board; older notices are fetched from /api/notices with `nextCursor`. */
+      notices: Notice[];
+      nextCursor: string | null;
+      /** Staff only: notices not on the board yet, whether scheduled, in draft, in review or rejected. */
+      scheduled?: Notice[];
+      emergency?: EmergencyAlert;
+      receipts?: DisplayReceipt[];
+      categories: NoticeCategory[];
+      priorities: NoticePriority[];
+    }
+  | { type: 'RESUMED'; seq: number; replayed: number }
   | { type: 'NOTICE_ADDED'; notice: Notice }
-  | { type: 'NOTICE_DELETED'; id: number };
+  /** Staff only: a notice that is not on the public board was added or changed. */
+  | { type: 'NOTICE_SCHEDULED'; notice: Notice }
+  | { type: 'NOTICE_UPDATED'; notice: Notice }
+  | { type: 'NOTICE_DELETED'; id: number }
+  | { type: 'NOTICES_ARCHIVED'; ids: number[] }
+  /**
+   * Several notices changed in one go, by a bulk change or by reordering the
+   * pinned notices; clients apply it as a whole. `removed` were deleted or archived.
+   */
+  | { type: 'NOTICES_CHANGED'; updated: Notice[]; removed: number[] }
+  | { type: 'DISPLAY_PROFILE_UPDATED'; profile: DisplayProfile }
+  | { type: 'DISPLAY_PROFILE_DELETED'; name: string }
+  /**
+   * The category list changed. `renamed` is set when notices moved from one
+   * category to another, by a rename or by deleting a category in use.
+   */
+  | { type: 'CATEGORIES_UPDATED'; categories: NoticeCategory[]; renamed?: { from: string; to: string } }
+  /** The priority list changed; `renamed` as for CATEGORIES_UPDATED. */
+  | { type: 'PRIORITIES_UPDATED'; priorities: NoticePriority[]; renamed?: { from: string; to: string } }
+  | { type: 'BOARD_UPDATED'; board: Board }
+  | { type: 'EMERGENCY_OVERRIDE'; alert: EmergencyAlert }
+  | { type: 'EMERGENCY_RECEIPTS'; alertId: number; displays: DisplayReceipt[] }
+  | { type: 'EMERGENCY_ALL_CLEAR'; alertId: number }
+  | { type: 'ACK'; requestId: string; notice?: Notice }
+  | { type: 'ERROR'; requestId?: string; code: ErrorCode; message: string };
+
+/**
+ * What actually travels over the socket. Broadcast events carry the `seq`
+ * they were given in the server's event log; ACK and ERROR replies to a
+ * single client are not part of that stream and have none.
+ */
+export type ServerMessage = ServerEvent & { seq?: number };
 
-export type ClientEvent = 
-  | { type: 'ADD_NOTICE'; notice: NoticeInput }
-  | { type: 'DELETE_NOTICE'; id: number };
+// `requestId` is echoed back in the ACK or ERROR reply to the sender.
+// Notices are submitted for review unless `draft` is set; see NoticeStatus.
+// Events act on the board the connection is scoped to.
+export type ClientEvent = (
+  /** `crossPost` names other boards to post a copy of the notice to. */
+  | { type: 'ADD_NOTICE'; notice: NoticeInput; draft?: boolean; crossPost?: number[] }
+  | { type: 'UPDATE_NOTICE'; id: number; notice: NoticeInput; draft?: boolean }
+  | { type: 'REVIEW_NOTICE'; id: number; decision: ReviewDecision; reason?: string }
+  | { type: 'DELETE_NOTICE'; id: number }
+  | { type: 'BULK_UPDATE_NOTICES'; ids: number[]; action: NoticeBulkAction }
+  | { type: 'PIN_NOTICE'; id: number; pinned: boolean }
+  /** Pinned notices in their new order; any left out follow in their current order. */
+  | { type: 'REORDER_PINNED'; ids: number[] }
+  | { type: 'PURGE_EXPIRED' }
+  | { type: 'RESTORE_ARCHIVED'; id: number }
+  | { type: 'ISSUE_EMERGENCY'; alert: EmergencyAlertInput }
+  | { type: 'ACK_EMERGENCY'; alertId: number }
+  | { type: 'RECORD_IMPRESSIONS'; impressions: NoticeImpressions[] }
+  | { type: 'CLEAR_EMERGENCY' }
+) & { requestId?: string };
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface Window {
+  /** Safari's name for AudioContext before version 14.1. */
+  webkitAudioContext?: typeof AudioContext;
+}
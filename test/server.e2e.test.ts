@@ -0,0 +1,658 @@
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import Database from "better-sqlite3";
+import WebSocket from "ws";
+import { MIGRATIONS, migrate } from "../server/migrate";
+import { createUniBoardServer, UniBoardServerOptions } from "../server/uniBoardServer";
+import { AuditEntry, ClientEvent, Notice, NoticeInput, ServerMessage } from "../src/types";
+
+const ADMIN = { username: "admin", password: "correct horse battery" };
+const WAIT_MS = 2000;
+
+type Message = ServerMessage & { seq?: number };
+
+/** A board on a free port with its own upload folder and, unless given a file, an in-memory database. */
+async function startBoard(databasePath = ":memory:", options: UniBoardServerOptions = {}) {
+  const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), "uniboard-test-"));
+  const board = createUniBoardServer({ databasePath, port: 0, host: "127.0.0.1", uploadDir, admin: ADMIN, ...options });
+  const { port } = await board.start();
+  return {
+    board,
+    http: `http://127.0.0.1:${port}`,
+    ws: `ws://127.0.0.1:${port}`,
+    close: async () => {
+      await board.stop();
+      fs.rmSync(uploadDir, { recursive: true, force: true });
+    }
+  };
+}
+
+type Board = Awaited<ReturnType<typeof startBoard>>;
+
+async function login(board: Board, username = ADMIN.username, password = ADMIN.password): Promise<string> {
+  const res = await fetch(`${board.http}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password })
+  });
+  assert.equal(res.status, 200);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+/**
+ * A WebSocket client that keeps every message it receives, so tests can wait
+ * for one without racing the server.
+ */
+class Client {
+  readonly messages: Message[] = [];
+  private waiters: (() => void)[] = [];
+
+  private constructor(readonly socket: WebSocket) {
+    socket.on("message", data => {
+      this.messages.push(JSON.parse(data.toString()));
+      this.waiters.forEach(wake => wake());
+    });
+  }
+
+  static connect(board: Board, { cookie, query = "" }: { cookie?: string, query?: string } = {}): Promise<Client> {
+    const socket = new WebSocket(`${board.ws}/${query}`, cookie ? { headers: { cookie } } : {});
+    const client = new Client(socket);
+    return new Promise((resolve, reject) => {
+      socket.once("open", () => resolve(client));
+      socket.once("error", reject);
+    });
+  }
+
+  send(event: ClientEvent | string) {
+    this.socket.send(typeof event === "string" ? event : JSON.stringify(event));
+  }
+
+  /** The first message, received so far or still to come, that is of `type` and matches. */
+  next<T extends Message["type"]>(type: T, matches: (message: Extract<Message, { type: T }>) => boolean = () => true) {
+    return this.waitFor(`a ${type} message`, (m): m is Extract<Message, { type: T }> => m.type === type && matches(m as Extract<Message, { type: T }>));
+  }
+
+  /** Sends `event` with a fresh requestId and waits for its ACK or ERROR. */
+  request(event: ClientEvent) {
+    const requestId = `req-${Math.random().toString(36).slice(2)}`;
+    this.send({ ...event, requestId });
+    return this.waitFor(`a reply to ${event.type}`, (m): m is Extract<Message, { type: "ACK" | "ERROR" }> =>
+      (m.type === "ACK" || m.type === "ERROR") && m.requestId === requestId);
+  }
+
+  private waitFor<T extends Message>(what: string, matches: (message: Message) => message is T): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const found = this.messages.find(matches);
+        if (!found) return false;
+        clearTimeout(timer);
+        this.waiters = this.waiters.filter(wake => wake !== wakeUp);
+        resolve(found);
+        return true;
+      };
+      const wakeUp = () => { check(); };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(wake => wake !== wakeUp);
+        reject(new Error(`No ${what} within ${WAIT_MS}ms; received ${this.messages.map(m => m.type).join(", ")}`));
+      }, WAIT_MS);
+      if (!check()) this.waiters.push(wakeUp);
+    });
+  }
+
+  close(): Promise<void> {
+    if (this.socket.readyState === WebSocket.CLOSED) return Promise.resolve();
+    return new Promise(resolve => {
+      this.socket.once("close", () => resolve());
+      this.socket.close();
+    });
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function noticeInput(overrides: Partial<NoticeInput> = {}): NoticeInput {
+  return { title: "Library hours", content: "Open until midnight in exam week.", category: "General", priority: "Low", author: "Library", ...overrides };
+}
+
+async function addNotice(client: Client, overrides: Partial<NoticeInput> = {}): Promise<Notice> {
+  const reply = await client.request({ type: "ADD_NOTICE", notice: noticeInput(overrides) });
+  assert.equal(reply.type, "ACK", reply.type === "ERROR" ? reply.message : undefined);
+  return reply.notice!;
+}
+
+describe("WebSocket protocol", () => {
+  let board: Board;
+  let cookie: string;
+  let clients: Client[];
+
+  const connect = async (options?: { cookie?: string, query?: string }) => {
+    const client = await Client.connect(board, options);
+    clients.push(client);
+    return client;
+  };
+
+  before(async () => {
+    board = await startBoard();
+    cookie = await login(board);
+  });
+
+  after(async () => {
+    await board.close();
+  });
+
+  beforeEach(() => {
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()));
+  });
+
+  test("sends the initial state with the board's categories", async () => {
+    const client = await connect();
+    const initial = await client.next("INITIAL_STATE");
+    assert.ok(Array.isArray(initial.notices));
+    assert.ok(initial.categories.some(category => category.name === "General"));
+    assert.equal(initial.scheduled, undefined);
+
+    const staff = await connect({ cookie });
+    assert.ok(Array.isArray((await staff.next("INITIAL_STATE")).scheduled));
+  });
+
+  test("acknowledges a new notice and broadcasts it to every board", async () => {
+    const admin = await connect({ cookie });
+    const screen = await connect();
+
+    const notice = await addNotice(admin, { title: "Welcome week" });
+    assert.equal(notice.status, "approved");
+
+    const added = await screen.next("NOTICE_ADDED", m => m.notice.id === notice.id);
+    assert.equal(added.notice.title, "Welcome week");
+    assert.equal(typeof added.seq, "number");
+  });
+
+  test("broadcasts updates and deletions", async () => {
+    const admin = await connect({ cookie });
+    const screen = await connect();
+    const notice = await addNotice(admin);
+
+    const updated = await admin.request({ type: "UPDATE_NOTICE", id: notice.id, notice: noticeInput({ title: "Library hours (revised)" }) });
+    assert.equal(updated.type, "ACK");
+    assert.equal((await screen.next("NOTICE_UPDATED", m => m.notice.id === notice.id)).notice.title, "Library hours (revised)");
+
+    assert.equal((await admin.request({ type: "DELETE_NOTICE", id: notice.id })).type, "ACK");
+    await screen.next("NOTICE_DELETED", m => m.id === notice.id);
+  });
+
+  test("rejects changes from anonymous clients", async () => {
+    const screen = await connect();
+    const reply = await screen.request({ type: "ADD_NOTICE", notice: noticeInput() });
+    assert.equal(reply.type, "ERROR");
+    assert.equal(reply.code, "unauthorized");
+  });
+
+  test("rejects malformed messages", async () => {
+    const admin = await connect({ cookie });
+
+    admin.send("{not json");
+    assert.equal((await admin.next("ERROR")).code, "invalid_request");
+
+    const reply = await admin.request({ type: "ADD_NOTICE", notice: noticeInput({ category: "Nonexistent" }) });
+    assert.equal(reply.type, "ERROR");
+    assert.equal(reply.code, "invalid_request");
+  });
+
+  test("holds posters' notices for review and publishes them once approved", async () => {
+    const created = await fetch(`${board.http}/api/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ username: "society", password: "society password", role: "poster" })
+    });
+    assert.equal(created.status, 201);
+
+    const admin = await connect({ cookie });
+    const poster = await connect({ cookie: await login(board, "society", "society password") });
+    const screen = await connect();
+
+    const notice = await addNotice(poster, { title: "Chess club" });
+    assert.equal(notice.status, "pending");
+    await admin.next("NOTICE_SCHEDULED", m => m.notice.id === notice.id);
+
+    const review = await admin.request({ type: "REVIEW_NOTICE", id: notice.id, decision: "approve" });
+    assert.equal(review.type, "ACK");
+    await screen.next("NOTICE_ADDED", m => m.notice.id === notice.id);
+    assert.ok(!screen.messages.some(m => m.type === "NOTICE_SCHEDULED"));
+  });
+
+  test("only sends public boards the notices for the audiences they follow", async () => {
+    const admin = await connect({ cookie });
+    const engineering = await connect({ query: "?faculty=Engineering" });
+
+    const science = await addNotice(admin, { title: "Lab safety", audience: { faculties: ["Science"] } });
+    const mine = await addNotice(admin, { title: "Design show", audience: { faculties: ["Engineering"] } });
+
+    await engineering.next("NOTICE_ADDED", m => m.notice.id === mine.id);
+    assert.ok(!engineering.messages.some(m => m.type === "NOTICE_ADDED" && m.notice.id === science.id));
+    await admin.next("NOTICE_ADDED", m => m.notice.id === science.id);
+  });
+
+  test("replays missed events to a reconnecting client", async () => {
+    const admin = await connect({ cookie });
+    const screen = await connect();
+    const { seq } = await screen.next("INITIAL_STATE");
+    await screen.close();
+
+    const missed = await addNotice(admin, { title: "Missed while offline" });
+
+    const resumed = await connect({ query: `?since=${seq}` });
+    const { replayed } = await resumed.next("RESUMED");
+    assert.ok(replayed >= 1);
+    await resumed.next("NOTICE_ADDED", m => m.notice.id === missed.id);
+    assert.ok(!resumed.messages.some(m => m.type === "INITIAL_STATE"));
+  });
+
+  test("tracks which screens acknowledged an emergency alert", async () => {
+    const admin = await connect({ cookie });
+    const lobby = await connect({ query: "?display=lobby&label=Main%20lobby" });
+    const issued = await admin.request({ type: "ISSUE_EMERGENCY", alert: { title: "Fire drill", message: "Leave by the nearest exit.", sound: false } });
+    assert.equal(issued.type, "ACK");
+    const { alert } = await lobby.next("EMERGENCY_OVERRIDE");
+
+    assert.equal((await lobby.request({ type: "ACK_EMERGENCY", alertId: alert.id })).type, "ACK");
+    const receipts = await admin.next("EMERGENCY_RECEIPTS", m =>
+      m.alertId === alert.id && m.displays.some(d => d.displayId === "lobby" && !!d.receivedAt));
+    assert.equal(receipts.displays.find(d => d.displayId === "lobby")!.label, "Main lobby");
+    assert.ok(!lobby.messages.some(m => m.type === "EMERGENCY_RECEIPTS"));
+
+    assert.equal((await admin.request({ type: "CLEAR_EMERGENCY" })).type, "ACK");
+    await lobby.next("EMERGENCY_ALL_CLEAR", m => m.alertId === alert.id);
+  });
+
+  test("keeps pinned notices at the top of the board in the order staff arrange them", async () => {
+    const admin = await connect({ cookie });
+    const screen = await connect();
+    const first = await addNotice(admin, { title: "Library hours" });
+    const second = await addNotice(admin, { title: "Exam timetable" });
+    const newest = await addNotice(admin, { title: "Lost and found" });
+
+    for (const notice of [first, second]) {
+      const reply = await admin.request({ type: "PIN_NOTICE", id: notice.id, pinned: true });
+      assert.equal(reply.type, "ACK");
+      await screen.next("NOTICE_UPDATED", m => m.notice.id === notice.id && m.notice.pinOrder !== undefined);
+    }
+    const boardOrder = async (query = "") => {
+      const res = await fetch(`${board.http}/api/notices${query}`);
+      return (await res.json() as { notices: Notice[], nextCursor: string | null });
+    };
+    assert.deepEqual((await boardOrder()).notices.slice(0, 3).map(n => n.id), [first.id, second.id, newest.id]);
+
+    assert.equal((await admin.request({ type: "REORDER_PINNED", ids: [second.id] })).type, "ACK");
+    const changed = await screen.next("NOTICES_CHANGED");
+    assert.deepEqual(changed.updated.map(n => n.id), [second.id, first.id]);
+
+    // Paging one notice at a time walks the pinned notices first
+    const walked: number[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await boardOrder(`?limit=1${cursor ? `&cursor=${cursor}` : ""}`);
+      walked.push(...page.notices.map(n => n.id));
+      cursor = page.nextCursor;
+    } while (cursor && walked.length < 3);
+    assert.deepEqual(walked, [second.id, first.id, newest.id]);
+
+    // The table arranges pages of the board against the whole pinned order
+    assert.equal((await fetch(`${board.http}/api/pinned`)).status, 401);
+    const pinned = await fetch(`${board.http}/api/pinned`, { headers: { cookie } });
+    assert.deepEqual((await pinned.json() as { notices: Notice[] }).notices.map(n => n.id), [second.id, first.id]);
+
+    for (const notice of [first, second]) {
+      assert.equal((await admin.request({ type: "PIN_NOTICE", id: notice.id, pinned: false })).type, "ACK");
+    }
+    assert.deepEqual((await boardOrder()).notices.slice(0, 1).map(n => n.id), [newest.id]);
+  });
+
+  test("applies bulk changes to every notice or to none", async () => {
+    const admin = await connect({ cookie });
+    const screen = await connect();
+    const notices = [await addNotice(admin, { title: "Bulk one" }), await addNotice(admin, { title: "Bulk two" })];
+    const ids = notices.map(n => n.id);
+
+    const moved = await admin.request({ type: "BULK_UPDATE_NOTICES", ids, action: { kind: "category", category: "exam" } });
+    assert.equal(moved.type, "ACK");
+    const changed = await screen.next("NOTICES_CHANGED", m => m.updated.some(n => ids.includes(n.id)));
+    assert.deepEqual(changed.updated.map(n => [n.id, n.category]), ids.map(id => [id, "Exam"]));
+
+    const failed = await admin.request({ type: "BULK_UPDATE_NOTICES", ids: [...ids, 999999], action: { kind: "archive" } });
+    assert.equal(failed.type, "ERROR");
+    assert.equal(failed.code, "not_found");
+    assert.equal((await fetch(`${board.http}/api/notices/${ids[0]}`)).status, 200);
+
+    assert.equal((await admin.request({ type: "BULK_UPDATE_NOTICES", ids, action: { kind: "archive" } })).type, "ACK");
+    await screen.next("NOTICES_CHANGED", m => ids.every(id => m.removed.includes(id)));
+    assert.equal((await fetch(`${board.http}/api/notices/${ids[0]}`)).status, 404);
+
+    const anonymous = await screen.request({ type: "BULK_UPDATE_NOTICES", ids, action: { kind: "delete" } });
+    assert.equal(anonymous.type, "ERROR");
+    assert.equal(anonymous.code, "unauthorized");
+  });
+
+  test("sorts by the priorities admins set up and carries renames to the notices", async () => {
+    const admin = await connect({ cookie });
+    const screen = await connect();
+    const res = await fetch(`${board.http}/api/priorities`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ name: "Critical", color: "pink", rank: 5, ticker: true })
+    });
+    assert.equal(res.status, 201);
+    const { priority } = await res.json() as { priority: { id: number } };
+    const critical = await addNotice(admin, { title: "Water main burst", priority: "critical" });
+    assert.equal(critical.priority, "Critical");
+
+    const sorted = await (await fetch(`${board.http}/api/notices?sort=priority`)).json() as { notices: Notice[] };
+    assert.equal(sorted.notices[0].id, critical.id);
+
+    const unknown = await admin.request({ type: "ADD_NOTICE", notice: noticeInput({ priority: "Whenever" }) });
+    assert.equal(unknown.type, "ERROR");
+    assert.equal(unknown.code, "invalid_request");
+
+    await fetch(`${board.http}/api/priorities/${priority.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ name: "Severe", color: "pink", rank: 5, ticker: true })
+    });
+    const updated = await screen.next("PRIORITIES_UPDATED", m => m.renamed !== undefined);
+    assert.deepEqual(updated.renamed, { from: "Critical", to: "Severe" });
+    const { notice } = await (await fetch(`${board.http}/api/notices/${critical.id}`)).json() as { notice: Notice };
+    assert.equal(notice.priority, "Severe");
+
+    const inUse = await fetch(`${board.http}/api/priorities/${priority.id}`, { method: "DELETE", headers: { cookie } });
+    assert.equal(inUse.status, 409);
+  });
+
+  const createBoard = async (slug: string, name: string) => {
+    const res = await fetch(`${board.http}/api/boards`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ slug, name, tagline: "", color: "blue" })
+    });
+    assert.equal(res.status, 201);
+    return (await res.json() as { board: { id: number, slug: string } }).board;
+  };
+
+  test("keeps each board's notices and connections to itself", async () => {
+    await createBoard("engineering", "Engineering");
+    const admin = await connect({ cookie, query: "?board=engineering" });
+    const engineering = await connect({ query: "?board=engineering" });
+    const main = await connect();
+    assert.equal((await engineering.next("INITIAL_STATE")).board.slug, "engineering");
+    assert.equal((await main.next("INITIAL_STATE")).board.slug, "main");
+
+    const ours = await addNotice(admin, { title: "Robotics open day" });
+    await engineering.next("NOTICE_ADDED", m => m.notice.id === ours.id);
+    assert.ok(!main.messages.some(m => m.type === "NOTICE_ADDED" && m.notice.id === ours.id));
+    const listed = await (await fetch(`${board.http}/api/notices?board=engineering`)).json() as { notices: Notice[] };
+    assert.deepEqual(listed.notices.map(n => n.id), [ours.id]);
+
+    // Staff of the main board are not staff of this one
+    await fetch(`${board.http}/api/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify({ username: "registry", password: "registry password", role: "poster" })
+    });
+    const posterCookie = await login(board, "registry", "registry password");
+    const poster = await connect({ cookie: posterCookie, query: "?board=engineering" });
+    const denied = await poster.request({ type: "ADD_NOTICE", notice: noticeInput() });
+    assert.equal(denied.type, "ERROR");
+    assert.equal(denied.code, "forbidden");
+    assert.equal((await fetch(`${board.http}/api/analytics?board=engineering`, { headers: { cookie: posterCookie } })).status, 403);
+    assert.equal((await fetch(`${board.http}/api/analytics`, { headers: { cookie: posterCookie } })).status, 200);
+
+    // Nor may they see the files of its notices before they go up
+    const upload = await fetch(`${board.http}/api/attachments?name=timetable.pdf`, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf", cookie },
+      body: "%PDF-1.4"
+    });
+    const { attachment } = await upload.json() as { attachment: { id: number } };
+    const publishAt = new Date(Date.now() + 3600_000).toISOString();
+    await addNotice(admin, { title: "Exam timetable", publishAt, attachmentIds: [attachment.id] });
+    assert.equal((await fetch(`${board.http}/api/attachments/${attachment.id}`, { headers: { cookie: posterCookie } })).status, 404);
+    assert.equal((await fetch(`${board.http}/api/attachments/${attachment.id}`, { headers: { cookie } })).status, 200);
+
+    const nowhere = await connect({ query: "?board=nowhere" });
+    assert.equal((await nowhere.next("ERROR")).code, "not_found");
+    if (nowhere.socket.readyState !== WebSocket.CLOSED) {
+      await new Promise(resolve => nowhere.socket.once("close", resolve));
+    }
+  });
+
+  test("cross-posts a notice to other boards as separate copies", async () => {
+    const science = await createBoard("science", "Science");
+    const admin = await connect({ cookie });
+    const screen = await connect({ query: "?board=science" });
+
+    const reply = await admin.request({ type: "ADD_NOTICE", notice: noticeInput({ title: "Graduation" }), crossPost: [science.id] });
+    assert.equal(reply.type, "ACK");
+    const copy = (await screen.next("NOTICE_ADDED", m => m.notice.title === "Graduation")).notice;
+    assert.equal(copy.boardId, science.id);
+    assert.notEqual(copy.id, reply.notice!.id);
+
+    const unknown = await admin.request({ type: "ADD_NOTICE", notice: noticeInput(), crossPost: [999999] });
+    assert.equal(unknown.type, "ERROR");
+  });
+
+  test("labels screens in each board's engagement figures as they reported to that board", async () => {
+    await createBoard("arts", "Arts");
+    const admin = await connect({ cookie });
+    const artsAdmin = await connect({ cookie, query: "?board=arts" });
+    const notice = await addNotice(admin, { title: "Gallery opening" });
+    const artsNotice = await addNotice(artsAdmin, { title: "Life drawing class" });
+
+    const report = async (screen: Client, noticeId: number) => {
+      const reply = await screen.request({ type: "RECORD_IMPRESSIONS", impressions: [{ noticeId, views: 1, expands: 0, dwellSeconds: 5 }] });
+      assert.equal(reply.type, "ACK");
+    };
+    await report(await connect({ query: "?display=atrium&label=Atrium" }), notice.id);
+    await report(await connect({ query: "?board=arts&display=atrium&label=Arts atrium" }), artsNotice.id);
+
+    const label = async (query: string) => {
+      const { report } = await (await fetch(`${board.http}/api/analytics${query}`, { headers: { cookie } })).json() as
+        { report: { displays: { displayId: string, label: string }[] } };
+      return report.displays.find(d => d.displayId === "atrium")?.label;
+    };
+    assert.equal(await label(""), "Atrium");
+    assert.equal(await label("?board=arts"), "Arts atrium");
+  });
+
+  test("archives expired notices only on the board that asks", async () => {
+    await createBoard("law", "Law");
+    const lawAdmin = await connect({ cookie, query: "?board=law" });
+    const admin = await connect({ cookie });
+    const lawScreen = await connect({ query: "?board=law" });
+    const screen = await connect();
+    const expiresAt = new Date(Date.now() - 60_000).toISOString();
+    const moot = await addNotice(lawAdmin, { title: "Moot court sign-up", expiresAt });
+    const hours = await addNotice(admin, { title: "Summer library hours", expiresAt });
+
+    assert.equal((await lawAdmin.request({ type: "PURGE_EXPIRED" })).type, "ACK");
+    assert.deepEqual((await lawScreen.next("NOTICES_ARCHIVED")).ids, [moot.id]);
+
+    assert.equal((await admin.request({ type: "PURGE_EXPIRED" })).type, "ACK");
+    assert.ok((await screen.next("NOTICES_ARCHIVED")).ids.includes(hours.id));
+    assert.equal(lawScreen.messages.filter(m => m.type === "NOTICES_ARCHIVED").length, 1);
+  });
+
+  test("clears out a notice that a restored backup replaces", async () => {
+    const admin = await connect({ cookie });
+    const upload = await fetch(`${board.http}/api/attachments?name=poster.pdf`, {
+      method: "POST",
+      headers: { "Content-Type": "application/pdf", cookie },
+      body: "%PDF-1.4"
+    });
+    const { attachment } = await upload.json() as { attachment: { id: number } };
+    const notice = await addNotice(admin, { title: "Careers fair", attachmentIds: [attachment.id] });
+
+    const exported = await (await fetch(`${board.http}/api/export?format=json`, { headers: { cookie } })).json() as { notices: Notice[] };
+    const backup = { ...exported, notices: exported.notices.filter(n => n.id === notice.id).map(n => ({ ...n, title: "Open day", attachments: [] })) };
+    const edited = await admin.request({ type: "UPDATE_NOTICE", id: notice.id, notice: noticeInput({ title: "Careers fair (moved)" }) });
+    assert.equal(edited.type, "ACK");
+
+    const restored = await fetch(`${board.http}/api/import?onConflict=replace`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", cookie },
+      body: JSON.stringify(backup)
+    });
+    assert.equal(restored.status, 200);
+    const revisions = await (await fetch(`${board.http}/api/notices/${notice.id}/revisions`, { headers: { cookie } })).json() as { revisions: unknown[] };
+    assert.deepEqual(revisions.revisions, []);
+    assert.equal((await fetch(`${board.http}/api/attachments/${attachment.id}`, { headers: { cookie } })).status, 404);
+  });
+});
+
+describe("Feeds", () => {
+  test("date notices created before timestamps were stored as ISO in UTC", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "uniboard-db-"));
+    const databasePath = path.join(dir, "notices.db");
+    try {
+      // A database from before the upgrade, with createdAt as SQLite's CURRENT_TIMESTAMP left it
+      const db = new Database(databasePath);
+      migrate(db, MIGRATIONS.filter(migration => migration.version < 13));
+      db.prepare("INSERT INTO notices (title, content, category, priority, author, createdAt) VALUES (?, ?, ?, ?, ?, ?)")
+        .run("Legacy notice", "From before the upgrade.", "General", "Low", "Registry", "2026-10-19 18:57:54");
+      db.close();
+
+      const board = await startBoard(databasePath);
+      try {
+        const atom = await fetch(`${board.http}/feeds/all.atom`);
+        assert.match(await atom.text(), /<published>2026-10-19T18:57:54\.000Z<\/published>/);
+        assert.equal(atom.headers.get("last-modified"), "Mon, 19 Oct 2026 18:57:54 GMT");
+
+        const rss = await (await fetch(`${board.http}/feeds/all.xml`)).text();
+        assert.match(rss, /<pubDate>Mon, 19 Oct 2026 18:57:54 GMT<\/pubDate>/);
+      } finally {
+        await board.close();
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("link to APP_URL whatever host a request names", async () => {
+    const board = await startBoard(":memory:", { appUrl: "https://board.example.edu/" });
+    try {
+      // fetch() will not send a Host header of its own choosing
+      const rss = await new Promise<string>((resolve, reject) => {
+        http.get(`${board.http}/feeds/all.xml`, { headers: { Host: "attacker.example" } }, res => {
+          let body = "";
+          res.setEncoding("utf8");
+          res.on("data", chunk => body += chunk);
+          res.on("end", () => resolve(body));
+        }).on("error", reject);
+      });
+      assert.match(rss, /<link>https:\/\/board\.example\.edu<\/link>/);
+      assert.doesNotMatch(rss, /attacker\.example/);
+    } finally {
+      await board.close();
+    }
+  });
+});
+
+describe("createUniBoardServer", () => {
+  test("runs independent boards side by side", async () => {
+    const first = await startBoard();
+    const second = await startBoard();
+    try {
+      const admin = await Client.connect(first, { cookie: await login(first) });
+      const other = await Client.connect(second);
+      await other.next("INITIAL_STATE");
+
+      const notice = await addNotice(admin, { title: "Only on the first board" });
+      await sleep(100);
+      assert.ok(!other.messages.some(m => m.type === "NOTICE_ADDED"));
+
+      const res = await fetch(`${second.http}/api/notices`);
+      const { notices } = await res.json() as { notices: Notice[] };
+      assert.ok(!notices.some(n => n.title === notice.title));
+
+      await Promise.all([admin.close(), other.close()]);
+    } finally {
+      await Promise.all([first.close(), second.close()]);
+    }
+  });
+
+  test("believes forwarded headers only when told it is behind a proxy", async () => {
+    const forged = { "X-Forwarded-For": "203.0.113.7, 198.51.100.2", "X-Forwarded-Proto": "https" };
+    const recorded = async (board: Board) => {
+      const res = await fetch(`${board.http}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...forged },
+        body: JSON.stringify(ADMIN)
+      });
+      const cookie = res.headers.get("set-cookie")!;
+      await fetch(`${board.http}/api/users`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", cookie: cookie.split(";")[0], ...forged },
+        body: JSON.stringify({ username: "registry", password: "registry password", role: "poster" })
+      });
+      const audit = await fetch(`${board.http}/api/audit?action=user.create`, { headers: { cookie: cookie.split(";")[0] } });
+      const { entries } = await audit.json() as { entries: AuditEntry[] };
+      return { secure: /;\s*Secure/.test(cookie), ip: entries[0].ip };
+    };
+
+    const direct = await startBoard();
+    const proxied = await startBoard(":memory:", { trustProxy: true });
+    try {
+      assert.deepEqual(await recorded(direct), { secure: false, ip: "127.0.0.1" });
+      assert.deepEqual(await recorded(proxied), { secure: true, ip: "198.51.100.2" });
+    } finally {
+      await Promise.all([direct.close(), proxied.close()]);
+    }
+  });
+
+  test("refuses sockets opened by other sites' pages", async () => {
+    const opens = (board: Board, origin: string) => new Promise<number>((resolve, reject) => {
+      const socket = new WebSocket(board.ws, { origin });
+      socket.once("open", () => {
+        socket.close();
+        resolve(101);
+      });
+      socket.once("unexpected-response", (req, res) => resolve(res.statusCode!));
+      socket.once("error", reject);
+    });
+
+    const local = await startBoard();
+    const hosted = await startBoard(":memory:", { appUrl: "https://board.example.edu" });
+    try {
+      assert.equal(await opens(local, local.http), 101);
+      assert.equal(await opens(local, "https://attacker.example"), 403);
+      assert.equal(await opens(hosted, "https://board.example.edu"), 101);
+      assert.equal(await opens(hosted, local.http), 403);
+    } finally {
+      await Promise.all([local.close(), hosted.close()]);
+    }
+  });
+
+  test("stop disconnects clients and frees the port", async () => {
+    const board = await startBoard();
+    const client = await Client.connect(board);
+    const closed = new Promise(resolve => client.socket.once("close", resolve));
+
+    await board.close();
+    await closed;
+    await assert.rejects(fetch(`${board.http}/api/health`));
+  });
+
+  test("starting again returns the address it already listens on", async () => {
+    const board = await startBoard();
+    try {
+      assert.equal(await board.board.start(), await board.board.start());
+    } finally {
+      await board.close();
+    }
+  });
+});